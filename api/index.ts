@@ -1,3 +1,8 @@
 import app from '../src'
 
+/**
+ * Serverless entry (`vercel.json`). Only the HTTP routes work here: the job queue, transaction tracking
+ * and webhook retries run in the server process between requests, and the stores write to `APP_DATA_DIR`,
+ * which does not persist across invocations. Deploy `src/index.ts` as a long-running server instead.
+ */
 export default app
@@ -3,6 +3,11 @@
 const jestConfig = {
     testTimeout: 60000,
     testEnvironment: 'node',
+    testMatch: ['<rootDir>/tests/**/*.test.ts'],
+    moduleNameMapper: {
+        '^~/(.*)\\.js$': '<rootDir>/src/$1',
+        '^(\\.{1,2}/.*)\\.js$': '$1'
+    },
     transform: {
         '^.+.tsx?$': ['ts-jest', {}]
     }
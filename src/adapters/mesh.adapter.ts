@@ -1,23 +1,33 @@
 import {
-    applyParamsToScript,
-    BlockfrostProvider,
+    CIP68_100,
+    CIP68_222,
+    cst,
     deserializeAddress,
+    hexToString,
+    IEvaluator,
     IFetcher,
     ISubmitter,
     MeshTxBuilder,
     MeshWallet,
     PlutusScript,
     resolveScriptHash,
-    scriptAddress,
-    serializeAddressObj,
-    serializePlutusScript,
+    stringToHex,
     UTxO
 } from '@meshsdk/core'
-import cbor from 'cbor'
-import { APP_NETWORK_ID, BLOCKFROST_API_KEY } from '~/constants/enviroments.constant.js'
-import { Plutus } from '../types/index.js'
-import plutus from '../../contracts/plutus.json' with { type: 'json' }
-import { title } from '../constants/common.constant.js'
+import {
+    CertificateAsset,
+    CertificateVerdict,
+    Cip68Metadata,
+    ExternalSigner,
+    Provider,
+    ReferenceScriptRecord,
+    ScriptReference
+} from '../types/index.js'
+import { getProvider } from '../providers/index.provider.js'
+import { contractRegistry } from '../services/contract.service.js'
+import { ReferenceScripts, referenceScripts as sharedReferenceScripts } from '../services/reference.service.js'
+import { UtxoManager, utxoManager as sharedUtxoManager } from '../services/wallet.service.js'
+import { decodeCip68Datum } from '../utils/cip68.util.js'
 
 /**
  * @class MeshAdapter
@@ -30,80 +40,195 @@ import { title } from '../constants/common.constant.js'
  *
  * This class is used primarily for Cardano smart contract operations
  * that require both `store` and `mint` scripts (parameterized with a course name and issuer).
+ * Once the scripts are deployed as reference scripts (see {@link ReferenceScripts}), transactions
+ * point at them instead of embedding the script CBOR.
  */
 export class MeshAdapter {
+    public provider: Provider
     protected fetcher: IFetcher
     protected submitter: ISubmitter
     protected meshWallet: MeshWallet
-    protected meshTxBuilder: MeshTxBuilder
+    protected signer?: ExternalSigner
+    protected evaluator?: IEvaluator
+    public utxoManager: UtxoManager
+    public referenceScripts: ReferenceScripts
+
+    public course: string
+    public networkId: number
 
-    protected mintCompileCode: string
     protected mintScriptCbor: string
     protected mintScript: PlutusScript
     public policyId: string
 
-    protected storeCompileCode: string
     protected storeScriptCbor: string
     protected storeScript: PlutusScript
     public storeAddress: string
 
+    public referenceAddress: string
+
+    public issuerAddress: string
+    public issuerPkHash: string
+
     /**
      * @constructor
      * @description
-     * Initializes the MeshAdapter with Cardano network providers (Blockfrost)
+     * Initializes the MeshAdapter with a Cardano chain provider (shared, selected by `APP_PROVIDER` unless injected)
      * and parameterized Plutus scripts for both "store" and "mint".
-     * The constructor automatically:
-     * 1. Reads validator scripts from the provided Plutus JSON.
-     * 2. Applies dynamic parameters like `course` and `issuer`.
-     * 3. Computes the policy ID and script address for later transactions.
+     * The scripts, policy ID and store address come from the {@link ContractRegistry}, which derives them
+     * from the Plutus JSON once per (course, issuer, network).
      *
      * @param {Object} params
      * @param {MeshWallet} [params.meshWallet] - Optional Mesh wallet instance used for signing.
+     * @param {ExternalSigner} [params.signer] - Optional external (e.g. CIP-30 browser) wallet whose address and
+     *   UTxOs fund the transaction instead of `meshWallet`; the caller signs the returned CBOR.
      * @param {string} params.course - The course identifier used to parameterize the scripts.
      * @param {string} params.issuer - The Bech32 issuer address whose pubkey/stake hash are used in the scripts.
+     * @param {Provider} [params.provider] - Optional chain provider used as fetcher and submitter.
+     * @param {IEvaluator} [params.evaluator] - Optional script evaluator used to compute execution units.
+     * @param {UtxoManager} [params.utxoManager] - Tracks wallet UTxOs spent by pending transactions (the shared one by default).
+     * @param {ReferenceScripts} [params.referenceScripts] - Where deployed reference scripts are recorded (the shared one by default).
      */
-    constructor({ meshWallet = null!, course, issuer }: { meshWallet?: MeshWallet; course: string; issuer: string }) {
-        this.fetcher = new BlockfrostProvider(BLOCKFROST_API_KEY)
-        this.submitter = new BlockfrostProvider(BLOCKFROST_API_KEY)
+    constructor({
+        meshWallet = null!,
+        signer,
+        course,
+        issuer,
+        provider = getProvider(),
+        evaluator,
+        utxoManager = sharedUtxoManager,
+        referenceScripts = sharedReferenceScripts
+    }: {
+        meshWallet?: MeshWallet
+        signer?: ExternalSigner
+        course: string
+        issuer: string
+        provider?: Provider
+        evaluator?: IEvaluator
+        utxoManager?: UtxoManager
+        referenceScripts?: ReferenceScripts
+    }) {
+        this.provider = provider
+        this.fetcher = provider
+        this.submitter = provider
+        this.evaluator = evaluator
         this.meshWallet = meshWallet
-        this.meshTxBuilder = new MeshTxBuilder({
-            fetcher: this.fetcher,
-            submitter: this.submitter
-        })
+        this.signer = signer
+        this.utxoManager = utxoManager
+        this.referenceScripts = referenceScripts
 
-        this.storeCompileCode = this.readValidator(plutus as Plutus, title.store)
-        this.storeScriptCbor = applyParamsToScript(this.storeCompileCode, [
-            course,
-            deserializeAddress(issuer).pubKeyHash,
-            deserializeAddress(issuer).stakeCredentialHash
-        ])
+        const contract = contractRegistry.get(course, issuer)
+        this.course = course
+        this.networkId = contract.networkId
+        this.issuerAddress = issuer
+        this.issuerPkHash = deserializeAddress(issuer).pubKeyHash
+        this.storeScriptCbor = contract.storeScriptCbor
         this.storeScript = {
             code: this.storeScriptCbor,
             version: 'V3'
         }
-        this.storeAddress = serializeAddressObj(
-            scriptAddress(
-                deserializeAddress(serializePlutusScript(this.storeScript, undefined, APP_NETWORK_ID, false).address)
-                    .scriptHash,
-                deserializeAddress(issuer).stakeCredentialHash,
-                false
-            ),
-            APP_NETWORK_ID
-        )
-
-        this.mintCompileCode = this.readValidator(plutus as Plutus, title.mint)
-        this.mintScriptCbor = applyParamsToScript(this.mintCompileCode, [
-            course,
-            deserializeAddress(issuer).pubKeyHash,
-            deserializeAddress(issuer).stakeCredentialHash,
-            deserializeAddress(this.storeAddress).scriptHash,
-            deserializeAddress(this.storeAddress).stakeCredentialHash
-        ])
+        this.storeAddress = contract.storeAddress
+        this.mintScriptCbor = contract.mintScriptCbor
         this.mintScript = {
             code: this.mintScriptCbor,
             version: 'V3'
         }
-        this.policyId = resolveScriptHash(this.mintScriptCbor, 'V3')
+        this.policyId = contract.policyId
+        this.referenceAddress = contract.referenceAddress
+    }
+
+    /**
+     * @method newMeshTxBuilder
+     * @description
+     * Creates a Mesh transaction builder with empty state, wired to this adapter's provider and evaluator.
+     * Each transaction must start from a fresh builder: Mesh builders accumulate inputs, outputs and mints.
+     *
+     * @returns {MeshTxBuilder} A new Mesh transaction builder.
+     */
+    protected newMeshTxBuilder = (): MeshTxBuilder => {
+        return new MeshTxBuilder({
+            fetcher: this.fetcher,
+            submitter: this.submitter,
+            evaluator: this.evaluator
+        })
+    }
+
+    /**
+     * @method complete
+     * @description
+     * Completes a transaction and reserves the wallet UTxOs it spends in the {@link UtxoManager},
+     * so transactions built before this one is confirmed chain on its change instead of reusing its inputs.
+     *
+     * @param {MeshTxBuilder} unsignedTx - The Mesh builder holding the transaction.
+     * @returns {Promise<string>} The unsigned transaction (CBOR hex).
+     */
+    protected complete = async (unsignedTx: MeshTxBuilder): Promise<string> => {
+        const tx = await unsignedTx.complete()
+        this.utxoManager.reserve(tx)
+        return tx
+    }
+
+    /**
+     * @method getReferenceScripts
+     * @description
+     * Looks up the reference scripts deployed for this contract and checks that both reference UTxOs
+     * are still unspent at the reference address and hold the scripts. The issuer can spend them (to
+     * reclaim their ADA), so a stale record is possible; builders then embed the scripts again.
+     *
+     * @returns {Promise<ReferenceScriptRecord | null>} The live reference scripts, or null if none are usable.
+     */
+    public getReferenceScripts = async (): Promise<ReferenceScriptRecord | null> => {
+        const record = this.referenceScripts.get(this.course, this.issuerAddress, this.networkId)
+        if (!record) return null
+        const utxos = await this.fetcher.fetchAddressUTxOs(record.address)
+        const live = (reference: ScriptReference) =>
+            utxos.some(
+                (utxo) =>
+                    utxo.input.txHash === reference.txHash &&
+                    utxo.input.outputIndex === reference.outputIndex &&
+                    utxo.output.scriptRef !== undefined
+            )
+        return live(record.mint) && live(record.store) ? record : null
+    }
+
+    /**
+     * @method scriptReferences
+     * @description Describes the outputs of a reference script deployment: the mint script first, then the store script.
+     */
+    public scriptReferences = (txHash: string): Pick<ReferenceScriptRecord, 'mint' | 'store'> => {
+        return {
+            mint: {
+                txHash,
+                outputIndex: 0,
+                scriptHash: this.policyId,
+                scriptSize: (this.mintScriptCbor.length / 2).toString()
+            },
+            store: {
+                txHash,
+                outputIndex: 1,
+                scriptHash: resolveScriptHash(this.storeScriptCbor, 'V3'),
+                scriptSize: (this.storeScriptCbor.length / 2).toString()
+            }
+        }
+    }
+
+    /**
+     * @method withMintScript
+     * @description Attaches the mint script to the current mint, by reference when deployed, inline otherwise.
+     */
+    protected withMintScript = (tx: MeshTxBuilder, scripts: ReferenceScriptRecord | null): MeshTxBuilder => {
+        if (!scripts) return tx.mintingScript(this.mintScriptCbor)
+        const { txHash, outputIndex, scriptSize, scriptHash } = scripts.mint
+        return tx.mintTxInReference(txHash, outputIndex, scriptSize, scriptHash)
+    }
+
+    /**
+     * @method withStoreScript
+     * @description Attaches the store script to the current script input, by reference when deployed, inline otherwise.
+     */
+    protected withStoreScript = (tx: MeshTxBuilder, scripts: ReferenceScriptRecord | null): MeshTxBuilder => {
+        if (!scripts) return tx.txInScript(this.storeScriptCbor)
+        const { txHash, outputIndex, scriptSize, scriptHash } = scripts.store
+        return tx.spendingTxInReference(txHash, outputIndex, scriptSize, scriptHash)
     }
 
     /**
@@ -114,6 +239,11 @@ export class MeshAdapter {
      * - Collateral (used for Plutus scripts)
      * - Wallet change address
      *
+     * When an external signer is set, its address and UTxOs are used instead of `meshWallet`.
+     * UTxOs spent by pending transactions are left out and their change is offered instead
+     * (see {@link UtxoManager.available}). The collateral falls back to the first ADA-only UTxO
+     * of at least 5 ADA when the wallet has none, or only reserved ones.
+     *
      * Ensures all required elements exist before continuing.
      * Throws descriptive errors if data is missing.
      *
@@ -124,36 +254,171 @@ export class MeshAdapter {
         collateral: UTxO
         walletAddress: string
     }> => {
-        const utxos = await this.meshWallet.getUtxos()
-        const collaterals = await this.meshWallet.getCollateral()
-        const walletAddress = await this.meshWallet.getChangeAddress()
-        if (!utxos || utxos.length === 0) throw new Error('No UTXOs found in getWalletForTx method.')
-        if (!collaterals || collaterals.length === 0) throw new Error('No collateral found in getWalletForTx method.')
+        const walletAddress = this.signer ? this.signer.address : await this.meshWallet.getChangeAddress()
         if (!walletAddress) throw new Error('No wallet address found in getWalletForTx method.')
+        const utxos = this.utxoManager.available(
+            walletAddress,
+            this.signer ? this.signer.utxos : await this.meshWallet.getUtxos()
+        )
+        const collaterals = [
+            ...(this.signer ? [this.signer.collateral] : await this.meshWallet.getCollateral()),
+            utxos.find(
+                (utxo) =>
+                    utxo.output.amount.length === 1 &&
+                    utxo.output.amount[0].unit === 'lovelace' &&
+                    Number(utxo.output.amount[0].quantity) >= 5000000
+            )
+        ].filter((utxo) => utxo !== undefined && !this.utxoManager.isReserved(utxo)) as UTxO[]
+        if (!utxos || utxos.length === 0) throw new Error('No UTXOs found in getWalletForTx method.')
+        if (collaterals.length === 0) throw new Error('No collateral found in getWalletForTx method.')
         return { utxos, collateral: collaterals[0], walletAddress }
     }
 
     /**
-     * @method readValidator
+     * @method getAsset
      * @description
-     * Retrieves the compiled validator code (Base16 string) from a loaded Plutus JSON file.
-     * Used internally by the constructor to get the "store" and "mint" scripts.
+     * Reads back a CIP-68 asset issued under this contract.
+     * Finds the CIP68_100 reference UTxO at `storeAddress`, decodes its inline datum and returns
+     * the metadata together with the units, the UTxO reference and the issuer pubkey hash (`_pk`).
      *
-     * @param {Plutus} plutus - The Plutus JSON definition.
-     * @param {string} title - The name (key) of the validator to extract.
-     * @returns {string} Compiled validator code.
-     * @throws Error if the validator is not found in the JSON.
+     * @param {string} assetName - The asset name (UTF-8) used when minting.
+     * @returns {Promise<CertificateAsset | null>} The decoded asset, or null if no reference UTxO exists.
      */
-    protected readValidator = function (plutus: Plutus, title: string): string {
-        const validator = plutus.validators.find(function (validator) {
-            return validator.title === title
-        })
+    public getAsset = async (assetName: string): Promise<CertificateAsset | null> => {
+        const referenceUnit = this.policyId + CIP68_100(stringToHex(assetName))
+        const utxo = await this.getAddressUTXOAsset(this.storeAddress, referenceUnit)
+        if (!utxo?.output?.plutusData) return null
+        return this.decodeAsset(assetName, utxo)
+    }
 
-        if (!validator) {
-            throw new Error(`${title} validator not found.`)
+    /**
+     * @method getAssets
+     * @description
+     * Enumerates every CIP-68 asset issued under this contract by scanning `storeAddress`
+     * for CIP68_100 reference tokens of `policyId`, decoding each inline datum.
+     * `slot` is the slot of the transaction that created the current reference UTxO,
+     * i.e. the mint, or the latest metadata update.
+     *
+     * @returns {Promise<CertificateAsset[]>} All decoded assets, in the order returned by the provider.
+     */
+    public getAssets = async (): Promise<CertificateAsset[]> => {
+        const referencePrefix = this.policyId + CIP68_100('')
+        const utxos = await this.fetcher.fetchAddressUTxOs(this.storeAddress)
+        const slots = new Map<string, Promise<number | undefined>>()
+        const assets = await Promise.all(
+            utxos.map(async (utxo) => {
+                const reference = utxo.output.amount.find((amount) => amount.unit.startsWith(referencePrefix))
+                if (!reference || !utxo.output.plutusData) return null
+                if (!slots.has(utxo.input.txHash)) {
+                    slots.set(
+                        utxo.input.txHash,
+                        this.fetcher
+                            .fetchTxInfo(utxo.input.txHash)
+                            .then((txInfo) => Number(txInfo.slot))
+                            .catch(() => undefined)
+                    )
+                }
+                const assetName = hexToString(reference.unit.slice(referencePrefix.length))
+                return {
+                    ...(await this.decodeAsset(assetName, utxo)),
+                    slot: await slots.get(utxo.input.txHash)
+                }
+            })
+        )
+        return assets.filter((asset) => asset !== null)
+    }
+
+    /**
+     * @method verifyCertificate
+     * @description
+     * Checks that a holder owns a certificate issued under this contract and that it is still live:
+     * 1. The holder address holds at least one CIP68_222 user token for `assetName`.
+     * 2. The CIP68_100 reference token still sits at `storeAddress` (i.e. it has not been burned).
+     * 3. The reference datum's `_pk` equals the issuer pubkey hash the scripts were parameterized with.
+     * Every failed check adds a reason; the certificate is verified only when all checks pass.
+     *
+     * @param {string} holder - Bech32 address of the student.
+     * @param {string} assetName - The asset name (UTF-8) used when minting.
+     * @returns {Promise<CertificateVerdict>} The verdict, with the decoded asset when the reference exists.
+     */
+    public verifyCertificate = async (holder: string, assetName: string): Promise<CertificateVerdict> => {
+        const userUnit = this.policyId + CIP68_222(stringToHex(assetName))
+        const [holderUtxos, asset] = await Promise.all([
+            this.getAddressUTXOAssets(holder, userUnit),
+            this.getAsset(assetName)
+        ])
+        const quantity = this.sumUnitQuantity(holderUtxos, userUnit)
+        const checks = {
+            held: quantity > 0,
+            referenceExists: asset !== null,
+            issuerMatches: asset?.issuer === this.issuerPkHash
         }
 
-        return validator.compiledCode
+        const reasons: string[] = []
+        if (!checks.held) reasons.push(`Holder does not hold the CIP68_222 token ${userUnit}`)
+        if (!checks.referenceExists) {
+            reasons.push(
+                `No CIP68_100 reference token for ${assetName} at ${this.storeAddress}; it was burned or never minted`
+            )
+        } else if (!checks.issuerMatches) {
+            reasons.push(
+                `Reference datum _pk ${asset?.issuer ?? '(missing)'} does not match issuer ${this.issuerPkHash}`
+            )
+        }
+
+        return {
+            verified: reasons.length === 0,
+            holder,
+            assetName,
+            policyId: this.policyId,
+            storeAddress: this.storeAddress,
+            quantity,
+            checks,
+            reasons,
+            asset
+        }
+    }
+
+    /**
+     * @method matchesVersion
+     * @description
+     * Tells whether an asset is still at the version a client last read. The version tag is either
+     * the reference UTxO (`txHash#index`) or the hash of its datum; both change on every update.
+     *
+     * @param {CertificateAsset} asset - The current asset.
+     * @param {string} version - The expected `txHash#index` or datum hash.
+     * @returns {boolean} True when the asset has not changed since.
+     */
+    public matchesVersion = (asset: CertificateAsset, version: string): boolean => {
+        return version.includes('#')
+            ? version === `${asset.utxo.input.txHash}#${asset.utxo.input.outputIndex}`
+            : version.toLowerCase() === asset.datumHash
+    }
+
+    /**
+     * @method decodeAsset
+     * @description
+     * Builds a {@link CertificateAsset} from a reference UTxO holding an inline datum.
+     * The datum is decoded once: `_pk` becomes `issuer`, and the CIP-68 `version` and `extra` fields are kept.
+     */
+    protected decodeAsset = async (assetName: string, utxo: UTxO): Promise<CertificateAsset> => {
+        const { metadata, version, extra } = await decodeCip68Datum(utxo.output.plutusData as string)
+        const { _pk, ...rest } = metadata
+        return {
+            assetName,
+            policyId: this.policyId,
+            referenceUnit: this.policyId + CIP68_100(stringToHex(assetName)),
+            userUnit: this.policyId + CIP68_222(stringToHex(assetName)),
+            utxo,
+            issuer: typeof _pk === 'string' ? _pk : null,
+            datumHash: cst
+                .deserializePlutusData(utxo.output.plutusData as string)
+                .hash()
+                .toString(),
+            metadata: rest,
+            version,
+            extra
+        }
     }
 
     /**
@@ -190,32 +455,58 @@ export class MeshAdapter {
      * @description
      * Finds a specific UTxO based on its transaction hash at a given address.
      * Commonly used for referencing a previously known transaction output.
+     * A `txHash#index` reference also matches the output index.
      *
      * @param {string} address - The address to search within.
-     * @param {string} txHash - The transaction hash to match.
+     * @param {string} txHash - The transaction hash (or `txHash#index` reference) to match.
      * @returns {Promise<UTxO>} The matching UTxO object.
      * @throws Error if the UTxO is not found.
      */
     protected getUtxoForTx = async (address: string, txHash: string) => {
+        const [hash, index] = txHash.split('#')
         const utxos: UTxO[] = await this.fetcher.fetchAddressUTxOs(address)
         const utxo = utxos.find(function (utxo: UTxO) {
-            return utxo.input.txHash === txHash
+            return utxo.input.txHash === hash && (index === undefined || utxo.input.outputIndex === Number(index))
         })
 
         if (!utxo) throw new Error('No UTXOs found in getUtxoForTx method.')
         return utxo
     }
 
+    /**
+     * @method sumUnitQuantity
+     * @description
+     * Sums the quantity of a given asset unit across a list of UTxOs.
+     * Used to know how many CIP68_222 user tokens an address holds.
+     *
+     * @param {UTxO[]} utxos - UTxOs to inspect.
+     * @param {string} unit - Asset unit (policyId + assetName in hex).
+     * @returns {number} Total quantity of `unit`.
+     */
+    public sumUnitQuantity = (utxos: UTxO[], unit: string): number => {
+        return utxos.reduce((amount, utxos) => {
+            return (
+                amount +
+                utxos.output.amount.reduce((amt, utxo) => {
+                    if (utxo.unit === unit) {
+                        return amt + Number(utxo.quantity)
+                    }
+                    return amt
+                }, 0)
+            )
+        }, 0)
+    }
+
     /**
      * @method convertDatum
      * @description
-     * Decodes a CBOR-encoded datum into a JavaScript object.
+     * Decodes the metadata of a CBOR-encoded CIP-68 datum into typed values (see {@link decodeCip68Datum}).
      * Optionally excludes the `_pk` field if `contain_pk` is false.
      *
      * @param {string} datum - Datum in hex string format.
      * @param {Object} [option] - Optional settings.
      * @param {boolean} [option.contain_pk] - Whether to include the `_pk` field.
-     * @returns {Promise<Record<string, string>>} A decoded key-value map.
+     * @returns {Promise<Cip68Metadata>} The decoded metadata.
      * @throws Error if the datum format is invalid.
      */
     protected convertDatum = async (
@@ -223,21 +514,10 @@ export class MeshAdapter {
         option?: {
             contain_pk?: boolean
         }
-    ): Promise<unknown> => {
-        const cborDatum: Buffer = Buffer.from(datum, 'hex')
-        const datumMap = (await cbor.decodeFirst(cborDatum)).value[0]
-        if (!(datumMap instanceof Map)) {
-            throw new Error('Invalid Datum')
-        }
-        const obj: Record<string, string> = {}
-        datumMap.forEach((value, key) => {
-            const keyStr = key.toString('utf-8')
-            if (keyStr === '_pk' && !option?.contain_pk) {
-                return
-            }
-            obj[keyStr] = keyStr !== '_pk' ? value.toString('utf-8') : value.toString('hex')
-        })
-        return obj
+    ): Promise<Cip68Metadata> => {
+        const { metadata } = await decodeCip68Datum(datum)
+        if (!option?.contain_pk) delete metadata._pk
+        return metadata
     }
 
     /**
@@ -249,15 +529,9 @@ export class MeshAdapter {
      * @param {string} datum - Datum in hex format.
      * @returns {Promise<string | null>} Public key hash in hex or null if missing.
      */
-    protected getPkHash = async (datum: string) => {
-        const cborDatum: Buffer = Buffer.from(datum, 'hex')
-        const decoded = await cbor.decodeFirst(cborDatum)
-        for (const [key, value] of decoded.value[0]) {
-            if (key.toString('utf-8') === '_pk') {
-                return value.toString('hex')
-            }
-        }
-        return null
+    protected getPkHash = async (datum: string): Promise<string | null> => {
+        const { metadata } = await decodeCip68Datum(datum)
+        return typeof metadata._pk === 'string' ? metadata._pk : null
     }
 
     /**
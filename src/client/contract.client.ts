@@ -0,0 +1,366 @@
+import {
+    CertificateData,
+    ContractRoute,
+    ContractRoutes,
+    contractRoutes,
+    ErrorBody,
+    EstimateData,
+    JobData,
+    ReferenceScriptsData,
+    TemplateData
+} from '../schemas/contract.schema.js'
+import { FieldError } from '../types/index.js'
+import { Infer, RouteSchema, validate } from '../utils/schema.util.js'
+
+type Route<N extends ContractRoute> = ContractRoutes[N]
+
+type PartOf<N extends ContractRoute, K extends 'params' | 'query' | 'body'> =
+    Route<N> extends { [P in K]: infer S } ? Infer<S> : never
+
+type SuccessStatus<N extends ContractRoute> = Extract<keyof Route<N>['responses'], 200 | 201 | 202>
+
+/**
+ * What a route takes: its path parameters, query and JSON body, as the API schema describes them.
+ */
+export type RequestOf<N extends ContractRoute> = ([PartOf<N, 'params'>] extends [never]
+    ? object
+    : { params: PartOf<N, 'params'> }) &
+    ([PartOf<N, 'query'>] extends [never] ? object : { query?: PartOf<N, 'query'> }) &
+    ([PartOf<N, 'body'>] extends [never]
+        ? object
+        : Route<N> extends { body: { required: readonly string[] } }
+          ? { body: PartOf<N, 'body'> }
+          : { body?: PartOf<N, 'body'> })
+
+/**
+ * The body of a successful response of a route (any of its 2xx statuses).
+ */
+export type ResponseOf<N extends ContractRoute> = {
+    [S in SuccessStatus<N>]: Route<N>['responses'][S] extends { schema: infer T } ? Infer<T> : undefined
+}[SuccessStatus<N>]
+
+export type BodyOf<N extends ContractRoute> = PartOf<N, 'body'>
+
+export type Operation = 'mint' | 'batchMint' | 'update' | 'burn'
+
+/**
+ * The answer to an operation: the queued job (`202`) or, with a `signer`, the job holding the unsigned
+ * transaction (`200`).
+ */
+export interface QueuedResponse {
+    message: string
+    job_id: string
+    data: JobData
+    status: number
+}
+
+export interface EstimateResponse {
+    message: string
+    data: EstimateData
+    status: number
+}
+
+export interface AssetsQuery {
+    page?: number
+    limit?: number
+    sort?: 'slot' | '-slot' | 'asset_name' | '-asset_name'
+    metadata?: Record<string, string | number | boolean>
+}
+
+export type ContractErrorKind =
+    | 'invalid_request'
+    | 'unauthorized'
+    | 'forbidden'
+    | 'not_found'
+    | 'conflict'
+    | 'unprocessable'
+    | 'server'
+    | 'network'
+
+const KINDS: Record<number, ContractErrorKind> = {
+    400: 'invalid_request',
+    401: 'unauthorized',
+    403: 'forbidden',
+    404: 'not_found',
+    409: 'conflict',
+    422: 'unprocessable'
+}
+
+/**
+ * @class ContractApiError
+ * @description
+ * Thrown by {@link ContractClient} for every failed call. `kind` tells what went wrong:
+ * - `invalid_request` (`400`): the request does not match the API schema; `fieldErrors` says where.
+ * - `unauthorized` (`401`) and `forbidden` (`403`): the credential is missing, invalid or lacks the scope or course.
+ * - `not_found` (`404`): the job, template, asset or reference scripts do not exist.
+ * - `conflict` (`409`): another update is pending, the `expected_version` is stale or the job is not
+ *   waiting for a signature; `data` holds the current state.
+ * - `unprocessable` (`422`): metadata sets `_pk` or does not match the course template, or a signed transaction does not
+ *   match the one built; `fieldErrors` lists the problems when they are per field.
+ * - `server` (`5xx`) and `network` (no answer, `status` 0).
+ */
+export class ContractApiError extends Error {
+    public readonly route: ContractRoute
+    public readonly status: number
+    public readonly kind: ContractErrorKind
+    public readonly details: unknown
+    public readonly data: unknown
+
+    constructor(route: ContractRoute, status: number, body: Partial<ErrorBody> = {}, cause?: unknown) {
+        super(typeof body.details === 'string' ? `${body.error}: ${body.details}` : body.error || `HTTP ${status}`, {
+            cause
+        })
+        this.name = 'ContractApiError'
+        this.route = route
+        this.status = status
+        this.kind = status === 0 ? 'network' : (KINDS[status] ?? (status >= 500 ? 'server' : 'invalid_request'))
+        this.details = body.details
+        this.data = body.data
+    }
+
+    /**
+     * @method fieldErrors
+     * @description The per-field problems reported by the API (`400` and `422`), or none.
+     */
+    public get fieldErrors(): FieldError[] {
+        return Array.isArray(this.details) ? (this.details as FieldError[]) : []
+    }
+}
+
+/**
+ * @class ContractClient
+ * @description
+ * Typed client of the contract API (`/api/v1/contract`), for backends issuing certificates.
+ * Request and response types come from the same schemas the service validates requests with, and which
+ * its OpenAPI document is generated from. Bodies are checked against them before anything is sent, and
+ * every failure is thrown as a {@link ContractApiError}.
+ *
+ * @example
+ * const client = new ContractClient({ baseUrl: 'https://contract.example.com', apiKey: process.env.CONTRACT_API_KEY })
+ * const { job_id } = await client.mint({ course: 'course-101', asset_name: 'cert-0001', metadata, receiver })
+ * const { data } = await client.job(job_id)
+ */
+export class ContractClient {
+    private readonly baseUrl: string
+    private readonly headers: Record<string, string>
+    private readonly fetch: typeof fetch
+    private readonly validate: boolean
+
+    /**
+     * @constructor
+     * @param {Object} options
+     * @param {string} options.baseUrl - Origin of the service, e.g. `https://contract.example.com`.
+     * @param {string} [options.apiKey] - API key, sent as `X-API-Key`.
+     * @param {string} [options.token] - Signed JWT, sent as `Authorization: Bearer`.
+     * @param {Record<string, string>} [options.headers] - Headers added to every request.
+     * @param {typeof fetch} [options.fetch] - Fetch implementation (the global one by default).
+     * @param {boolean} [options.validate] - Check requests against the API schema before sending them (default true).
+     */
+    constructor({
+        baseUrl,
+        apiKey,
+        token,
+        headers = {},
+        fetch: fetcher = globalThis.fetch,
+        validate = true
+    }: {
+        baseUrl: string
+        apiKey?: string
+        token?: string
+        headers?: Record<string, string>
+        fetch?: typeof fetch
+        validate?: boolean
+    }) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '') + '/api/v1/contract'
+        this.headers = {
+            ...headers,
+            ...(apiKey ? { 'X-API-Key': apiKey } : {}),
+            ...(token ? { Authorization: `Bearer ${token}` } : {})
+        }
+        this.fetch = fetcher
+        this.validate = validate
+    }
+
+    /**
+     * @method request
+     * @description
+     * Calls any route by name (see {@link contractRoutes}) and returns the body of its response.
+     * `idempotencyKey` is sent as `Idempotency-Key`, so a retried operation is not performed twice.
+     */
+    public request = async <N extends ContractRoute>(
+        name: N,
+        input: RequestOf<N>,
+        { idempotencyKey }: { idempotencyKey?: string } = {}
+    ): Promise<ResponseOf<N>> => {
+        const route: RouteSchema = contractRoutes[name]
+        const {
+            params = {},
+            query = {},
+            body
+        } = input as {
+            params?: Record<string, string>
+            query?: Record<string, string | undefined>
+            body?: unknown
+        }
+
+        if (this.validate) {
+            const errors = [
+                ...(route.params ? validate(route.params, params, 'params') : []),
+                ...(route.query ? validate(route.query, query, 'query') : []),
+                ...(route.body ? validate(route.body, body ?? {}, 'body') : [])
+            ]
+            if (errors.length > 0) {
+                throw new ContractApiError(name, 400, { error: 'Invalid request', details: errors })
+            }
+        }
+
+        const path = route.path.replace(/:(\w+)/g, (_, param: string) => encodeURIComponent(params[param]))
+        const search = new URLSearchParams(
+            Object.entries(query).filter((entry): entry is [string, string] => entry[1] !== undefined)
+        ).toString()
+        const url = (this.baseUrl + path).replace(/\/$/, '') + (search ? `?${search}` : '')
+
+        let response: Response
+        try {
+            response = await this.fetch(url, {
+                method: route.method.toUpperCase(),
+                headers: {
+                    Accept: 'application/json',
+                    ...this.headers,
+                    ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                    ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+                },
+                body: body !== undefined && route.method !== 'get' ? JSON.stringify(body) : undefined
+            })
+        } catch (error) {
+            throw new ContractApiError(name, 0, { error: (error as Error).message || 'Network error' }, error)
+        }
+
+        const text = await response.text()
+        let json: unknown
+        try {
+            json = text ? JSON.parse(text) : undefined
+        } catch {
+            json = undefined
+        }
+        if (!response.ok) {
+            throw new ContractApiError(name, response.status, (json as ErrorBody) ?? { error: text || undefined })
+        }
+        return json as ResponseOf<N>
+    }
+
+    /**
+     * @method mint
+     * @description Queues the minting of a certificate; with a `signer`, returns its unsigned transaction instead.
+     */
+    public mint = (body: BodyOf<'mint'>, options?: { idempotencyKey?: string }) => {
+        return this.request('mint', { body }, options) as Promise<QueuedResponse>
+    }
+
+    /**
+     * @method batchMint
+     * @description Queues the minting of several certificates, in as many transactions as needed.
+     */
+    public batchMint = (body: BodyOf<'batchMint'>, options?: { idempotencyKey?: string }) => {
+        return this.request('batchMint', { body }, options) as Promise<QueuedResponse>
+    }
+
+    /**
+     * @method update
+     * @description Queues a metadata update; with `expected_version`, fails with a `conflict` if the asset changed.
+     */
+    public update = (body: BodyOf<'update'>, options?: { idempotencyKey?: string }) => {
+        return this.request('update', { body }, options) as Promise<QueuedResponse>
+    }
+
+    /**
+     * @method burn
+     * @description Queues the burning of a certificate.
+     */
+    public burn = (body: BodyOf<'burn'>, options?: { idempotencyKey?: string }) => {
+        return this.request('burn', { body }, options) as Promise<QueuedResponse>
+    }
+
+    /**
+     * @method estimate
+     * @description Dry-runs an operation: its fee, size and outputs, without signing, submitting or queuing anything.
+     */
+    public estimate = <N extends Operation>(operation: N, body: BodyOf<N>) => {
+        return this.request(operation, {
+            body,
+            query: { dryRun: 'true' }
+        } as unknown as RequestOf<N>) as Promise<EstimateResponse>
+    }
+
+    /**
+     * @method submit
+     * @description Submits a transaction built for an external wallet, once signed.
+     */
+    public submit = (body: BodyOf<'submit'>, options?: { idempotencyKey?: string }) => {
+        return this.request('submit', { body }, options) as Promise<QueuedResponse>
+    }
+
+    /**
+     * @method job
+     * @description Reads the status of a queued operation.
+     */
+    public job = (id: string): Promise<{ message: string; data: JobData; status: number }> => {
+        return this.request('job', { params: { id } })
+    }
+
+    public template = (course: string): Promise<{ message: string; data: TemplateData; status: number }> => {
+        return this.request('template', { params: { course } })
+    }
+
+    public saveTemplate = (
+        course: string,
+        fields: BodyOf<'saveTemplate'>['fields']
+    ): Promise<{ message: string; data: TemplateData; status: number }> => {
+        return this.request('saveTemplate', { params: { course }, body: { fields } })
+    }
+
+    public referenceScripts = (
+        course: string
+    ): Promise<{ message: string; data: ReferenceScriptsData; status: number }> => {
+        return this.request('scripts', { params: { course } })
+    }
+
+    public deployReferenceScripts = (
+        course: string
+    ): Promise<{ message: string; data: ReferenceScriptsData; status: number }> => {
+        return this.request('deployScripts', { params: { course } })
+    }
+
+    /**
+     * @method assets
+     * @description Lists the certificates of a course, a page at a time, optionally filtered on metadata fields.
+     */
+    public assets = (course: string, { page, limit, sort, metadata = {} }: AssetsQuery = {}) => {
+        return this.request('assets', {
+            params: { course },
+            query: {
+                ...(page !== undefined ? { page: String(page) } : {}),
+                ...(limit !== undefined ? { limit: String(limit) } : {}),
+                ...(sort ? { sort } : {}),
+                ...Object.fromEntries(
+                    Object.entries(metadata).map(([key, value]) => [`metadata.${key}`, String(value)])
+                )
+            }
+        })
+    }
+
+    public asset = (
+        course: string,
+        assetName: string
+    ): Promise<{ message: string; data: CertificateData & { store_address: string }; status: number }> => {
+        return this.request('asset', { params: { course, assetName } })
+    }
+
+    /**
+     * @method contract
+     * @description Reads the policy id, store address and reference address of a course contract.
+     */
+    public contract = (course: string) => {
+        return this.request('contract', { query: { course } })
+    }
+}
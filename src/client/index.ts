@@ -0,0 +1,23 @@
+export {
+    ContractApiError,
+    ContractClient,
+    type AssetsQuery,
+    type BodyOf,
+    type ContractErrorKind,
+    type EstimateResponse,
+    type Operation,
+    type QueuedResponse,
+    type RequestOf,
+    type ResponseOf
+} from './contract.client.js'
+export {
+    contractRoutes,
+    type CertificateData,
+    type ContractRoute,
+    type ErrorBody,
+    type EstimateData,
+    type JobData,
+    type ReferenceScriptsData,
+    type Signer,
+    type TemplateData
+} from '../schemas/contract.schema.js'
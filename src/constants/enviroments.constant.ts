@@ -1,5 +1,6 @@
 import { Network } from '@meshsdk/core'
 import dotenv from 'dotenv'
+import { LogLevel, ProviderName } from '../types/index.js'
 dotenv.config()
 
 const APP_MNEMONIC = process.env.APP_MNEMONIC || ''
@@ -7,4 +8,59 @@ const BLOCKFROST_API_KEY = process.env.BLOCKFROST_API_KEY || ''
 const KOIOS_TOKEN = process.env.KOIOS_TOKEN || ''
 const APP_NETWORK: Network = (process.env.APP_NETWORK?.toLowerCase() as Network) || 'preprod'
 const APP_NETWORK_ID = APP_NETWORK === 'mainnet' ? 1 : 0
-export { APP_NETWORK, APP_NETWORK_ID, BLOCKFROST_API_KEY, KOIOS_TOKEN, APP_MNEMONIC }
+const APP_PROVIDER: ProviderName = (process.env.APP_PROVIDER?.toLowerCase() as ProviderName) || 'blockfrost'
+const OGMIOS_URL = process.env.OGMIOS_URL || 'http://localhost:1337'
+const KUPO_URL = process.env.KUPO_URL || 'http://localhost:1442'
+const PROVIDER_HTTP_URL = process.env.PROVIDER_HTTP_URL || ''
+const PROVIDER_HTTP_TOKEN = process.env.PROVIDER_HTTP_TOKEN || ''
+const APP_DATA_DIR = process.env.APP_DATA_DIR || '.data'
+const CONTRACT_CACHE_SIZE = Number(process.env.CONTRACT_CACHE_SIZE) || 100
+const UTXO_RESERVATION_TTL = Number(process.env.UTXO_RESERVATION_TTL) || 15 * 60
+const WALLET_POOL_SIZE = Number(process.env.WALLET_POOL_SIZE) || 0
+const WALLET_POOL_UTXOS = Number(process.env.WALLET_POOL_UTXOS) || 4
+const WALLET_POOL_UTXO_LOVELACE = Number(process.env.WALLET_POOL_UTXO_LOVELACE) || 20000000
+const AUTH_JWT_SECRET = process.env.AUTH_JWT_SECRET || ''
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || ''
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8
+const WEBHOOK_RETRY_DELAY = Number(process.env.WEBHOOK_RETRY_DELAY) || 30
+const WEBHOOK_TIMEOUT = Number(process.env.WEBHOOK_TIMEOUT) || 10
+const TX_POLL_INTERVAL = Number(process.env.TX_POLL_INTERVAL) || 5
+const TX_CONFIRM_TIMEOUT = Number(process.env.TX_CONFIRM_TIMEOUT) || 20 * 60
+const TX_CONFIRM_DEPTH = Number(process.env.TX_CONFIRM_DEPTH) || 1
+const TX_RESUBMIT_AFTER = Number(process.env.TX_RESUBMIT_AFTER) || 60
+const TX_MAX_REBUILDS = Number(process.env.TX_MAX_REBUILDS ?? 1)
+const JOB_RETENTION = Number(process.env.JOB_RETENTION) || 7 * 24 * 60 * 60
+const LOG_LEVEL: LogLevel =
+    (process.env.LOG_LEVEL?.toLowerCase() as LogLevel) || (process.env.NODE_ENV === 'test' ? 'error' : 'info')
+const HEALTH_CHECK_TIMEOUT = Number(process.env.HEALTH_CHECK_TIMEOUT) || 5
+export {
+    APP_NETWORK,
+    APP_NETWORK_ID,
+    BLOCKFROST_API_KEY,
+    KOIOS_TOKEN,
+    APP_MNEMONIC,
+    APP_PROVIDER,
+    OGMIOS_URL,
+    KUPO_URL,
+    PROVIDER_HTTP_URL,
+    PROVIDER_HTTP_TOKEN,
+    APP_DATA_DIR,
+    CONTRACT_CACHE_SIZE,
+    UTXO_RESERVATION_TTL,
+    WALLET_POOL_SIZE,
+    WALLET_POOL_UTXOS,
+    WALLET_POOL_UTXO_LOVELACE,
+    AUTH_JWT_SECRET,
+    ADMIN_API_KEY,
+    WEBHOOK_MAX_ATTEMPTS,
+    WEBHOOK_RETRY_DELAY,
+    WEBHOOK_TIMEOUT,
+    TX_POLL_INTERVAL,
+    TX_CONFIRM_TIMEOUT,
+    TX_CONFIRM_DEPTH,
+    TX_RESUBMIT_AFTER,
+    TX_MAX_REBUILDS,
+    JOB_RETENTION,
+    LOG_LEVEL,
+    HEALTH_CHECK_TIMEOUT
+}
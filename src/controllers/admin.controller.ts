@@ -0,0 +1,130 @@
+import { Request, Response } from 'express'
+import { apiKeys, AUTH_SCOPES } from '../services/auth.service.js'
+import { ApiKeyRecord, AuthScope } from '../types/index.js'
+
+/**
+ * @function serializeApiKey
+ * @description Maps a stored API key to its public JSON shape (snake_case, without the secret hash).
+ */
+const serializeApiKey = function (record: ApiKeyRecord) {
+    return {
+        id: record.id,
+        name: record.name,
+        scopes: record.scopes,
+        courses: record.courses,
+        created_at: record.createdAt,
+        rotated_at: record.rotatedAt ?? null,
+        revoked_at: record.revokedAt ?? null
+    }
+}
+
+/**
+ * @function createKey
+ * @description Creates an API key.
+ * 1. Validates `name`, `scopes` (any of mint, update, burn, read, admin) and the optional `courses` allow-list.
+ * 2. Stores the key with its secret hashed and responds with `201` and the key.
+ *    The full `key` is only returned here and on rotation.
+ *
+ * @param {Request} request - Express request with `name`, `scopes` and optional `courses` in the body.
+ * @param {Response} response - Express response returning the key.
+ */
+export const createKey = async function (request: Request, response: Response) {
+    try {
+        const { name, scopes, courses } = request.body
+        if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+            return response.status(400).json({
+                error: 'Missing required fields: name, scopes (non-empty array)',
+                status: 400
+            })
+        }
+        const unknown = scopes.filter((scope) => !AUTH_SCOPES.includes(scope))
+        if (unknown.length > 0 || (courses != null && !Array.isArray(courses))) {
+            return response.status(400).json({
+                error: 'Invalid scopes or courses',
+                details: unknown.length > 0 ? `Unknown scopes: ${unknown.join(', ')}` : 'courses must be an array',
+                status: 400
+            })
+        }
+
+        const { record, key } = apiKeys.create(
+            String(name),
+            scopes as AuthScope[],
+            courses ? (courses as unknown[]).map(String) : null
+        )
+        return response.status(201).json({
+            message: 'API key created',
+            data: { ...serializeApiKey(record), key },
+            status: 201
+        })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to create API key',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
+
+/**
+ * @function keys
+ * @description Lists every API key, revoked ones included, without their secrets.
+ */
+export const keys = async function (request: Request, response: Response) {
+    return response.status(200).json({
+        message: 'API keys found',
+        data: apiKeys.list().map(serializeApiKey),
+        status: 200
+    })
+}
+
+/**
+ * @function rotateKey
+ * @description Replaces the secret of an API key.
+ * 1. Looks up the key by the `id` route parameter; `404` if missing, `409` if revoked.
+ * 2. Responds with the new `key`; the previous one stops working immediately.
+ *
+ * @param {Request} request - Express request with the key id in `params.id`.
+ * @param {Response} response - Express response returning the rotated key.
+ */
+export const rotateKey = async function (request: Request, response: Response) {
+    const id = String(request.params.id)
+    const found = apiKeys.get(id)
+    if (!found) {
+        return response.status(404).json({
+            error: 'API key not found',
+            status: 404
+        })
+    }
+    const rotated = apiKeys.rotate(id)
+    if (!rotated) {
+        return response.status(409).json({
+            error: 'API key has been revoked',
+            details: `Revoked at ${found.revokedAt}`,
+            status: 409
+        })
+    }
+    return response.status(200).json({
+        message: 'API key rotated',
+        data: { ...serializeApiKey(rotated.record), key: rotated.key },
+        status: 200
+    })
+}
+
+/**
+ * @function revokeKey
+ * @description Revokes an API key by the `id` route parameter; it no longer authenticates.
+ */
+export const revokeKey = async function (request: Request, response: Response) {
+    const revoked = apiKeys.revoke(String(request.params.id))
+    if (!revoked) {
+        return response.status(404).json({
+            error: 'API key not found',
+            status: 404
+        })
+    }
+    return response.status(200).json({
+        message: 'API key revoked',
+        data: serializeApiKey(revoked),
+        status: 200
+    })
+}
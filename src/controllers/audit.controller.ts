@@ -0,0 +1,115 @@
+import { Request, Response } from 'express'
+import { auditLog } from '../services/audit.service.js'
+import { AuditRecord, Credential } from '../types/index.js'
+
+const CSV_COLUMNS = [
+    'id',
+    'created_at',
+    'updated_at',
+    'operation',
+    'status',
+    'caller',
+    'course',
+    'asset_names',
+    'tx_hashes',
+    'fee',
+    'metadata_before',
+    'metadata_after',
+    'error'
+] as const
+
+/**
+ * A calendar date without a time (`2026-01-31`).
+ */
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * @function serializeAuditRecord
+ * @description Maps a stored audit record to its public JSON shape (snake_case).
+ */
+const serializeAuditRecord = function (record: AuditRecord) {
+    return {
+        id: record.id,
+        created_at: record.createdAt,
+        updated_at: record.updatedAt,
+        operation: record.operation,
+        status: record.status,
+        caller: record.caller,
+        course: record.course,
+        asset_names: record.assetNames,
+        tx_hashes: record.txHashes,
+        fee: record.fee,
+        metadata_before: record.before,
+        metadata_after: record.after,
+        error: record.error
+    }
+}
+
+/**
+ * @function toCsv
+ * @description
+ * Renders audit records as CSV (RFC 4180): lists are joined with `;`, metadata is embedded as JSON,
+ * and every field is quoted.
+ */
+const toCsv = function (records: AuditRecord[]): string {
+    const cell = function (value: unknown) {
+        const text =
+            value === null || value === undefined
+                ? ''
+                : Array.isArray(value)
+                  ? value.join(';')
+                  : typeof value === 'object'
+                    ? JSON.stringify(value)
+                    : String(value)
+        return `"${text.replace(/"/g, '""')}"`
+    }
+    const rows = records
+        .map(serializeAuditRecord)
+        .map((row) => CSV_COLUMNS.map((column) => cell(row[column])).join(','))
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+/**
+ * @function audit
+ * @description Lists the audit records of contract operations.
+ * 1. Filters by the optional `course`, `asset`, `caller`, `from` and `to` (ISO dates) query parameters;
+ *    credentials restricted to some courses only see those courses. Both bounds are inclusive, and a `to`
+ *    without a time (`2026-01-31`) covers that whole day (UTC).
+ * 2. Responds with the records, newest first, or with a CSV download when `format=csv`.
+ *
+ * @param {Request} request - Express request with the filters in the query string.
+ * @param {Response} response - Express response returning the records.
+ */
+export const audit = async function (request: Request, response: Response) {
+    const query = request.query as Record<string, string | undefined>
+    const from = query.from ? new Date(query.from) : undefined
+    const to = query.to ? new Date(Date.parse(query.to) + (DATE_ONLY.test(query.to) ? DAY - 1 : 0)) : undefined
+    if ((from && Number.isNaN(from.getTime())) || (to && Number.isNaN(to.getTime()))) {
+        return response.status(400).json({
+            error: 'Invalid date range',
+            details: 'from and to must be ISO 8601 dates',
+            status: 400
+        })
+    }
+
+    const records = auditLog.query({
+        course: query.course,
+        courses: (response.locals.credential as Credential | undefined)?.courses,
+        asset: query.asset,
+        caller: query.caller,
+        from,
+        to
+    })
+    if (query.format === 'csv') {
+        response.set('Content-Type', 'text/csv; charset=utf-8')
+        response.set('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`)
+        return response.status(200).send(toCsv(records))
+    }
+    return response.status(200).json({
+        message: 'Audit records found',
+        data: records.map(serializeAuditRecord),
+        status: 200
+    })
+}
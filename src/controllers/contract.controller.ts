@@ -1,123 +1,239 @@
 import { Request, Response } from 'express'
-import { BlockfrostProvider, MeshWallet, policyId } from '@meshsdk/core'
-import { APP_MNEMONIC, APP_NETWORK_ID, BLOCKFROST_API_KEY } from '../constants/enviroments.constant.js'
+import { loggerOf } from '../middlewares/request.middleware.js'
+import { getProvider } from '../providers/index.provider.js'
+import { registerCourse } from '../services/course.service.js'
+import { deployReferenceScripts } from '../services/deploy.service.js'
+import { certificateTemplates } from '../services/template.service.js'
+import { jobQueue } from '../services/job.service.js'
+import { createExternalSigner, getWallet } from '../services/wallet.service.js'
 import { MeshTxBuilder } from '../txbuilders/mesh.txbuilder.js'
+import {
+    CertificateAsset,
+    Cip68Metadata,
+    Credential,
+    Estimate,
+    Job,
+    JobType,
+    ReferenceScriptRecord,
+    ScriptReference
+} from '../types/index.js'
+import { serializeJob } from './job.controller.js'
+
+/**
+ * @function callerOf
+ * @description Identifies the authenticated caller of a request for the audit log, as `<type>:<id>`.
+ */
+export const callerOf = function (response: Response): string | undefined {
+    const credential = response.locals.credential as Credential | undefined
+    return credential && `${credential.type}:${credential.id}`
+}
+
+/**
+ * @function buildUnsigned
+ * @description
+ * Build-only mode shared by mint, batch-mint, update and burn, used when the body carries a `signer`
+ * (`address`, `utxos` as CIP-30 CBOR hex or Mesh UTxOs, optional `collateral`).
+ * The transaction is built from the signer's UTxOs without the server wallet and returned unsigned;
+ * the client signs it and sends it to `POST /submit` with the returned job id.
+ *
+ * @param {Response} response - Express response used to return the unsigned transaction.
+ * @returns {Response} JSON with the job id and the unsigned CBOR, or `400` if the signer is invalid.
+ */
+const buildUnsigned = async function (
+    response: Response,
+    type: JobType,
+    course: string,
+    params: Job['params'],
+    signer: { address?: string; utxos?: unknown[]; collateral?: unknown }
+) {
+    if (!signer.address || !Array.isArray(signer.utxos) || signer.utxos.length === 0) {
+        return response.status(400).json({
+            error: 'Invalid signer: expected address and a non-empty utxos array',
+            status: 400
+        })
+    }
+    const job = await jobQueue.prepare(
+        type,
+        course,
+        params,
+        createExternalSigner(signer as Parameters<typeof createExternalSigner>[0]),
+        callerOf(response)
+    )
+    return response.status(200).json({
+        message: 'Unsigned transaction built, sign it and send it to /submit',
+        job_id: job.id,
+        data: serializeJob(job),
+        status: 200
+    })
+}
+
+/**
+ * @function isDryRun
+ * @description Tells whether the request asks for a dry run (`?dryRun=true`).
+ */
+const isDryRun = function (request: Request): boolean {
+    return request.query.dryRun === 'true'
+}
+
+/**
+ * @function serializeEstimate
+ * @description Maps a dry run result to its public JSON shape (snake_case); lovelace amounts are strings.
+ */
+const serializeEstimate = function (estimate: Estimate) {
+    return {
+        valid: estimate.valid,
+        fee: estimate.fee,
+        store_lovelace: estimate.storeLovelace,
+        errors: estimate.errors.map((error) => ({
+            asset_name: error.assetName,
+            code: error.code,
+            message: error.message
+        })),
+        transactions: estimate.transactions.map((transaction) => ({
+            tx_hash: transaction.txHash,
+            asset_names: transaction.assetNames,
+            size: transaction.size,
+            fee: transaction.fee,
+            ex_units: transaction.exUnits,
+            store_lovelace: transaction.storeLovelace,
+            outputs: transaction.outputs.map((output) => ({
+                address: output.address,
+                amount: output.amount,
+                metadata: output.metadata,
+                reference_script: output.referenceScript
+            }))
+        }))
+    }
+}
+
+/**
+ * @function estimate
+ * @description
+ * Dry-run mode shared by mint, batch-mint, update and burn (`?dryRun=true`).
+ * Builds the transaction(s) the operation would submit, from the server wallets or from the `signer`
+ * in the body, and returns their fee, size, execution units, the lovelace locked at the store address
+ * and the decoded outputs. Nothing is signed for submission, submitted or queued. Items that cannot be
+ * built come back in `errors` with a code (`asset_exists`, `asset_not_found`, `stale_version`,
+ * `insufficient_funds`, `too_large`, `build_failed`) and `valid` is false.
+ *
+ * @param {Response} response - Express response used to return the estimate.
+ * @returns {Response} JSON with the estimate, or `400` if the signer is invalid.
+ */
+const estimate = async function (
+    response: Response,
+    type: JobType,
+    course: string,
+    params: Job['params'],
+    signer?: { address?: string; utxos?: unknown[]; collateral?: unknown }
+) {
+    if (signer && (!signer.address || !Array.isArray(signer.utxos) || signer.utxos.length === 0)) {
+        return response.status(400).json({
+            error: 'Invalid signer: expected address and a non-empty utxos array',
+            status: 400
+        })
+    }
+    const result = await jobQueue.estimate(
+        type,
+        course,
+        params,
+        signer ? createExternalSigner(signer as Parameters<typeof createExternalSigner>[0]) : undefined
+    )
+    return response.status(200).json({
+        message: result.valid ? 'Dry run: the transaction can be built' : 'Dry run: the transaction cannot be built',
+        data: serializeEstimate(result),
+        status: 200
+    })
+}
 
 /**
  * @function mint
- * @description Handles minting a new on-chain asset on Cardano.
+ * @description Queues the minting of a new on-chain asset on Cardano.
  * 1. Validates required fields: `asset_name`, `metadata`, `receiver`, and `course`.
- * 2. Initializes BlockfrostProvider to interact with the Cardano blockchain.
- * 3. Creates a MeshWallet instance using the app’s mnemonic.
- * 4. Uses MeshTxBuilder to build and sign a mint transaction.
- * 5. Submits the signed transaction to the blockchain and waits for confirmation.
- * 6. Returns transaction hash and success message as JSON.
+ *    When the course has a certificate template, `metadata` is checked against it and merged with its defaults
+ *    (`422` with per-field errors otherwise). `metadata` may not set `_pk`: the transaction sets it to the
+ *    issuer pubkey hash.
+ * 2. Enqueues a `mint` job; building, signing, submitting and confirmation happen in the background.
+ * 3. Responds with `202` and the job id, to be polled at `GET /jobs/:id`.
+ *    With a `signer` in the body, builds the transaction for that wallet instead and returns it unsigned.
+ *    With `?dryRun=true`, only estimates the transaction (see {@link estimate}).
  *
  * @param {Request} request - Express request containing asset details in the body.
- * @param {Response} response - Express response used to return transaction status.
- * @returns {Response} JSON with transaction hash and success/failure message.
+ * @param {Response} response - Express response used to return the queued job.
+ * @returns {Response} JSON with the job id and its initial status.
  */
 export const mint = async function (request: Request, response: Response) {
-    console.log('=== MINT REQUEST ===')
-    console.log('Request body:', request.body)
     try {
-        const { course, asset_name, metadata, quantity = '1', receiver } = request.body
+        const { course, asset_name, metadata, quantity = '1', receiver, signer } = request.body
         if (!asset_name || !metadata || !receiver || !course) {
-            console.log('ERROR: Missing required fields')
             return response.status(400).json({
                 error: 'Missing required fields: asset_name, metadata, or receiver, course'
             })
         }
 
-        console.log('Initializing BlockfrostProvider...')
-        const blockfrostProvider = new BlockfrostProvider(BLOCKFROST_API_KEY)
+        const templated = certificateTemplates.apply(course, metadata as Cip68Metadata)
+        if (templated.errors.length > 0) {
+            return response.status(422).json({
+                error: 'Invalid metadata',
+                details: templated.errors,
+                status: 422
+            })
+        }
 
         const params = [
             {
                 assetName: asset_name,
-                metadata: metadata as Record<string, string>,
+                metadata: templated.metadata,
                 quantity: quantity.toString(),
                 receiver
             }
         ]
+        if (isDryRun(request)) return estimate(response, 'mint', course, params, signer)
 
-        console.log('Initializing MeshWallet...')
-        const meshWallet = new MeshWallet({
-            networkId: APP_NETWORK_ID,
-            fetcher: blockfrostProvider,
-            submitter: blockfrostProvider,
-            key: {
-                type: 'mnemonic',
-                words: APP_MNEMONIC?.split(' ') || []
-            }
-        })
-
-        const changeAddress = await meshWallet.getChangeAddress()
-        console.log('Change address:', changeAddress)
+        registerCourse(course, signer?.address ?? getWallet().getChangeAddress())
+        if (signer) return buildUnsigned(response, 'mint', course, params, signer)
 
-        console.log('Building transaction...')
-        const meshTxBuilder = new MeshTxBuilder({
-            meshWallet: meshWallet,
-            course: course,
-            issuer: changeAddress
-        })
-        
-        console.log('Minting...')
-        const unsignedTx = await meshTxBuilder.mint(params)
-        
-        console.log('Signing transaction...')
-        const signedTx = await meshWallet.signTx(unsignedTx, true)
-        
-        console.log('Submitting transaction...')
-        const txHash = await meshWallet.submitTx(signedTx)
-        console.log('Transaction submitted:', txHash)
-        
-        console.log('Waiting for confirmation...')
-        await new Promise<void>((resolve, reject) => {
-            blockfrostProvider.onTxConfirmed(txHash, () => {
-                console.log('Transaction confirmed!')
-                resolve()
-            })
-        })
-        
-        const mintPolicyId = meshTxBuilder.policyId
-        console.log('Policy ID:', mintPolicyId)
-        console.log('=== MINT SUCCESS ===')
-        return response.status(200).json({
-            message: 'Asset minted successfully',
-            tx_hash: txHash,
-            policy_id: mintPolicyId,
-            asset_name: asset_name,
+        const job = jobQueue.enqueue('mint', course, params, callerOf(response))
+        loggerOf(response).info('Mint job queued', { job_id: job.id, course })
+        return response.status(202).json({
+            message: 'Mint job queued',
+            job_id: job.id,
+            data: serializeJob(job),
             status: 202
         })
-    } catch (error: any) {
-        console.error('=== MINT ERROR ===')
-        console.error('Error:', error.message || error)
+    } catch (error) {
+        loggerOf(response).error('Mint failed', { error: (error as Error).message || String(error) })
         return response.status(500).json({
             error: 'Failed to mint asset',
-            details: error.message || 'Unknown error',
+            details: (error as Error).message || 'Unknown error',
             status: 500
         })
     }
 }
 
+/**
+ * @function batchMint
+ * @description Queues the minting of any number of assets.
+ * 1. Validates `course` and every item of `items` (`asset_name`, `metadata`, `receiver`),
+ *    checking each item's metadata against the course template if there is one.
+ * 2. Enqueues a `batch-mint` job and responds with `202` and the job id. The job splits the items
+ *    into as many chained transactions as the protocol limits require; `GET /jobs/:id` reports
+ *    which transaction each item landed in, and any item that failed.
+ *    With a `signer` in the body, returns a single unsigned transaction for that wallet instead.
+ *    With `?dryRun=true`, only estimates the transactions (see {@link estimate}).
+ *
+ * @param {Request} request - Express request containing `course` and `items` in the body.
+ * @param {Response} response - Express response used to return the queued job.
+ */
 export const batchMint = async function (request: Request, response: Response) {
-    console.log('=== BATCH MINT REQUEST ===')
     try {
-        const { course, items } = request.body
-        
+        const { course, items, signer } = request.body
+
         if (!course || !items || !Array.isArray(items) || items.length === 0) {
             return response.status(400).json({
                 error: 'Missing required fields: course, items (array)'
             })
         }
 
-        if (items.length > 15) {
-            return response.status(400).json({
-                error: 'Maximum 15 items per batch (Cardano tx size limit)'
-            })
-        }
-
         for (const item of items) {
             if (!item.asset_name || !item.metadata || !item.receiver) {
                 return response.status(400).json({
@@ -126,64 +242,42 @@ export const batchMint = async function (request: Request, response: Response) {
             }
         }
 
-        console.log(`Batch minting ${items.length} NFTs...`)
-        const blockfrostProvider = new BlockfrostProvider(BLOCKFROST_API_KEY)
+        const templated = items.map((item) => certificateTemplates.apply(course, item.metadata as Cip68Metadata))
+        const errors = templated.flatMap((result, index) =>
+            result.errors.map((error) => ({ ...error, field: `items[${index}].metadata.${error.field}` }))
+        )
+        if (errors.length > 0) {
+            return response.status(422).json({
+                error: 'Invalid metadata',
+                details: errors,
+                status: 422
+            })
+        }
 
-        const params = items.map((item: any) => ({
+        const params = items.map((item, index) => ({
             assetName: item.asset_name,
-            metadata: item.metadata as Record<string, string>,
+            metadata: templated[index].metadata,
             quantity: (item.quantity || '1').toString(),
             receiver: item.receiver
         }))
+        if (isDryRun(request)) return estimate(response, 'batch-mint', course, params, signer)
 
-        const meshWallet = new MeshWallet({
-            networkId: APP_NETWORK_ID,
-            fetcher: blockfrostProvider,
-            submitter: blockfrostProvider,
-            key: {
-                type: 'mnemonic',
-                words: APP_MNEMONIC?.split(' ') || []
-            }
-        })
+        registerCourse(course, signer?.address ?? getWallet().getChangeAddress())
+        if (signer) return buildUnsigned(response, 'batch-mint', course, params, signer)
 
-        const changeAddress = await meshWallet.getChangeAddress()
-        
-        const meshTxBuilder = new MeshTxBuilder({
-            meshWallet: meshWallet,
-            course: course,
-            issuer: changeAddress
-        })
-        
-        const unsignedTx = await meshTxBuilder.mint(params)
-        const signedTx = await meshWallet.signTx(unsignedTx, true)
-        const txHash = await meshWallet.submitTx(signedTx)
-        
-        console.log('Batch transaction submitted:', txHash)
-        
-        await new Promise<void>((resolve) => {
-            blockfrostProvider.onTxConfirmed(txHash, () => {
-                console.log('Batch transaction confirmed!')
-                resolve()
-            })
-        })
-        
-        const mintPolicyId = meshTxBuilder.policyId
-        console.log('=== BATCH MINT SUCCESS ===')
-        
-        return response.status(200).json({
-            message: `${items.length} assets minted successfully`,
-            tx_hash: txHash,
-            policy_id: mintPolicyId,
-            minted_count: items.length,
-            asset_names: items.map((i: any) => i.asset_name),
+        const job = jobQueue.enqueue('batch-mint', course, params, callerOf(response))
+        loggerOf(response).info('Batch mint job queued', { job_id: job.id, course, items: items.length })
+        return response.status(202).json({
+            message: `Batch mint job queued for ${items.length} assets`,
+            job_id: job.id,
+            data: serializeJob(job),
             status: 202
         })
-    } catch (error: any) {
-        console.error('=== BATCH MINT ERROR ===')
-        console.error('Error:', error.message || error)
+    } catch (error) {
+        loggerOf(response).error('Batch mint failed', { error: (error as Error).message || String(error) })
         return response.status(500).json({
             error: 'Failed to batch mint assets',
-            details: error.message || 'Unknown error',
+            details: (error as Error).message || 'Unknown error',
             status: 500
         })
     }
@@ -191,65 +285,108 @@ export const batchMint = async function (request: Request, response: Response) {
 
 /**
  * @function update
- * @description Updates the metadata of an existing on-chain asset.
- * 1. Validates required fields: `asset_name`, `metadata`, and `course`.
- * 2. Builds an update transaction using MeshTxBuilder.
- * 3. Signs and submits the transaction.
- * 4. Waits for blockchain confirmation and returns the transaction hash.
+ * @description Queues a metadata update of an existing on-chain asset.
+ * 1. Validates required fields: `asset_name`, `metadata`, and `course`,
+ *    checking `metadata` against the course template if there is one.
+ * 2. Rejects the update with `409` while another update of the asset is pending, since both would
+ *    spend the same reference UTxO.
+ * 3. With an `expected_version`, rejects a stale version with `409`, returning the current version and
+ *    metadata. The version is checked again when the transaction is built, and step 2 is repeated
+ *    after the lookup.
+ * 4. Enqueues an `update` job and responds with `202` and the job id
+ *    (or, with a `signer` in the body, returns the unsigned transaction for that wallet).
+ *    With `?dryRun=true`, only estimates the transaction right after step 1 (see {@link estimate});
+ *    a stale `expected_version` then comes back as a `stale_version` error.
  *
  * @param {Request} request - Express request containing updated asset metadata.
- * @param {Response} response - Express response returning status and tx hash.
+ * @param {Response} response - Express response returning the queued job.
  */
 export const update = async function (request: Request, response: Response) {
     try {
-        const { course, asset_name, metadata } = request.body
+        const { course, asset_name, metadata, signer, expected_version } = request.body
         if (!asset_name || !metadata || !course) {
             return response.status(400).json({
                 error: 'Missing required fields: asset_name, metadata, or receiver, course'
             })
         }
 
-        const blockfrostProvider = new BlockfrostProvider(BLOCKFROST_API_KEY)
+        const templated = certificateTemplates.apply(course, metadata as Cip68Metadata)
+        if (templated.errors.length > 0) {
+            return response.status(422).json({
+                error: 'Invalid metadata',
+                details: templated.errors,
+                status: 422
+            })
+        }
 
         const params = [
             {
                 assetName: asset_name,
-                metadata: metadata as Record<string, string>
+                metadata: templated.metadata,
+                expectedVersion: expected_version
             }
         ]
+        if (isDryRun(request)) return estimate(response, 'update', course, params, signer)
 
-        const meshWallet = new MeshWallet({
-            networkId: APP_NETWORK_ID,
-            fetcher: blockfrostProvider,
-            submitter: blockfrostProvider,
-            key: {
-                type: 'mnemonic',
-                words: APP_MNEMONIC?.split(' ') || []
-            }
-        })
+        const inProgress = function () {
+            const pending = jobQueue.pendingUpdate(course, asset_name)
+            return (
+                pending &&
+                response.status(409).json({
+                    error: 'Another update of this asset is in progress',
+                    details: `Job ${pending.id} is ${pending.status}`,
+                    data: serializeJob(pending),
+                    status: 409
+                })
+            )
+        }
+        if (inProgress()) return
 
-        const meshTxBuilder = new MeshTxBuilder({
-            meshWallet,
-            course: course,
-            issuer: meshWallet.getChangeAddress()
-        })
-        const unsignedTx = await meshTxBuilder.update(params)
-        const signedTx = await meshWallet.signTx(unsignedTx, true)
-        const txHash = await meshWallet.submitTx(signedTx)
-        await new Promise<void>((resolve, reject) => {
-            blockfrostProvider.onTxConfirmed(txHash, () => {
-                resolve()
+        if (expected_version) {
+            const meshWallet = getWallet()
+            const meshTxBuilder = new MeshTxBuilder({
+                meshWallet,
+                course,
+                issuer: signer?.address ?? meshWallet.getChangeAddress(),
+                provider: getProvider()
             })
-        })
-        return response.status(200).json({
-            message: 'Asset minted successfully',
-            tx_hash: txHash,
+            const current = await meshTxBuilder.getAsset(asset_name)
+            if (!current) {
+                return response.status(404).json({
+                    error: 'Asset not found',
+                    details: `No CIP68_100 reference UTxO for ${asset_name} at ${meshTxBuilder.storeAddress}`,
+                    status: 404
+                })
+            }
+            if (!meshTxBuilder.matchesVersion(current, String(expected_version))) {
+                return response.status(409).json({
+                    error: 'Stale version',
+                    details: `Expected ${expected_version}, the asset has been updated since`,
+                    data: {
+                        current_version: `${current.utxo.input.txHash}#${current.utxo.input.outputIndex}`,
+                        datum_hash: current.datumHash,
+                        metadata: current.metadata
+                    },
+                    status: 409
+                })
+            }
+            // Another update may have been queued during the lookup.
+            if (inProgress()) return
+        }
+
+        if (signer) return buildUnsigned(response, 'update', course, params, signer)
+
+        const job = jobQueue.enqueue('update', course, params, callerOf(response))
+        return response.status(202).json({
+            message: 'Update job queued',
+            job_id: job.id,
+            data: serializeJob(job),
             status: 202
         })
-    } catch (error: any) {
+    } catch (error) {
         return response.status(500).json({
-            error: 'Failed to mint asset',
-            details: error.message || 'Unknown error',
+            error: 'Failed to update asset',
+            details: (error as Error).message || 'Unknown error',
             status: 500
         })
     }
@@ -257,65 +394,119 @@ export const update = async function (request: Request, response: Response) {
 
 /**
  * @function burn
- * @description Burns (destroys) an existing on-chain asset.
+ * @description Queues the burning (destruction) of an existing on-chain asset.
  * 1. Validates `asset_name`, `quantity`, and `course`.
- * 2. Uses MeshTxBuilder to build a burn transaction.
- * 3. Signs and submits the transaction to the blockchain.
- * 4. Waits for confirmation before responding with the transaction hash.
+ * 2. Enqueues a `burn` job and responds with `202` and the job id
+ *    (or, with a `signer` in the body, returns the unsigned transaction for that wallet).
+ *    With `?dryRun=true`, only estimates the transaction (see {@link estimate}).
  *
  * @param {Request} request - Express request containing asset burn details.
- * @param {Response} response - Express response returning transaction result.
+ * @param {Response} response - Express response returning the queued job.
  */
 export const burn = async function (request: Request, response: Response) {
     try {
-        const { course, asset_name, quantity } = request.body
+        const { course, asset_name, quantity, signer } = request.body
         if (!asset_name || !quantity || !course) {
             return response.status(400).json({
                 error: 'Missing required fields: asset_name, metadata, or receiver, course'
             })
         }
 
-        const blockfrostProvider = new BlockfrostProvider(BLOCKFROST_API_KEY)
-
         const params = [
             {
                 assetName: asset_name,
                 quantity: quantity
             }
         ]
+        if (isDryRun(request)) return estimate(response, 'burn', course, params, signer)
+        if (signer) return buildUnsigned(response, 'burn', course, params, signer)
 
-        const meshWallet = new MeshWallet({
-            networkId: APP_NETWORK_ID,
-            fetcher: blockfrostProvider,
-            submitter: blockfrostProvider,
-            key: {
-                type: 'mnemonic',
-                words: APP_MNEMONIC?.split(' ') || []
-            }
+        const job = jobQueue.enqueue('burn', course, params, callerOf(response))
+        return response.status(202).json({
+            message: 'Burn job queued',
+            job_id: job.id,
+            data: serializeJob(job),
+            status: 202
         })
-
-        const meshTxBuilder = new MeshTxBuilder({
-            meshWallet,
-            course: course,
-            issuer: meshWallet.getChangeAddress()
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to burn asset',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
         })
-        const unsignedTx = await meshTxBuilder.burn(params)
-        const signedTx = await meshWallet.signTx(unsignedTx, true)
-        const txHash = await meshWallet.submitTx(signedTx)
-        await new Promise<void>((resolve, reject) => {
-            blockfrostProvider.onTxConfirmed(txHash, () => {
-                resolve()
+    }
+}
+
+/**
+ * @function submit
+ * @description Submits a transaction built in build-only mode once the external wallet has signed it.
+ * 1. Validates `job_id` and either `signed_tx` or `witness_set` (CIP-30 `signTx(tx, true)` output).
+ * 2. Checks the job exists (`404`) and is still waiting for its signature (`409`).
+ * 3. Merges the witness set if needed, and checks the transaction body is the one that was built
+ *    and that every required signer has signed (`422` with the problems otherwise).
+ * 4. Hands the signed transaction to the job queue, which submits it and tracks confirmation,
+ *    and responds with `202` and the job. When a concurrent request got its signature accepted first,
+ *    answers `409` as in step 2.
+ *
+ * @param {Request} request - Express request with the job id and the signature in the body.
+ * @param {Response} response - Express response returning the job.
+ */
+export const submit = async function (request: Request, response: Response) {
+    try {
+        const { job_id, signed_tx, witness_set } = request.body
+        if (!job_id || !(signed_tx || witness_set)) {
+            return response.status(400).json({
+                error: 'Missing required fields: job_id, and signed_tx or witness_set',
+                status: 400
+            })
+        }
+
+        const found = jobQueue.get(String(job_id))
+        if (!found) {
+            return response.status(404).json({
+                error: 'Job not found',
+                status: 404
+            })
+        }
+        if (found.status !== 'unsigned') {
+            return response.status(409).json({
+                error: 'Job is not waiting for a signature',
+                details: `Job status is ${found.status}`,
+                data: serializeJob(found),
+                status: 409
             })
+        }
+
+        const { job, problems, conflict } = await jobQueue.submitSigned(found.id, {
+            signedTx: signed_tx,
+            witnessSet: witness_set
         })
-        return response.status(200).json({
-            message: 'Asset minted successfully',
-            tx_hash: txHash,
+        if (conflict) {
+            return response.status(409).json({
+                error: 'Job is not waiting for a signature',
+                details: `Job status is ${job.status}`,
+                data: serializeJob(job),
+                status: 409
+            })
+        }
+        if (problems.length > 0) {
+            return response.status(422).json({
+                error: 'Signed transaction does not match the built transaction',
+                details: problems,
+                status: 422
+            })
+        }
+
+        return response.status(202).json({
+            message: 'Signed transaction queued for submission',
+            job_id: job.id,
+            data: serializeJob(job),
             status: 202
         })
-    } catch (error: any) {
+    } catch (error) {
         return response.status(500).json({
-            error: 'Failed to mint asset',
-            details: error.message || 'Unknown error',
+            error: 'Failed to submit transaction',
+            details: (error as Error).message || 'Unknown error',
             status: 500
         })
     }
@@ -324,52 +515,277 @@ export const burn = async function (request: Request, response: Response) {
 /**
  * @function contract
  * @description Returns key information about the minting policy and store address for a given course.
- * 1. Validates that `course` is provided in the request body.
+ * 1. Validates that `course` is provided in the query (or, for older callers, in the request body).
  * 2. Initializes wallet and transaction builder using Mesh SDK.
- * 3. Returns the policy ID and store address derived from the course contract.
+ * 3. Returns the policy ID, store address and reference address derived from the course contract.
  *
  * @param {Request} request - Express request containing `course` identifier.
- * @param {Response} response - Express response returning policy ID and store address.
+ * @param {Response} response - Express response returning policy ID, store address and reference address.
  */
 export const contract = async function (request: Request, response: Response) {
     try {
-        const { course } = request.body
+        const course = request.query.course ?? request.body?.course
         if (!course) {
             return response.status(400).json({
-                error: 'Missing required fields: asset_name, metadata, or receiver, course'
+                error: 'Missing required field: course',
+                status: 400
             })
         }
 
-        const blockfrostProvider = new BlockfrostProvider(BLOCKFROST_API_KEY)
+        const provider = getProvider()
+        const meshWallet = getWallet()
 
-        const meshWallet = new MeshWallet({
-            networkId: APP_NETWORK_ID,
-            fetcher: blockfrostProvider,
-            submitter: blockfrostProvider,
-            key: {
-                type: 'mnemonic',
-                words: APP_MNEMONIC?.split(' ') || []
-            }
+        const meshTxBuilder = new MeshTxBuilder({
+            meshWallet,
+            course: String(course),
+            issuer: meshWallet.getChangeAddress(),
+            provider
+        })
+
+        return response.status(200).json({
+            message: 'Course contract found',
+            data: {
+                policy_id: meshTxBuilder.policyId,
+                store_address: meshTxBuilder.storeAddress,
+                reference_address: meshTxBuilder.referenceAddress
+            },
+            status: 200
+        })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to derive course contract',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
+
+/**
+ * @function serializeAsset
+ * @description Maps a decoded CIP-68 asset to its public JSON shape (snake_case).
+ *
+ * @param {CertificateAsset} asset - The decoded asset.
+ * @returns {Record<string, unknown>} The asset as returned by the API.
+ */
+export const serializeAsset = function (asset: CertificateAsset) {
+    return {
+        asset_name: asset.assetName,
+        policy_id: asset.policyId,
+        unit_100: asset.referenceUnit,
+        unit_222: asset.userUnit,
+        utxo: {
+            tx_hash: asset.utxo.input.txHash,
+            output_index: asset.utxo.input.outputIndex
+        },
+        utxo_ref: `${asset.utxo.input.txHash}#${asset.utxo.input.outputIndex}`,
+        datum_hash: asset.datumHash,
+        slot: asset.slot ?? null,
+        issuer_pk_hash: asset.issuer,
+        metadata: asset.metadata,
+        version: asset.version,
+        extra: asset.extra
+    }
+}
+
+/**
+ * @function asset
+ * @description Reads back a certificate issued under a course contract.
+ * 1. Derives the course contract from the `course` route parameter and the issuer wallet.
+ * 2. Finds the CIP68_100 reference UTxO for `assetName` at the store address and decodes its datum.
+ * 3. Returns the metadata with the policy ID, the 100/222 units, the UTxO reference and the issuer pubkey hash.
+ *
+ * @param {Request} request - Express request with `course` and `assetName` route parameters.
+ * @param {Response} response - Express response returning the decoded certificate.
+ */
+export const asset = async function (request: Request, response: Response) {
+    try {
+        const course = String(request.params.course)
+        const assetName = String(request.params.assetName)
+
+        const provider = getProvider()
+        const meshWallet = getWallet()
+        const meshTxBuilder = new MeshTxBuilder({
+            meshWallet,
+            course: course,
+            issuer: meshWallet.getChangeAddress(),
+            provider
+        })
+
+        const found = await meshTxBuilder.getAsset(assetName)
+        if (!found) {
+            return response.status(404).json({
+                error: 'Asset not found',
+                details: `No CIP68_100 reference UTxO for ${assetName} at ${meshTxBuilder.storeAddress}`,
+                status: 404
+            })
+        }
+
+        return response.status(200).json({
+            message: 'Asset found',
+            data: { ...serializeAsset(found), store_address: meshTxBuilder.storeAddress },
+            status: 200
         })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to fetch asset',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
+
+/**
+ * @function assets
+ * @description Lists every certificate issued under a course contract (admin view).
+ * 1. Enumerates all CIP68_100 reference UTxOs at the course store address and decodes their datums.
+ * 2. Keeps assets whose metadata matches every `metadata.<field>=<value>` query parameter.
+ * 3. Sorts by `sort` (`slot`, `-slot`, `asset_name`, `-asset_name`; default `slot`).
+ * 4. Returns the requested `page` (default 1) of `limit` items (default 20, max 100).
+ *
+ * @param {Request} request - Express request with the `course` route parameter and list options in the query.
+ * @param {Response} response - Express response returning the paginated list.
+ */
+export const assets = async function (request: Request, response: Response) {
+    try {
+        const course = String(request.params.course)
+        const query = request.query as Record<string, string | undefined>
+        const page = Math.max(1, Number(query.page) || 1)
+        const limit = Math.min(100, Math.max(1, Number(query.limit) || 20))
+        const sort = query.sort || 'slot'
+        if (!['slot', '-slot', 'asset_name', '-asset_name'].includes(sort)) {
+            return response.status(400).json({
+                error: 'Invalid sort: expected slot, -slot, asset_name or -asset_name',
+                status: 400
+            })
+        }
+        const filters = Object.entries(query)
+            .filter(([key]) => key.startsWith('metadata.'))
+            .map(([key, value]) => [key.slice('metadata.'.length), String(value)])
 
+        const provider = getProvider()
+        const meshWallet = getWallet()
         const meshTxBuilder = new MeshTxBuilder({
             meshWallet,
             course: course,
-            issuer: meshWallet.getChangeAddress()
+            issuer: meshWallet.getChangeAddress(),
+            provider
         })
 
+        const direction = sort.startsWith('-') ? -1 : 1
+        const found = (await meshTxBuilder.getAssets())
+            .filter((asset) => filters.every(([key, value]) => String(asset.metadata[key]) === value))
+            .sort((a, b) =>
+                sort.endsWith('slot')
+                    ? direction * ((a.slot ?? 0) - (b.slot ?? 0))
+                    : direction * a.assetName.localeCompare(b.assetName)
+            )
+
         return response.status(200).json({
-            message: 'Asset minted successfully',
+            message: 'Assets found',
             data: {
                 policy_id: meshTxBuilder.policyId,
-                store_address: meshTxBuilder.storeAddress
+                store_address: meshTxBuilder.storeAddress,
+                items: found.slice((page - 1) * limit, page * limit).map(serializeAsset),
+                page,
+                limit,
+                total: found.length,
+                total_pages: Math.ceil(found.length / limit)
             },
             status: 200
         })
-    } catch (error: any) {
+    } catch (error) {
         return response.status(500).json({
-            error: 'Failed to mint asset',
-            details: error.message || 'Unknown error',
+            error: 'Failed to list assets',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
+
+/**
+ * @function serializeReferenceScripts
+ * @description Maps a reference script deployment to its public JSON shape (snake_case).
+ */
+const serializeReferenceScripts = function (record: ReferenceScriptRecord) {
+    const serializeReference = (reference: ScriptReference) => ({
+        tx_hash: reference.txHash,
+        output_index: reference.outputIndex,
+        script_hash: reference.scriptHash,
+        script_size: Number(reference.scriptSize)
+    })
+    return {
+        course: record.course,
+        address: record.address,
+        mint: serializeReference(record.mint),
+        store: serializeReference(record.store),
+        deployed_at: record.deployedAt
+    }
+}
+
+/**
+ * @function scripts
+ * @description Shows where the reference scripts of a course are deployed.
+ * 1. Looks up the recorded deployment and checks both reference UTxOs are still unspent.
+ * 2. Responds with the outRefs, or `404` when the course has no live reference scripts
+ *    (transactions then embed the scripts).
+ *
+ * @param {Request} request - Express request with the `course` route parameter.
+ * @param {Response} response - Express response returning the deployment.
+ */
+export const scripts = async function (request: Request, response: Response) {
+    try {
+        const meshWallet = getWallet()
+        const meshTxBuilder = new MeshTxBuilder({
+            meshWallet,
+            course: String(request.params.course),
+            issuer: meshWallet.getChangeAddress(),
+            provider: getProvider()
+        })
+        const record = await meshTxBuilder.getReferenceScripts()
+        if (!record) {
+            return response.status(404).json({
+                error: 'Reference scripts not deployed',
+                details: `No live reference scripts at ${meshTxBuilder.referenceAddress}`,
+                status: 404
+            })
+        }
+        return response.status(200).json({
+            message: 'Reference scripts found',
+            data: serializeReferenceScripts(record),
+            status: 200
+        })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to fetch reference scripts',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
+
+/**
+ * @function deployScripts
+ * @description Deploys the mint and store scripts of a course as reference scripts (admin).
+ * 1. Submits a transaction locking both parameterized scripts at the issuer's reference address, which
+ *    only the issuer's signature unlocks, paid by the issuer wallet, and records their outRefs. The
+ *    minimum ADA of both outputs stays locked until the issuer spends them.
+ * 2. Responds with `201` and the deployment, or `200` with the existing one when it is still live.
+ *
+ * @param {Request} request - Express request with the `course` route parameter.
+ * @param {Response} response - Express response returning the deployment.
+ */
+export const deployScripts = async function (request: Request, response: Response) {
+    try {
+        const { record, deployed } = await deployReferenceScripts(String(request.params.course))
+        return response.status(deployed ? 201 : 200).json({
+            message: deployed ? 'Reference scripts deployed' : 'Reference scripts already deployed',
+            data: serializeReferenceScripts(record),
+            status: deployed ? 201 : 200
+        })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to deploy reference scripts',
+            details: (error as Error).message || 'Unknown error',
             status: 500
         })
     }
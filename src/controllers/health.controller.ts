@@ -0,0 +1,61 @@
+import { Request, Response } from 'express'
+import { loggerOf } from '../middlewares/request.middleware.js'
+import { checkHealth, issuerBalance } from '../services/health.service.js'
+import { metrics } from '../services/metrics.service.js'
+import { HealthCheck } from '../types/index.js'
+
+/**
+ * @function serializeCheck
+ * @description Maps a health check to its public JSON shape (snake_case).
+ */
+const serializeCheck = function (check: HealthCheck) {
+    return {
+        status: check.status,
+        latency_ms: check.latencyMs,
+        ...(check.details ?? {}),
+        ...(check.error ? { error: check.error } : {})
+    }
+}
+
+/**
+ * @function health
+ * @description Reports whether the service is up and ready.
+ * 1. Checks the chain provider is reachable and the issuer wallet is ready (UTxOs and collateral).
+ * 2. Responds with `200` when every check passes, `503` with `status: degraded` otherwise,
+ *    together with the uptime and the result of each check.
+ *
+ * @param {Request} request - Express request.
+ * @param {Response} response - Express response returning the report.
+ */
+export const health = async function (request: Request, response: Response) {
+    const report = await checkHealth()
+    return response.status(report.status === 'ok' ? 200 : 503).json({
+        status: report.status,
+        timestamp: new Date().toISOString(),
+        uptime: process.uptime(),
+        service: 'contract-service',
+        checks: {
+            provider: serializeCheck(report.checks.provider),
+            wallet: serializeCheck(report.checks.wallet)
+        }
+    })
+}
+
+/**
+ * @function exportMetrics
+ * @description Serves the service metrics in the Prometheus text format.
+ * 1. Reads the issuer wallet balance; if it cannot be read, the last value is kept.
+ * 2. Responds with every metric (see {@link Metrics}).
+ *
+ * @param {Request} request - Express request.
+ * @param {Response} response - Express response returning the metrics as `text/plain`.
+ */
+export const exportMetrics = async function (request: Request, response: Response) {
+    try {
+        metrics.issuerBalance.set({}, Number(await issuerBalance()))
+    } catch (error) {
+        loggerOf(response).warn('Could not read the issuer balance', { error: (error as Error).message })
+    }
+    response.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+    return response.status(200).send(metrics.render())
+}
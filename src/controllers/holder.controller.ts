@@ -0,0 +1,86 @@
+import { Request, Response } from 'express'
+import { CIP68_222, hexToString } from '@meshsdk/core'
+import { getProvider } from '../providers/index.provider.js'
+import { listContracts } from '../services/course.service.js'
+import { getWallet } from '../services/wallet.service.js'
+import { MeshTxBuilder } from '../txbuilders/mesh.txbuilder.js'
+import { serializeAsset } from './contract.controller.js'
+
+/**
+ * @function certificates
+ * @description Lists the course certificates held by a student address.
+ * 1. Fetches the address UTxOs and keeps CIP68_222 user tokens.
+ * 2. Derives the policy ID of every known course, for every issuer it was issued by (the server wallet
+ *    or an external signer), plus the `course` query parameters issued by the server wallet (at most 5,
+ *    checked by the route schema, as each one derives its scripts), and keeps the tokens issued under
+ *    one of them. Policy IDs cannot be traced back to a course name, so the tokens of other courses are
+ *    not recognised; the courses searched are returned in `courses`.
+ * 3. Aggregates each token quantity across UTxOs and joins it with the decoded reference datum
+ *    found at the course store address.
+ *
+ * @param {Request} request - Express request with the holder `address` route parameter.
+ * @param {Response} response - Express response returning the certificates.
+ */
+export const certificates = async function (request: Request, response: Response) {
+    try {
+        const address = String(request.params.address)
+        const extra = request.query.course
+
+        const provider = getProvider()
+        const meshWallet = getWallet()
+        const serverIssuer = meshWallet.getChangeAddress()
+        const pairs = [
+            ...listContracts(serverIssuer),
+            ...(extra ? [extra].flat().map((course) => ({ course: String(course), issuer: serverIssuer })) : [])
+        ]
+        const contracts = new Map(
+            pairs.map(({ course, issuer }) => {
+                const meshTxBuilder = new MeshTxBuilder({ meshWallet, course, issuer, provider })
+                return [meshTxBuilder.policyId, { course, issuer, meshTxBuilder }] as const
+            })
+        )
+        const courses = new Set(pairs.map(({ course }) => course))
+
+        const utxos = await provider.fetchAddressUTxOs(address)
+        const userUnits = new Set(
+            utxos
+                .flatMap((utxo) => utxo.output.amount)
+                .map((amount) => amount.unit)
+                .filter((unit) => contracts.has(unit.slice(0, 56)) && unit.slice(56).startsWith(CIP68_222('')))
+        )
+
+        const items = await Promise.all(
+            Array.from(userUnits, async (unit) => {
+                const { course, issuer, meshTxBuilder } = contracts.get(unit.slice(0, 56))!
+                const assetName = hexToString(unit.slice(56 + CIP68_222('').length))
+                const reference = await meshTxBuilder.getAsset(assetName)
+                return {
+                    course,
+                    issuer,
+                    policy_id: meshTxBuilder.policyId,
+                    asset_name: assetName,
+                    unit_222: unit,
+                    quantity: meshTxBuilder.sumUnitQuantity(utxos, unit),
+                    certificate: reference ? serializeAsset(reference) : null
+                }
+            })
+        )
+
+        return response.status(200).json({
+            message: 'Certificates found',
+            data: {
+                address,
+                courses: Array.from(courses),
+                items,
+                total: items.length
+            },
+            status: 200
+        })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to fetch holder certificates',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
@@ -0,0 +1,90 @@
+import { Request, Response } from 'express'
+import { jobQueue } from '../services/job.service.js'
+import { Job } from '../types/index.js'
+
+/**
+ * @function serializeBatch
+ * @description
+ * Reports where each item of a multi-transaction batch landed: its transaction (index and hash)
+ * and status, or the reason it could not be built.
+ *
+ * @param {Job} job - A stored batch job.
+ * @returns {Record<string, unknown>} The `transactions` and per-item `items` report.
+ */
+const serializeBatch = function (job: Job) {
+    const transactions = job.transactions ?? []
+    return {
+        transactions: transactions.map((transaction) => ({
+            index: transaction.index,
+            tx_hash: transaction.txHash,
+            status: transaction.status,
+            asset_names: transaction.assetNames,
+            error: transaction.error ?? null,
+            error_code: transaction.code ?? null
+        })),
+        items: job.params.map(({ assetName }) => {
+            const transaction = transactions.find((transaction) => transaction.assetNames.includes(assetName))
+            const failure = job.failures?.find((failure) => failure.assetName === assetName)
+            return {
+                asset_name: assetName,
+                tx_index: transaction?.index ?? null,
+                tx_hash: transaction?.txHash ?? null,
+                status: transaction?.status ?? (failure ? 'failed' : job.status),
+                error: transaction?.error ?? failure?.error ?? null
+            }
+        })
+    }
+}
+
+/**
+ * @function serializeJob
+ * @description
+ * Maps a stored job to its public JSON shape (snake_case, without the signed tx).
+ * While a job waits for an external signature, its unsigned CBOR is included as `unsigned_tx`.
+ * Batch jobs spanning several transactions also report their transactions and a per-item report.
+ *
+ * @param {Job} job - The stored job.
+ * @returns {Record<string, unknown>} The job as returned by the API.
+ */
+export const serializeJob = function (job: Job) {
+    return {
+        id: job.id,
+        type: job.type,
+        course: job.course,
+        status: job.status,
+        asset_names: job.params.map((param) => param.assetName),
+        tx_hash: job.txHash ?? null,
+        policy_id: job.policyId ?? null,
+        signer: job.signer ?? null,
+        ...(job.status === 'unsigned' ? { unsigned_tx: job.unsignedTx } : {}),
+        error: job.error ?? null,
+        ...(job.transactions || job.failures ? serializeBatch(job) : {}),
+        created_at: job.createdAt,
+        updated_at: job.updatedAt
+    }
+}
+
+/**
+ * @function job
+ * @description Reports the status of a queued contract operation.
+ * 1. Looks up the job by the `id` route parameter.
+ * 2. Returns its status (unsigned, queued, built, submitted, confirmed or failed), tx hash and error details.
+ *    A transaction lost after submission fails the job with an error `code`: timeout, expired, dropped or rolled_back.
+ *
+ * @param {Request} request - Express request with the job id in `params.id`.
+ * @param {Response} response - Express response returning the job.
+ */
+export const job = async function (request: Request, response: Response) {
+    const found = jobQueue.get(String(request.params.id))
+    if (!found) {
+        return response.status(404).json({
+            error: 'Job not found',
+            status: 404
+        })
+    }
+    return response.status(200).json({
+        message: 'Job found',
+        data: serializeJob(found),
+        status: 200
+    })
+}
@@ -0,0 +1,108 @@
+import { Request, Response } from 'express'
+import { certificateTemplates } from '../services/template.service.js'
+import { CertificateTemplate, TemplateField } from '../types/index.js'
+
+/**
+ * @function serializeTemplate
+ * @description Maps a stored certificate template to its public JSON shape (snake_case).
+ *
+ * @param {CertificateTemplate} template - The stored template.
+ * @returns {Record<string, unknown>} The template as returned by the API.
+ */
+const serializeTemplate = function (template: CertificateTemplate) {
+    return {
+        course: template.course,
+        fields: Object.fromEntries(
+            Object.entries(template.fields).map(([name, field]) => [
+                name,
+                {
+                    type: field.type,
+                    required: field.required ?? false,
+                    max_length: field.maxLength ?? null,
+                    default: field.default ?? null
+                }
+            ])
+        ),
+        created_at: template.createdAt,
+        updated_at: template.updatedAt
+    }
+}
+
+/**
+ * @function template
+ * @description Returns the certificate template registered for a course.
+ *
+ * @param {Request} request - Express request with the `course` route parameter.
+ * @param {Response} response - Express response returning the template, or `404` if none is registered.
+ */
+export const template = async function (request: Request, response: Response) {
+    const found = certificateTemplates.get(String(request.params.course))
+    if (!found) {
+        return response.status(404).json({
+            error: 'Template not found',
+            status: 404
+        })
+    }
+    return response.status(200).json({
+        message: 'Template found',
+        data: serializeTemplate(found),
+        status: 200
+    })
+}
+
+/**
+ * @function saveTemplate
+ * @description Registers or replaces the certificate template of a course.
+ * 1. Validates that `fields` is an object of field definitions
+ *    (`type`, optional `required`, `max_length` and `default`).
+ * 2. Checks each definition and responds with `422` and per-field errors if any is invalid.
+ * 3. Stores the template; later mint and update requests for the course are validated against it.
+ *
+ * @param {Request} request - Express request with the `course` route parameter and `fields` in the body.
+ * @param {Response} response - Express response returning the stored template.
+ */
+export const saveTemplate = async function (request: Request, response: Response) {
+    try {
+        const { fields } = request.body
+        if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+            return response.status(400).json({
+                error: 'Missing required fields: fields (object)',
+                status: 400
+            })
+        }
+
+        const { template, errors } = certificateTemplates.set(
+            String(request.params.course),
+            Object.fromEntries(
+                Object.entries(fields as Record<string, Record<string, unknown>>).map(([name, field]) => [
+                    name,
+                    {
+                        type: field?.type,
+                        required: field?.required,
+                        maxLength: field?.max_length ?? undefined,
+                        default: field?.default ?? undefined
+                    } as TemplateField
+                ])
+            )
+        )
+        if (!template) {
+            return response.status(422).json({
+                error: 'Invalid template',
+                details: errors,
+                status: 422
+            })
+        }
+
+        return response.status(200).json({
+            message: 'Template saved',
+            data: serializeTemplate(template),
+            status: 200
+        })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to save template',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
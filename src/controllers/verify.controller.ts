@@ -0,0 +1,136 @@
+import { Request, Response } from 'express'
+import { CIP68_222, hexToString } from '@meshsdk/core'
+import { getProvider } from '../providers/index.provider.js'
+import { contractRegistry } from '../services/contract.service.js'
+import { listContracts } from '../services/course.service.js'
+import { getWallet } from '../services/wallet.service.js'
+import { MeshTxBuilder } from '../txbuilders/mesh.txbuilder.js'
+import { CertificateVerdict } from '../types/index.js'
+import { serializeAsset } from './contract.controller.js'
+
+/**
+ * @function serializeVerdict
+ * @description Maps a {@link CertificateVerdict} to its public JSON shape (snake_case).
+ *
+ * @param {string} course - The course the certificate was checked against.
+ * @param {CertificateVerdict} verdict - The verdict computed by the adapter.
+ * @returns {Record<string, unknown>} The verdict as returned by the API.
+ */
+const serializeVerdict = function (course: string, verdict: CertificateVerdict) {
+    return {
+        verified: verdict.verified,
+        address: verdict.holder,
+        course,
+        asset_name: verdict.assetName,
+        policy_id: verdict.policyId,
+        store_address: verdict.storeAddress,
+        quantity: verdict.quantity,
+        checks: {
+            held: verdict.checks.held,
+            reference_exists: verdict.checks.referenceExists,
+            issuer_matches: verdict.checks.issuerMatches
+        },
+        reasons: verdict.reasons,
+        certificate: verdict.asset ? serializeAsset(verdict.asset) : null
+    }
+}
+
+/**
+ * @function verify
+ * @description Lets a third party (e.g. an employer) check that a student holds a live certificate issued by us.
+ * 1. Validates `address` and either `course` + `asset_name`, or a CIP68_222 `unit`.
+ * 2. When a `unit` is given, resolves its course and issuer among the known (course, issuer) pairs by
+ *    policy ID. Otherwise the course is checked for every issuer it was issued by: the server wallet,
+ *    and the external signers that minted for it.
+ * 3. Checks the 222 token is held, the 100 reference token is still at the store address,
+ *    and the datum `_pk` matches the issuer pubkey hash.
+ * 4. Returns the verdict with the result of each check and the reasons for any failure.
+ *
+ * @param {Request} request - Express request with the holder address and certificate identifiers in the body.
+ * @param {Response} response - Express response returning the verdict.
+ */
+export const verify = async function (request: Request, response: Response) {
+    try {
+        const { address, unit } = request.body
+        let { course, asset_name } = request.body
+        if (!address || !((course && asset_name) || unit)) {
+            return response.status(400).json({
+                error: 'Missing required fields: address, and course with asset_name, or unit',
+                status: 400
+            })
+        }
+
+        const provider = getProvider()
+        const meshWallet = getWallet()
+        const serverIssuer = meshWallet.getChangeAddress()
+        const contracts = listContracts(serverIssuer)
+
+        let unitPolicyId: string | undefined
+        let issuers = [serverIssuer]
+        if (unit) {
+            const label = CIP68_222('')
+            if (
+                typeof unit !== 'string' ||
+                unit.length <= 56 + label.length ||
+                unit.slice(56, 56 + label.length) !== label
+            ) {
+                return response.status(400).json({
+                    error: 'Invalid unit: expected a CIP68_222 unit (policy ID + 000de140 + asset name)',
+                    status: 400
+                })
+            }
+            unitPolicyId = unit.slice(0, 56)
+            asset_name = asset_name || hexToString(unit.slice(56 + label.length))
+            const known = contracts.find(
+                (contract) =>
+                    (!course || contract.course === course) &&
+                    contractRegistry.get(contract.course, contract.issuer).policyId === unitPolicyId
+            )
+            course = course || known?.course
+            if (known) issuers = [known.issuer]
+            if (!course) {
+                return response.status(404).json({
+                    error: 'Unknown policy',
+                    details: `No course issued by us has policy ID ${unitPolicyId}`,
+                    status: 404
+                })
+            }
+        }
+
+        if (!unitPolicyId) {
+            issuers = [
+                ...new Set([
+                    serverIssuer,
+                    ...contracts.filter((contract) => contract.course === course).map(({ issuer }) => issuer)
+                ])
+            ]
+        }
+
+        // The certificate is checked against the contract of the issuer whose token the holder has, if any.
+        const checked: { meshTxBuilder: MeshTxBuilder; verdict: CertificateVerdict }[] = []
+        for (const issuer of issuers) {
+            const candidate = new MeshTxBuilder({ meshWallet, course, issuer, provider })
+            checked.push({ meshTxBuilder: candidate, verdict: await candidate.verifyCertificate(address, asset_name) })
+            if (checked.at(-1)!.verdict.checks.held) break
+        }
+        const { meshTxBuilder, verdict } = checked.find(({ verdict }) => verdict.checks.held) ?? checked[0]
+        if (unitPolicyId && unitPolicyId !== meshTxBuilder.policyId) {
+            verdict.verified = false
+            verdict.reasons.unshift(
+                `Unit policy ID ${unitPolicyId} does not match course policy ID ${meshTxBuilder.policyId}`
+            )
+        }
+
+        return response.status(200).json({
+            message: verdict.verified ? 'Certificate verified' : 'Certificate not verified',
+            data: serializeVerdict(course, verdict),
+            status: 200
+        })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to verify certificate',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
@@ -0,0 +1,198 @@
+import { Request, Response } from 'express'
+import { WEBHOOK_EVENTS, webhooks } from '../services/webhook.service.js'
+import { Credential, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookRecord } from '../types/index.js'
+import { callerOf } from './contract.controller.js'
+
+/**
+ * @function serializeWebhook
+ * @description Maps a stored webhook to its public JSON shape (snake_case, without the secret).
+ */
+const serializeWebhook = function (webhook: WebhookRecord) {
+    return {
+        id: webhook.id,
+        url: webhook.url,
+        events: webhook.events,
+        course: webhook.course,
+        owner: webhook.owner,
+        created_at: webhook.createdAt
+    }
+}
+
+/**
+ * @function serializeDelivery
+ * @description Maps a stored delivery to its public JSON shape (snake_case).
+ */
+const serializeDelivery = function (delivery: WebhookDelivery) {
+    return {
+        id: delivery.id,
+        webhook_id: delivery.webhookId,
+        event: delivery.event,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        next_attempt_at: delivery.nextAttemptAt,
+        last_error: delivery.lastError,
+        response_status: delivery.responseStatus,
+        payload: delivery.payload,
+        created_at: delivery.createdAt,
+        updated_at: delivery.updatedAt
+    }
+}
+
+/**
+ * @function ownWebhooks
+ * @description The webhooks the caller may see: those it registered, or all of them for the admin key.
+ */
+const ownWebhooks = function (response: Response): WebhookRecord[] {
+    const credential = response.locals.credential as Credential
+    return webhooks.list(credential.type === 'admin' ? undefined : callerOf(response))
+}
+
+/**
+ * @function createWebhook
+ * @description Registers a webhook endpoint for transaction lifecycle events.
+ * 1. Validates `url` (http or https) and the optional `events` (tx.submitted, tx.confirmed, tx.failed,
+ *    tx.rolled_back; all by default).
+ * 2. With a `course`, the webhook receives the events of every job of that course (the credential must be
+ *    allowed on it); without one, the events of the jobs requested with the same credential.
+ * 3. Responds with `201` and the webhook. Its `secret`, used to sign deliveries, is only returned here.
+ *
+ * @param {Request} request - Express request with `url`, optional `events` and `course` in the body.
+ * @param {Response} response - Express response returning the webhook.
+ */
+export const createWebhook = async function (request: Request, response: Response) {
+    try {
+        const { url, events, course } = request.body
+        let protocol: string | undefined
+        try {
+            protocol = new URL(String(url)).protocol
+        } catch {
+            protocol = undefined
+        }
+        if (!url || (protocol !== 'http:' && protocol !== 'https:')) {
+            return response.status(400).json({
+                error: 'Missing or invalid field: url (http or https)',
+                status: 400
+            })
+        }
+        const unknown = Array.isArray(events) ? events.filter((event) => !WEBHOOK_EVENTS.includes(event)) : []
+        if (events != null && (!Array.isArray(events) || events.length === 0 || unknown.length > 0)) {
+            return response.status(400).json({
+                error: 'Invalid events',
+                details:
+                    unknown.length > 0
+                        ? `Unknown events: ${unknown.join(', ')}`
+                        : `events must be a non-empty array of ${WEBHOOK_EVENTS.join(', ')}`,
+                status: 400
+            })
+        }
+
+        const webhook = webhooks.register(String(url), callerOf(response)!, {
+            events: events as WebhookEvent[] | undefined,
+            course: course != null ? String(course) : null
+        })
+        return response.status(201).json({
+            message: 'Webhook registered',
+            data: { ...serializeWebhook(webhook), secret: webhook.secret },
+            status: 201
+        })
+    } catch (error) {
+        return response.status(500).json({
+            error: 'Failed to register webhook',
+            details: (error as Error).message || 'Unknown error',
+            status: 500
+        })
+    }
+}
+
+/**
+ * @function listWebhooks
+ * @description Lists the webhooks registered with the caller's credential (every webhook for the admin key).
+ */
+export const listWebhooks = async function (request: Request, response: Response) {
+    return response.status(200).json({
+        message: 'Webhooks found',
+        data: ownWebhooks(response).map(serializeWebhook),
+        status: 200
+    })
+}
+
+/**
+ * @function deleteWebhook
+ * @description Deletes one of the caller's webhooks by the `id` route parameter; its pending deliveries end up dead.
+ */
+export const deleteWebhook = async function (request: Request, response: Response) {
+    const webhook = ownWebhooks(response).find((webhook) => webhook.id === request.params.id)
+    if (!webhook) {
+        return response.status(404).json({
+            error: 'Webhook not found',
+            status: 404
+        })
+    }
+    webhooks.remove(webhook.id)
+    return response.status(200).json({
+        message: 'Webhook deleted',
+        data: serializeWebhook(webhook),
+        status: 200
+    })
+}
+
+/**
+ * @function deliveries
+ * @description Lists the deliveries of the caller's webhooks, newest first.
+ * Filters by the optional `webhook_id` and `status` (pending, delivered, dead) query parameters;
+ * `status=dead` is the dead-letter list.
+ *
+ * @param {Request} request - Express request with the filters in the query string.
+ * @param {Response} response - Express response returning the deliveries.
+ */
+export const deliveries = async function (request: Request, response: Response) {
+    const query = request.query as Record<string, string | undefined>
+    if (query.status && !['pending', 'delivered', 'dead'].includes(query.status)) {
+        return response.status(400).json({
+            error: 'Invalid status',
+            details: 'status must be one of pending, delivered, dead',
+            status: 400
+        })
+    }
+    const ids = ownWebhooks(response)
+        .map((webhook) => webhook.id)
+        .filter((id) => !query.webhook_id || id === query.webhook_id)
+    return response.status(200).json({
+        message: 'Webhook deliveries found',
+        data: webhooks
+            .history({ webhookIds: ids, status: query.status as WebhookDeliveryStatus | undefined })
+            .map(serializeDelivery),
+        status: 200
+    })
+}
+
+/**
+ * @function replayDelivery
+ * @description Sends a delivery of one of the caller's webhooks again.
+ * 1. Looks up the delivery by the `id` route parameter; `404` if missing, `409` while it is still pending.
+ * 2. Resets its attempts and delivers it again in the background; responds with the pending delivery.
+ *
+ * @param {Request} request - Express request with the delivery id in `params.id`.
+ * @param {Response} response - Express response returning the delivery.
+ */
+export const replayDelivery = async function (request: Request, response: Response) {
+    const found = webhooks.delivery(String(request.params.id))
+    if (!found || !ownWebhooks(response).some((webhook) => webhook.id === found.webhookId)) {
+        return response.status(404).json({
+            error: 'Webhook delivery not found',
+            status: 404
+        })
+    }
+    if (found.status === 'pending') {
+        return response.status(409).json({
+            error: 'Webhook delivery is still pending',
+            details: `Next attempt at ${found.nextAttemptAt}`,
+            status: 409
+        })
+    }
+    return response.status(202).json({
+        message: 'Webhook delivery replayed',
+        data: serializeDelivery(webhooks.replay(found.id)!),
+        status: 202
+    })
+}
@@ -1,8 +1,14 @@
 import express from 'express'
 import cors from 'cors'
+import { exportMetrics, health } from './controllers/health.controller.js'
+import { requestContext } from './middlewares/request.middleware.js'
 import router from './routers/index.route.js'
+import { jobQueue } from './services/job.service.js'
+import { webhooks } from './services/webhook.service.js'
+import { logger } from './utils/logger.util.js'
 const app = express()
 
+app.use(requestContext)
 app.use(cors())
 app.use(express.json())
 
@@ -10,19 +16,15 @@ app.get('/', (req, res) => {
     res.json({ message: 'Hello from Express on Vercel!' })
 })
 
-app.get('/health', (req, res) => {
-    res.status(200).json({
-        status: 'ok',
-        timestamp: new Date().toISOString(),
-        uptime: process.uptime(),
-        service: 'contract-service'
-    })
-})
+app.get('/health', health)
+app.get('/metrics', exportMetrics)
 router(app)
+jobQueue.resume()
+webhooks.resume()
 
 const PORT = Number(process.env.PORT || 3001)
 app.listen(PORT, function () {
-    console.log(`http://localhost:${PORT}`)
+    logger.info('Server listening', { url: `http://localhost:${PORT}` })
 })
 
 export default app
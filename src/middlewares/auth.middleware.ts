@@ -0,0 +1,82 @@
+import { NextFunction, Request, Response } from 'express'
+import { apiKeys, ApiKeys } from '../services/auth.service.js'
+import { jobQueue } from '../services/job.service.js'
+import { AuthScope, Credential, JobType } from '../types/index.js'
+
+const jobScopes: Record<JobType, AuthScope> = {
+    mint: 'mint',
+    'batch-mint': 'mint',
+    update: 'update',
+    burn: 'burn'
+}
+
+/**
+ * @function createAuthenticate
+ * @description
+ * Builds an Express middleware that requires a credential on every request.
+ * 1. Reads the token from `Authorization: Bearer <token>` or the `X-API-Key` header.
+ * 2. Resolves it to an API key, a signed JWT or the bootstrap admin key (see {@link ApiKeys.authenticate}).
+ * 3. Stores the credential in `response.locals.credential`, or answers `401` when it is missing or invalid.
+ *
+ * @param {ApiKeys} [keys] - Where API keys are looked up.
+ * @returns Express middleware.
+ */
+export const createAuthenticate = function (keys: ApiKeys = apiKeys) {
+    return function (request: Request, response: Response, next: NextFunction) {
+        const header = request.get('Authorization')
+        const token = header?.startsWith('Bearer ') ? header.slice(7).trim() : request.get('X-API-Key')
+        const credential = token ? keys.authenticate(token) : undefined
+        if (!credential) {
+            response.set('WWW-Authenticate', 'Bearer')
+            return response.status(401).json({
+                error: 'Unauthorized',
+                details: token ? 'Invalid, expired or revoked credential' : 'Missing API key or bearer token',
+                status: 401
+            })
+        }
+        response.locals.credential = credential
+        next()
+    }
+}
+
+/**
+ * @function authorize
+ * @description
+ * Builds an Express middleware checking that the authenticated credential may perform an operation.
+ * 1. The credential must carry `scope`. With `'job'`, the scope follows the job referenced by
+ *    `params.id` or `body.job_id` (`mint` for mints and batch mints, `update`, `burn`).
+ * 2. When the credential has a course allow-list, the course of the request (the referenced job's,
+ *    `params.course`, `query.course` or `body.course`, read in the order the controllers read them)
+ *    must be on it.
+ * Answers `403` otherwise.
+ *
+ * @param {AuthScope | 'job'} scope - The required scope.
+ * @returns Express middleware.
+ */
+export const authorize = function (scope: AuthScope | 'job') {
+    return function (request: Request, response: Response, next: NextFunction) {
+        const credential = response.locals.credential as Credential
+        const jobId = request.params.id ?? request.body?.job_id
+        const job = jobId ? jobQueue.get(String(jobId)) : undefined
+        const required = scope === 'job' ? (job ? jobScopes[job.type] : undefined) : scope
+        if (required && !credential.scopes.includes(required)) {
+            return response.status(403).json({
+                error: 'Forbidden',
+                details: `Credential is missing the ${required} scope`,
+                status: 403
+            })
+        }
+
+        const course = job?.course ?? request.params.course ?? request.query?.course ?? request.body?.course
+        if (credential.courses && course !== undefined && !credential.courses.includes(String(course))) {
+            return response.status(403).json({
+                error: 'Forbidden',
+                details: `Credential is not allowed for course ${course}`,
+                status: 403
+            })
+        }
+        next()
+    }
+}
+
+export const authenticate = createAuthenticate()
@@ -0,0 +1,106 @@
+import { createHash } from 'crypto'
+import { NextFunction, Request, Response } from 'express'
+import { serializeJob } from '../controllers/job.controller.js'
+import { jobQueue } from '../services/job.service.js'
+import { JsonStore } from '../stores/json.store.js'
+import { Credential, IdempotencyRecord } from '../types/index.js'
+
+const IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000
+
+/**
+ * How often expired keys are deleted, at most.
+ */
+const PRUNE_INTERVAL = 60 * 60 * 1000
+
+/**
+ * @function canonicalize
+ * @description Serializes a JSON value with object keys sorted, so equal payloads hash equally.
+ */
+const canonicalize = function (value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`)
+            .join(',')}}`
+    }
+    return JSON.stringify(value ?? null)
+}
+
+/**
+ * @function createIdempotency
+ * @description
+ * Builds an Express middleware honouring the `Idempotency-Key` request header.
+ * 1. Requests without the header pass through untouched. Keys are scoped to the authenticated
+ *    credential, so two clients never see each other's responses.
+ * 2. The first request with a key is recorded (method, path and body hash) before the handler runs,
+ *    and its response is stored once sent. Server errors (5xx) and responses that never complete
+ *    release the key so it can be retried.
+ * 3. A repeat with the same key and payload replays the original response; when that response
+ *    refers to a job, the job is refreshed so the client sees its current status.
+ * 4. A repeat while the first request is still running gets `409`, and a key reused with a
+ *    different payload gets `422`.
+ * 5. Expired keys are deleted at most once an hour, by the next request carrying a key.
+ *
+ * @param {JsonStore<IdempotencyRecord>} [store] - Where keys and responses are persisted.
+ * @returns Express middleware.
+ */
+export const createIdempotency = function (
+    store: JsonStore<IdempotencyRecord> = new JsonStore<IdempotencyRecord>('idempotency')
+) {
+    let pruned = 0
+    return function (request: Request, response: Response, next: NextFunction) {
+        const header = request.get('Idempotency-Key')
+        if (!header) return next()
+        if (Date.now() - pruned >= PRUNE_INTERVAL) {
+            pruned = Date.now()
+            store
+                .values((record) => pruned - Date.parse(record.createdAt) >= IDEMPOTENCY_TTL)
+                .forEach((record) => store.delete(record.key))
+        }
+        const credential = response.locals?.credential as Credential | undefined
+        const key = credential ? `${credential.id}:${header}` : header
+
+        const requestHash = createHash('sha256')
+            .update(`${request.method} ${request.baseUrl}${request.path} ${canonicalize(request.body)}`)
+            .digest('hex')
+        const existing = store.get(key)
+
+        if (existing && Date.now() - Date.parse(existing.createdAt) < IDEMPOTENCY_TTL) {
+            if (existing.requestHash !== requestHash) {
+                return response.status(422).json({
+                    error: 'Idempotency-Key has already been used with a different request payload',
+                    status: 422
+                })
+            }
+            if (existing.status === 'in_progress') {
+                return response.status(409).json({
+                    error: 'A request with this Idempotency-Key is still being processed',
+                    status: 409
+                })
+            }
+            const body = existing.response as Record<string, unknown>
+            const job = typeof body?.job_id === 'string' ? jobQueue.get(body.job_id) : undefined
+            response.set('Idempotent-Replayed', 'true')
+            return response.status(existing.statusCode!).json(job ? { ...body, data: serializeJob(job) } : body)
+        }
+
+        store.set(key, { key, requestHash, status: 'in_progress', createdAt: new Date().toISOString() })
+
+        const json = response.json.bind(response)
+        response.json = function (body: unknown) {
+            if (response.statusCode >= 500) {
+                store.delete(key)
+            } else {
+                store.update(key, { status: 'completed', statusCode: response.statusCode, response: body })
+            }
+            return json(body)
+        }
+        response.on('close', function () {
+            if (store.get(key)?.status === 'in_progress') store.delete(key)
+        })
+        next()
+    }
+}
+
+export const idempotency = createIdempotency()
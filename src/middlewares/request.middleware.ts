@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto'
+import { NextFunction, Request, Response } from 'express'
+import { Metrics, metrics } from '../services/metrics.service.js'
+import { Logger, logger } from '../utils/logger.util.js'
+
+/**
+ * @function createRequestContext
+ * @description
+ * Builds an Express middleware giving every request an id and recording how it went.
+ * 1. Reuses the `X-Request-Id` header when it looks like an id, or generates one; echoes it in the response.
+ * 2. Stores the id in `response.locals.requestId` and a logger bound to it in `response.locals.logger`.
+ * 3. Once the response is sent, logs method, path, route, status and duration (bodies are never logged)
+ *    and counts the request in the HTTP metrics, by route pattern rather than raw path.
+ *
+ * @param {Logger} [log] - The logger requests are bound to (the shared one by default).
+ * @param {Metrics} [meters] - Where requests are counted (the shared metrics by default).
+ * @returns Express middleware.
+ */
+export const createRequestContext = function (log: Logger = logger, meters: Metrics = metrics) {
+    return function (request: Request, response: Response, next: NextFunction) {
+        const header = request.get('X-Request-Id')
+        const requestId = header && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID()
+        const requestLogger = log.child({ request_id: requestId })
+        response.set('X-Request-Id', requestId)
+        response.locals.requestId = requestId
+        response.locals.logger = requestLogger
+
+        const start = performance.now()
+        response.on('finish', function () {
+            const seconds = (performance.now() - start) / 1000
+            const route = request.route ? `${request.baseUrl}${request.route.path}` : 'unmatched'
+            const status = response.statusCode
+            meters.requests.inc({ method: request.method, route, status: String(status) })
+            meters.requestDuration.observe({ method: request.method, route }, seconds)
+            requestLogger[status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info']('Request completed', {
+                method: request.method,
+                path: request.originalUrl.split('?')[0],
+                route,
+                status,
+                duration_ms: Math.round(seconds * 1000)
+            })
+        })
+        next()
+    }
+}
+
+export const requestContext = createRequestContext()
+
+/**
+ * @function loggerOf
+ * @description The logger bound to the request being answered, or the shared one outside a request.
+ */
+export const loggerOf = function (response: Response): Logger {
+    return (response.locals?.logger as Logger | undefined) ?? logger
+}
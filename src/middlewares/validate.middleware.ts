@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from 'express'
+import { RouteSchema, validate } from '../utils/schema.util.js'
+
+/**
+ * @function validateRequest
+ * @description
+ * Builds an Express middleware checking a request against the schema of its route
+ * (see {@link contractRoutes}) before it reaches the controller.
+ * 1. Checks the path parameters, the query and the JSON body (a missing body counts as empty).
+ * 2. Answers `400` with every problem as `{ field, message }` in `details`, fields prefixed with
+ *    `params.`, `query.` or `body.`; otherwise passes the request on unchanged.
+ *
+ * @param {RouteSchema} route - The route the middleware guards.
+ * @returns Express middleware.
+ */
+export const validateRequest = function (route: RouteSchema) {
+    return function (request: Request, response: Response, next: NextFunction) {
+        const errors = [
+            ...(route.params ? validate(route.params, { ...request.params }, 'params') : []),
+            ...(route.query ? validate(route.query, { ...request.query }, 'query') : []),
+            ...(route.body ? validate(route.body, request.body ?? {}, 'body') : [])
+        ]
+        if (errors.length > 0) {
+            return response.status(400).json({
+                error: 'Invalid request',
+                details: errors,
+                status: 400
+            })
+        }
+        next()
+    }
+}
@@ -0,0 +1,451 @@
+import {
+    AccountInfo,
+    Action,
+    Asset,
+    AssetMetadata,
+    BlockInfo,
+    cst,
+    DEFAULT_PROTOCOL_PARAMETERS,
+    GovernanceProposalInfo,
+    IEvaluator,
+    IFetcher,
+    IListener,
+    ISubmitter,
+    Protocol,
+    RedeemerTagType,
+    resolveTxHash,
+    TransactionInfo,
+    UTxO
+} from '@meshsdk/core'
+
+type EmulatedBlock = {
+    hash: string
+    height: number
+    slot: number
+    time: number
+    txHashes: string[]
+    fees: bigint
+    spent: UTxO[]
+}
+
+const REDEEMER_TAGS: RedeemerTagType[] = ['SPEND', 'MINT', 'CERT', 'REWARD', 'VOTE', 'PROPOSE']
+
+/**
+ * @class EmulatorProvider
+ * @description
+ * In-process emulated ledger used to exercise transaction builders offline (tests, local demos).
+ * It keeps a UTxO set in memory and implements the Mesh fetcher, submitter, listener and evaluator
+ * interfaces on top of it:
+ * - `submitTx` applies phase-1 style checks (inputs exist and are unspent, collateral and
+ *   reference inputs exist, value is preserved, required signers have signed, TTL not passed),
+ *   then spends the inputs, creates the outputs and seals them in a new block.
+ * - `evaluateTx` bypasses Plutus evaluation and returns a fixed budget per redeemer.
+ * - `onTxConfirmed` fires once the transaction is in a block, which happens on submit.
+ *
+ * Tests can also drive what a real network does to transactions after submission: `drop` makes the
+ * next submissions vanish from the mempool, `hold` keeps them in the mempool until the next block,
+ * `rollback` abandons the last blocks and `awaitBlocks` buries transactions under new blocks.
+ */
+export class EmulatorProvider implements IFetcher, ISubmitter, IListener, IEvaluator {
+    private readonly utxos = new Map<string, UTxO>()
+    private readonly outputs = new Map<string, UTxO[]>()
+    private readonly transactions = new Map<string, TransactionInfo>()
+    private readonly blocks: EmulatedBlock[] = []
+    private readonly listeners = new Map<string, (() => void)[]>()
+    private readonly protocolParameters: Protocol
+    private readonly budget: { mem: number; steps: number }
+    private readonly mempool: { tx: string; txHash: string; inputs: string[] }[] = []
+    private genesisCount = 0
+    private drops = 0
+    private holds = 0
+    public slot = 0
+
+    /**
+     * @constructor
+     * @param {Object} [params]
+     * @param {UTxO[]} [params.utxos] - Initial UTxO set.
+     * @param {Protocol} [params.protocolParameters] - Protocol parameters served to builders.
+     * @param {{ mem: number, steps: number }} [params.budget] - Budget returned for every redeemer.
+     */
+    constructor({
+        utxos = [],
+        protocolParameters = DEFAULT_PROTOCOL_PARAMETERS,
+        budget = { mem: 1_000_000, steps: 500_000_000 }
+    }: {
+        utxos?: UTxO[]
+        protocolParameters?: Protocol
+        budget?: { mem: number; steps: number }
+    } = {}) {
+        this.protocolParameters = protocolParameters
+        this.budget = budget
+        utxos.forEach((utxo) => this.utxos.set(this.ref(utxo.input.txHash, utxo.input.outputIndex), utxo))
+    }
+
+    /**
+     * @method addUtxo
+     * @description
+     * Credits an address with a genesis output that does not come from any transaction.
+     *
+     * @param {string} address - Bech32 address receiving the output.
+     * @param {Asset[]} amount - Value of the output.
+     * @param {Partial<UTxO['output']>} [extra] - Optional datum or script reference fields.
+     * @returns {UTxO} The created UTxO.
+     */
+    public addUtxo = (address: string, amount: Asset[], extra: Partial<UTxO['output']> = {}): UTxO => {
+        this.genesisCount += 1
+        const utxo: UTxO = {
+            input: { txHash: this.genesisCount.toString(16).padStart(64, '0'), outputIndex: 0 },
+            output: { ...extra, address, amount }
+        }
+        this.utxos.set(this.ref(utxo.input.txHash, 0), utxo)
+        this.outputs.set(utxo.input.txHash, [utxo])
+        return utxo
+    }
+
+    /**
+     * @method getUtxos
+     * @description Returns a snapshot of the whole unspent output set.
+     */
+    public getUtxos = (): UTxO[] => {
+        return Array.from(this.utxos.values())
+    }
+
+    /**
+     * @method awaitSlot
+     * @description Advances the emulated clock by `slots` without producing transactions.
+     */
+    public awaitSlot = (slots = 1) => {
+        this.slot += slots
+    }
+
+    /**
+     * @method awaitBlocks
+     * @description
+     * Produces `count` blocks, adding a confirmation to every transaction. The first one holds the
+     * transactions waiting in the mempool (see {@link hold}); the others are empty.
+     */
+    public awaitBlocks = (count = 1) => {
+        this.mempool.splice(0).forEach(({ tx }) => this.apply(tx))
+        for (let index = 0; index < count; index++) this.nextBlock([], 0n, [])
+    }
+
+    /**
+     * @method hold
+     * @description
+     * The next `count` submitted transactions are accepted but wait in the mempool until the next
+     * `awaitBlocks`. Meanwhile, another transaction spending their inputs, or the same one submitted
+     * again, is rejected with `BadInputsUTxO` as a node does.
+     */
+    public hold = (count = 1) => {
+        this.holds += count
+    }
+
+    /**
+     * @method drop
+     * @description The next `count` submitted transactions are accepted, then evicted from the mempool unapplied.
+     */
+    public drop = (count = 1) => {
+        this.drops += count
+    }
+
+    /**
+     * @method rollback
+     * @description
+     * Abandons the last `count` blocks: their transactions are forgotten, their outputs removed and
+     * the outputs they spent restored. Nothing is resubmitted.
+     */
+    public rollback = (count = 1) => {
+        this.blocks
+            .splice(-count)
+            .reverse()
+            .forEach((block) => {
+                block.txHashes.forEach((txHash) => {
+                    this.outputs
+                        .get(txHash)
+                        ?.forEach((utxo) => this.utxos.delete(this.ref(txHash, utxo.input.outputIndex)))
+                    this.outputs.delete(txHash)
+                    this.transactions.delete(txHash)
+                })
+                block.spent.forEach((utxo) => this.utxos.set(this.ref(utxo.input.txHash, utxo.input.outputIndex), utxo))
+            })
+    }
+
+    async fetchAddressUTxOs(address: string, asset?: string): Promise<UTxO[]> {
+        return this.getUtxos().filter(
+            (utxo) =>
+                utxo.output.address === address &&
+                (!asset || utxo.output.amount.some((amount) => amount.unit === asset && BigInt(amount.quantity) > 0n))
+        )
+    }
+
+    async fetchUTxOs(hash: string, index?: number): Promise<UTxO[]> {
+        const utxos = this.outputs.get(hash) ?? []
+        return index === undefined ? utxos : utxos.filter((utxo) => utxo.input.outputIndex === index)
+    }
+
+    async fetchAssetAddresses(asset: string): Promise<{ address: string; quantity: string }[]> {
+        const holders = new Map<string, bigint>()
+        this.getUtxos().forEach((utxo) => {
+            utxo.output.amount
+                .filter((amount) => amount.unit === asset)
+                .forEach((amount) => {
+                    holders.set(utxo.output.address, (holders.get(utxo.output.address) ?? 0n) + BigInt(amount.quantity))
+                })
+        })
+        return Array.from(holders, ([address, quantity]) => ({ address, quantity: quantity.toString() }))
+    }
+
+    async fetchCollectionAssets(policyId: string): Promise<{ assets: Asset[]; next?: string | number | null }> {
+        const assets = this.sumAssets(this.getUtxos().flatMap((utxo) => utxo.output.amount)).filter(
+            (asset) => asset.unit.startsWith(policyId) && asset.unit !== 'lovelace'
+        )
+        return { assets, next: null }
+    }
+
+    async fetchTxInfo(hash: string): Promise<TransactionInfo> {
+        const transaction = this.transactions.get(hash)
+        if (!transaction) throw new Error(`Transaction ${hash} not found.`)
+        return transaction
+    }
+
+    async fetchBlockInfo(hash: string): Promise<BlockInfo> {
+        const block = this.blocks.find((block) => block.hash === hash)
+        if (!block) throw new Error(`Block ${hash} not found.`)
+        return {
+            time: block.time,
+            hash: block.hash,
+            slot: String(block.slot),
+            epoch: 0,
+            epochSlot: String(block.slot),
+            slotLeader: '',
+            size: 0,
+            txCount: block.txHashes.length,
+            output: '',
+            fees: block.fees.toString(),
+            previousBlock: this.blocks[block.height - 1]?.hash ?? '',
+            nextBlock: this.blocks[block.height + 1]?.hash ?? '',
+            confirmations: this.blocks.length - block.height,
+            operationalCertificate: '',
+            VRFKey: ''
+        }
+    }
+
+    async fetchProtocolParameters(): Promise<Protocol> {
+        return this.protocolParameters
+    }
+
+    async fetchAccountInfo(): Promise<AccountInfo> {
+        return { active: false, balance: '0', rewards: '0', withdrawals: '0' }
+    }
+
+    async fetchAssetMetadata(): Promise<AssetMetadata> {
+        throw new Error('fetchAssetMetadata is not supported by the emulator.')
+    }
+
+    async fetchGovernanceProposal(): Promise<GovernanceProposalInfo> {
+        throw new Error('fetchGovernanceProposal is not supported by the emulator.')
+    }
+
+    async get(): Promise<never> {
+        throw new Error('get is not supported by the emulator.')
+    }
+
+    /**
+     * @method onTxConfirmed
+     * @description
+     * Fires the callback asynchronously once the transaction is in a block.
+     * Transactions unknown at call time are watched until they are submitted.
+     */
+    onTxConfirmed(txHash: string, callback: () => void): void {
+        if (this.transactions.has(txHash)) {
+            setImmediate(callback)
+            return
+        }
+        this.listeners.set(txHash, [...(this.listeners.get(txHash) ?? []), callback])
+    }
+
+    /**
+     * @method evaluateTx
+     * @description
+     * Script evaluation bypass: every redeemer in the transaction gets the configured budget.
+     */
+    async evaluateTx(tx: string): Promise<Omit<Action, 'data'>[]> {
+        const redeemers = cst.deserializeTx(tx).witnessSet().redeemers()?.values() ?? []
+        return redeemers.map((redeemer) => ({
+            index: Number(redeemer.index()),
+            tag: REDEEMER_TAGS[redeemer.tag()],
+            budget: { ...this.budget }
+        }))
+    }
+
+    /**
+     * @method submitTx
+     * @description
+     * Validates the transaction against the emulated ledger and applies it in a new block.
+     *
+     * @param {string} tx - Signed transaction CBOR in hex.
+     * @returns {Promise<string>} The transaction hash.
+     * @throws Error describing the first ledger rule the transaction violates.
+     */
+    async submitTx(tx: string): Promise<string> {
+        const transaction = cst.deserializeTx(tx)
+        const body = transaction.body()
+        const txHash = resolveTxHash(tx)
+
+        const inputs = body.inputs().values()
+        const pending = new Set(this.mempool.flatMap((held) => held.inputs))
+        const spent = inputs.map((input) => {
+            const ref = this.ref(input.transactionId(), Number(input.index()))
+            const utxo = this.utxos.get(ref)
+            if (!utxo || pending.has(ref)) throw new Error(`BadInputsUTxO: ${input.transactionId()}#${input.index()}`)
+            return utxo
+        })
+        ;[...(body.referenceInputs()?.values() ?? []), ...(body.collateral()?.values() ?? [])].forEach((input) => {
+            if (!this.utxos.has(this.ref(input.transactionId(), Number(input.index())))) {
+                throw new Error(`BadInputsUTxO: ${input.transactionId()}#${input.index()} (reference or collateral)`)
+            }
+        })
+
+        const ttl = body.ttl()
+        if (ttl !== undefined && BigInt(ttl) < BigInt(this.slot)) {
+            throw new Error(`OutsideValidityIntervalUTxO: ttl ${ttl} is before slot ${this.slot}`)
+        }
+
+        const signers = new Set<string>(
+            await Promise.all(
+                (transaction.witnessSet().vkeys()?.values() ?? []).map(async (witness) =>
+                    (await cst.Crypto.Ed25519PublicKey.fromHex(witness.vkey()).hash()).hex()
+                )
+            )
+        )
+        const required: string[] = [
+            ...(body.requiredSigners()?.values() ?? []).map((signer) => signer.value()),
+            ...spent
+                .map((utxo) => cst.deserializeAddress(utxo.output.address).getProps().paymentPart)
+                .filter((credential) => credential?.type === cst.CredentialType.KeyHash)
+                .map((credential) => credential!.hash)
+        ]
+        const missing = required.find((hash) => !signers.has(hash))
+        if (missing) throw new Error(`MissingVKeyWitnessesUTXOW: ${missing}`)
+
+        const outputs: UTxO[] = body
+            .outputs()
+            .map((output, index) =>
+                cst.fromTxUnspentOutput(
+                    new cst.TransactionUnspentOutput(
+                        new cst.TransactionInput(cst.TransactionId(txHash), BigInt(index)),
+                        output
+                    )
+                )
+            )
+        const minted: Asset[] = Array.from(body.mint()?.entries() ?? []).map(([unit, quantity]) => ({
+            unit: unit,
+            quantity: quantity.toString()
+        }))
+        const fee = body.fee()
+        const consumed = this.sumAssets([...spent.flatMap((utxo) => utxo.output.amount), ...minted])
+        const produced = this.sumAssets([
+            ...outputs.flatMap((utxo) => utxo.output.amount),
+            { unit: 'lovelace', quantity: fee.toString() }
+        ])
+        if (!this.sameValue(consumed, produced)) {
+            throw new Error(
+                `ValueNotConservedUTxO: consumed ${JSON.stringify(consumed)}, produced ${JSON.stringify(produced)}`
+            )
+        }
+
+        if (this.drops > 0) {
+            this.drops -= 1
+            return txHash
+        }
+        if (this.holds > 0) {
+            this.holds -= 1
+            this.mempool.push({
+                tx,
+                txHash,
+                inputs: inputs.map((input) => this.ref(input.transactionId(), Number(input.index())))
+            })
+            return txHash
+        }
+
+        this.apply(tx)
+        return txHash
+    }
+
+    /**
+     * Applies an accepted transaction to the ledger in a new block and notifies its listeners.
+     */
+    private apply = (tx: string) => {
+        const body = cst.deserializeTx(tx).body()
+        const txHash = resolveTxHash(tx)
+        const inputs = body.inputs().values()
+        const spent = inputs.map((input) => this.utxos.get(this.ref(input.transactionId(), Number(input.index())))!)
+        const outputs: UTxO[] = body
+            .outputs()
+            .map((output, index) =>
+                cst.fromTxUnspentOutput(
+                    new cst.TransactionUnspentOutput(
+                        new cst.TransactionInput(cst.TransactionId(txHash), BigInt(index)),
+                        output
+                    )
+                )
+            )
+        const fee = body.fee()
+        const ttl = body.ttl()
+
+        inputs.forEach((input) => this.utxos.delete(this.ref(input.transactionId(), Number(input.index()))))
+        outputs.forEach((utxo) => this.utxos.set(this.ref(txHash, utxo.input.outputIndex), utxo))
+        this.outputs.set(txHash, outputs)
+
+        const block = this.nextBlock([txHash], fee, spent)
+        this.transactions.set(txHash, {
+            index: 0,
+            block: block.hash,
+            hash: txHash,
+            slot: String(block.slot),
+            fees: fee.toString(),
+            size: tx.length / 2,
+            deposit: '0',
+            invalidBefore: body.validityStartInterval()?.toString() ?? '',
+            invalidAfter: ttl?.toString() ?? ''
+        })
+
+        const listeners = this.listeners.get(txHash) ?? []
+        this.listeners.delete(txHash)
+        listeners.forEach((listener) => setImmediate(listener))
+    }
+
+    private nextBlock = (txHashes: string[], fees: bigint, spent: UTxO[]): EmulatedBlock => {
+        this.slot += 1
+        const block: EmulatedBlock = {
+            hash: this.slot.toString(16).padStart(64, 'b'),
+            height: this.blocks.length,
+            slot: this.slot,
+            time: Date.now(),
+            txHashes,
+            fees,
+            spent
+        }
+        this.blocks.push(block)
+        return block
+    }
+
+    private ref = (txHash: string, outputIndex: number) => {
+        return `${txHash}#${outputIndex}`
+    }
+
+    private sumAssets = (assets: Asset[]): Asset[] => {
+        const totals = new Map<string, bigint>()
+        assets.forEach(({ unit, quantity }) => totals.set(unit, (totals.get(unit) ?? 0n) + BigInt(quantity)))
+        return Array.from(totals)
+            .filter(([, quantity]) => quantity !== 0n)
+            .map(([unit, quantity]) => ({ unit, quantity: quantity.toString() }))
+    }
+
+    private sameValue = (left: Asset[], right: Asset[]) => {
+        return (
+            left.length === right.length &&
+            left.every((asset) => right.some((other) => other.unit === asset.unit && other.quantity === asset.quantity))
+        )
+    }
+}
@@ -0,0 +1,156 @@
+import {
+    AccountInfo,
+    Action,
+    Asset,
+    AssetMetadata,
+    BlockInfo,
+    castProtocol,
+    GovernanceProposalInfo,
+    IEvaluator,
+    IFetcher,
+    IListener,
+    ISubmitter,
+    Protocol,
+    TransactionInfo,
+    UTxO
+} from '@meshsdk/core'
+
+/**
+ * @class HttpProvider
+ * @description
+ * Chain provider that talks to a custom HTTP service speaking Mesh's own data shapes.
+ * It is meant for staging stubs and in-house indexers that stand in for Blockfrost.
+ *
+ * Expected routes (relative to the base URL):
+ * - `GET  /addresses/:address/utxos?asset=:unit` → `UTxO[]`
+ * - `GET  /txs/:hash/utxos` → `UTxO[]`
+ * - `GET  /txs/:hash` → `TransactionInfo` (404 until the tx is on-chain)
+ * - `POST /txs` with `{ cbor }` → `{ txHash }`
+ * - `POST /txs/evaluate` with `{ cbor }` → `Omit<Action, 'data'>[]`
+ * - `GET  /protocol-parameters` → `Protocol`
+ * - `GET  /accounts/:address`, `/assets/:unit/addresses`, `/assets/:unit/metadata`,
+ *   `/blocks/:hash`, `/policies/:policyId/assets?cursor=`, `/governance/:txHash/:certIndex`
+ */
+export class HttpProvider implements IFetcher, ISubmitter, IListener, IEvaluator {
+    private readonly baseUrl: string
+    private readonly token: string
+
+    /**
+     * @constructor
+     * @param {string} baseUrl - Base URL of the HTTP service.
+     * @param {string} [token] - Optional bearer token sent with every request.
+     */
+    constructor(baseUrl: string, token = '') {
+        this.baseUrl = baseUrl.replace(/\/+$/, '')
+        this.token = token
+    }
+
+    async fetchAccountInfo(address: string): Promise<AccountInfo> {
+        return this.get<AccountInfo>(`/accounts/${address}`)
+    }
+
+    async fetchAddressUTxOs(address: string, asset?: string): Promise<UTxO[]> {
+        return this.get<UTxO[]>(`/addresses/${address}/utxos` + (asset ? `?asset=${asset}` : ''))
+    }
+
+    async fetchAssetAddresses(asset: string): Promise<{ address: string; quantity: string }[]> {
+        return this.get<{ address: string; quantity: string }[]>(`/assets/${asset}/addresses`)
+    }
+
+    async fetchAssetMetadata(asset: string): Promise<AssetMetadata> {
+        return this.get<AssetMetadata>(`/assets/${asset}/metadata`)
+    }
+
+    async fetchBlockInfo(hash: string): Promise<BlockInfo> {
+        return this.get<BlockInfo>(`/blocks/${hash}`)
+    }
+
+    async fetchCollectionAssets(
+        policyId: string,
+        cursor?: number | string
+    ): Promise<{ assets: Asset[]; next?: string | number | null }> {
+        return this.get<{ assets: Asset[]; next?: string | number | null }>(
+            `/policies/${policyId}/assets` + (cursor !== undefined ? `?cursor=${cursor}` : '')
+        )
+    }
+
+    async fetchProtocolParameters(): Promise<Protocol> {
+        return castProtocol(await this.get<Partial<Protocol>>('/protocol-parameters'))
+    }
+
+    async fetchTxInfo(hash: string): Promise<TransactionInfo> {
+        return this.get<TransactionInfo>(`/txs/${hash}`)
+    }
+
+    async fetchUTxOs(hash: string, index?: number): Promise<UTxO[]> {
+        const utxos = await this.get<UTxO[]>(`/txs/${hash}/utxos`)
+        return index === undefined ? utxos : utxos.filter((utxo) => utxo.input.outputIndex === index)
+    }
+
+    async fetchGovernanceProposal(txHash: string, certIndex: number): Promise<GovernanceProposalInfo> {
+        return this.get<GovernanceProposalInfo>(`/governance/${txHash}/${certIndex}`)
+    }
+
+    /**
+     * @method onTxConfirmed
+     * @description
+     * Polls `GET /txs/:hash` every 5 seconds and fires the callback once the service knows the tx.
+     *
+     * @param {string} txHash - Transaction hash to watch.
+     * @param {() => void} callback - Invoked once when the transaction is confirmed.
+     * @param {number} [limit=100] - Maximum number of failed polls before giving up.
+     */
+    onTxConfirmed(txHash: string, callback: () => void, limit = 100): void {
+        let attempts = 0
+        const checkTx = setInterval(() => {
+            if (attempts >= limit) {
+                clearInterval(checkTx)
+                return
+            }
+            this.fetchTxInfo(txHash)
+                .then(() => {
+                    clearInterval(checkTx)
+                    callback()
+                })
+                .catch(() => {
+                    attempts += 1
+                })
+        }, 5000)
+    }
+
+    async submitTx(tx: string): Promise<string> {
+        const { txHash } = await this.request<{ txHash: string }>('/txs', { cbor: tx })
+        return txHash
+    }
+
+    async evaluateTx(tx: string): Promise<Omit<Action, 'data'>[]> {
+        return this.request('/txs/evaluate', { cbor: tx })
+    }
+
+    /**
+     * @method get
+     * @description Generic GET against the HTTP service, resolving the parsed JSON body.
+     *
+     * @param {string} url - Path relative to the base URL.
+     * @returns {Promise<T>} The body, typed as the route is expected to answer.
+     * @throws Error when the service answers with a non-2xx status.
+     */
+    async get<T>(url: string): Promise<T> {
+        return this.request<T>(url.startsWith('/') ? url : `/${url}`)
+    }
+
+    private request = async <T>(path: string, body?: unknown): Promise<T> => {
+        const response = await fetch(this.baseUrl + path, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+            },
+            body: body === undefined ? undefined : JSON.stringify(body)
+        })
+        if (!response.ok) {
+            throw new Error(`Provider request ${path} failed with status ${response.status}: ${await response.text()}`)
+        }
+        return (await response.json()) as T
+    }
+}
@@ -0,0 +1,63 @@
+import { BlockfrostProvider, KoiosProvider, KoiosSupportedNetworks } from '@meshsdk/core'
+import {
+    APP_NETWORK,
+    APP_PROVIDER,
+    BLOCKFROST_API_KEY,
+    KOIOS_TOKEN,
+    KUPO_URL,
+    OGMIOS_URL,
+    PROVIDER_HTTP_TOKEN,
+    PROVIDER_HTTP_URL
+} from '../constants/enviroments.constant.js'
+import { metrics } from '../services/metrics.service.js'
+import { Provider, ProviderName } from '../types/index.js'
+import { HttpProvider } from './http.provider.js'
+import { OgmiosKupoProvider } from './ogmios.provider.js'
+
+/**
+ * @function createProvider
+ * @description
+ * Builds the chain provider selected by configuration (`APP_PROVIDER`).
+ * - `blockfrost`: hosted Blockfrost using `BLOCKFROST_API_KEY`.
+ * - `koios`: hosted Koios for `APP_NETWORK`, authenticated with `KOIOS_TOKEN`.
+ * - `ogmios`: self-hosted node stack reached through `KUPO_URL` and `OGMIOS_URL`.
+ * - `http`: custom HTTP stand-in at `PROVIDER_HTTP_URL` (see {@link HttpProvider}).
+ *
+ * @param {ProviderName} [name] - Provider to build, defaults to `APP_PROVIDER`.
+ * @returns {Provider} A provider usable as fetcher, submitter and listener.
+ * @throws Error if the provider name is unknown or its required settings are missing.
+ */
+export const createProvider = function (name: ProviderName = APP_PROVIDER): Provider {
+    switch (name) {
+        case 'blockfrost':
+            return new BlockfrostProvider(BLOCKFROST_API_KEY)
+        case 'koios':
+            return new KoiosProvider(
+                (APP_NETWORK === 'mainnet' ? 'api' : APP_NETWORK) as KoiosSupportedNetworks,
+                KOIOS_TOKEN
+            )
+        case 'ogmios':
+            return new OgmiosKupoProvider(KUPO_URL, OGMIOS_URL)
+        case 'http':
+            if (!PROVIDER_HTTP_URL) throw new Error('PROVIDER_HTTP_URL is required for the http provider.')
+            return new HttpProvider(PROVIDER_HTTP_URL, PROVIDER_HTTP_TOKEN)
+        default:
+            throw new Error(`Unknown chain provider: ${name}`)
+    }
+}
+
+let provider: Provider | null = null
+
+/**
+ * @function getProvider
+ * @description
+ * Returns the process-wide chain provider selected by `APP_PROVIDER`, creating it on first use.
+ * Providers hold HTTP clients and listeners, so request handlers share one instead of building their own.
+ * Its calls are timed and their failures counted in the shared {@link Metrics}.
+ *
+ * @returns {Provider} The shared provider.
+ */
+export const getProvider = function (): Provider {
+    if (!provider) provider = metrics.instrument(createProvider())
+    return provider
+}
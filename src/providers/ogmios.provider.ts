@@ -0,0 +1,321 @@
+import {
+    AccountInfo,
+    Action,
+    Asset,
+    AssetMetadata,
+    BlockInfo,
+    castProtocol,
+    GovernanceProposalInfo,
+    IEvaluator,
+    IFetcher,
+    IListener,
+    ISubmitter,
+    Protocol,
+    RedeemerTagType,
+    resolveScriptRef,
+    TransactionInfo,
+    UTxO
+} from '@meshsdk/core'
+
+type KupoMatch = {
+    transaction_index: number
+    transaction_id: string
+    output_index: number
+    address: string
+    value: { coins: number; assets?: Record<string, number> }
+    datum_hash: string | null
+    datum_type?: 'hash' | 'inline'
+    script_hash: string | null
+    created_at: { slot_no: number; header_hash: string }
+    spent_at: { slot_no: number; header_hash: string } | null
+}
+
+type OgmiosBytes = { bytes: number }
+type OgmiosLovelace = { ada: { lovelace: number } }
+type OgmiosBudget = { memory: number; cpu: number }
+type OgmiosProtocolParameters = Partial<{
+    minFeeCoefficient: number
+    minFeeConstant: OgmiosLovelace
+    minFeeReferenceScripts: { base: number }
+    maxBlockBodySize: OgmiosBytes
+    maxBlockHeaderSize: OgmiosBytes
+    maxTransactionSize: OgmiosBytes
+    maxValueSize: OgmiosBytes
+    stakeCredentialDeposit: OgmiosLovelace
+    stakePoolDeposit: OgmiosLovelace
+    minStakePoolCost: OgmiosLovelace
+    minUtxoDepositCoefficient: number
+    scriptExecutionPrices: { memory: string; cpu: string }
+    maxExecutionUnitsPerTransaction: OgmiosBudget
+    maxExecutionUnitsPerBlock: OgmiosBudget
+    collateralPercentage: number
+    maxCollateralInputs: number
+}>
+
+/**
+ * @class OgmiosKupoProvider
+ * @description
+ * Chain provider for a self-hosted node stack:
+ * - Kupo (HTTP) indexes the UTxO set and answers every fetch query.
+ * - Ogmios (HTTP JSON-RPC) submits and evaluates transactions and serves protocol parameters.
+ *
+ * Ogmios is reached over plain HTTP rather than WebSocket so that it works on Node runtimes
+ * without a global `WebSocket`. Queries that Kupo cannot answer (accounts, blocks, governance)
+ * throw a descriptive error.
+ */
+export class OgmiosKupoProvider implements IFetcher, ISubmitter, IListener, IEvaluator {
+    private readonly kupoUrl: string
+    private readonly ogmiosUrl: string
+
+    /**
+     * @constructor
+     * @param {string} kupoUrl - Base URL of the Kupo instance (e.g. `http://localhost:1442`).
+     * @param {string} ogmiosUrl - Base URL of the Ogmios instance (e.g. `http://localhost:1337`).
+     */
+    constructor(kupoUrl: string, ogmiosUrl: string) {
+        this.kupoUrl = kupoUrl.replace(/\/+$/, '')
+        this.ogmiosUrl = ogmiosUrl.replace(/\/+$/, '')
+    }
+
+    /**
+     * @method fetchAddressUTxOs
+     * @description
+     * Lists unspent outputs at an address, optionally restricted to outputs holding `asset`.
+     *
+     * @param {string} address - Bech32 Cardano address.
+     * @param {string} [asset] - Asset unit (policyId + assetName in hex).
+     * @returns {Promise<UTxO[]>} Unspent outputs ordered from oldest to newest.
+     */
+    async fetchAddressUTxOs(address: string, asset?: string): Promise<UTxO[]> {
+        const matches = await this.kupo<KupoMatch[]>(`/matches/${address}?unspent${this.assetQuery(asset)}`)
+        return this.toUTxOs(matches.sort((a, b) => a.created_at.slot_no - b.created_at.slot_no))
+    }
+
+    /**
+     * @method fetchUTxOs
+     * @description
+     * Lists the outputs created by a transaction, optionally a single output by index.
+     *
+     * @param {string} hash - Transaction hash.
+     * @param {number} [index] - Output index.
+     * @returns {Promise<UTxO[]>} Outputs of the transaction.
+     */
+    async fetchUTxOs(hash: string, index?: number): Promise<UTxO[]> {
+        const pattern = index === undefined ? `*@${hash}` : `${index}@${hash}`
+        return this.toUTxOs(await this.kupo<KupoMatch[]>(`/matches/${pattern}`))
+    }
+
+    async fetchAssetAddresses(asset: string): Promise<{ address: string; quantity: string }[]> {
+        const matches = await this.kupo<KupoMatch[]>(`/matches/*?unspent${this.assetQuery(asset)}`)
+        const holders = new Map<string, bigint>()
+        matches.forEach((match) => {
+            const quantity = BigInt(match.value.assets?.[this.kupoUnit(asset)] ?? 0)
+            holders.set(match.address, (holders.get(match.address) ?? 0n) + quantity)
+        })
+        return Array.from(holders, ([address, quantity]) => ({ address, quantity: quantity.toString() }))
+    }
+
+    async fetchCollectionAssets(policyId: string): Promise<{ assets: Asset[]; next?: string | number | null }> {
+        const matches = await this.kupo<KupoMatch[]>(`/matches/*?unspent&policy_id=${policyId}`)
+        const assets = new Map<string, bigint>()
+        matches.forEach((match) => {
+            Object.entries(match.value.assets ?? {}).forEach(([unit, quantity]) => {
+                if (!unit.startsWith(policyId)) return
+                const key = unit.replace('.', '')
+                assets.set(key, (assets.get(key) ?? 0n) + BigInt(quantity))
+            })
+        })
+        return {
+            assets: Array.from(assets, ([unit, quantity]) => ({ unit, quantity: quantity.toString() })),
+            next: null
+        }
+    }
+
+    /**
+     * @method fetchTxInfo
+     * @description
+     * Resolves minimal transaction information from the outputs Kupo indexed for it.
+     * Kupo does not index fees or validity intervals, so those fields are left empty.
+     *
+     * @param {string} hash - Transaction hash.
+     * @throws Error if Kupo has not seen the transaction (yet).
+     */
+    async fetchTxInfo(hash: string): Promise<TransactionInfo> {
+        const [match] = await this.kupo<KupoMatch[]>(`/matches/*@${hash}`)
+        if (!match) throw new Error(`Transaction ${hash} not found.`)
+        return {
+            index: match.transaction_index,
+            block: match.created_at.header_hash,
+            hash,
+            slot: String(match.created_at.slot_no),
+            fees: '',
+            size: 0,
+            deposit: '',
+            invalidBefore: '',
+            invalidAfter: ''
+        }
+    }
+
+    async fetchProtocolParameters(): Promise<Protocol> {
+        const params = await this.ogmios<OgmiosProtocolParameters>('queryLedgerState/protocolParameters')
+        return castProtocol({
+            minFeeA: params.minFeeCoefficient,
+            minFeeB: params.minFeeConstant?.ada?.lovelace,
+            maxBlockSize: params.maxBlockBodySize?.bytes,
+            maxTxSize: params.maxTransactionSize?.bytes,
+            maxBlockHeaderSize: params.maxBlockHeaderSize?.bytes,
+            keyDeposit: params.stakeCredentialDeposit?.ada?.lovelace,
+            poolDeposit: params.stakePoolDeposit?.ada?.lovelace,
+            minPoolCost: params.minStakePoolCost?.ada?.lovelace,
+            priceMem: this.ratio(params.scriptExecutionPrices?.memory),
+            priceStep: this.ratio(params.scriptExecutionPrices?.cpu),
+            maxTxExMem: params.maxExecutionUnitsPerTransaction?.memory,
+            maxTxExSteps: params.maxExecutionUnitsPerTransaction?.cpu,
+            maxBlockExMem: params.maxExecutionUnitsPerBlock?.memory,
+            maxBlockExSteps: params.maxExecutionUnitsPerBlock?.cpu,
+            maxValSize: params.maxValueSize?.bytes,
+            collateralPercent: params.collateralPercentage,
+            maxCollateralInputs: params.maxCollateralInputs,
+            coinsPerUtxoSize: params.minUtxoDepositCoefficient,
+            minFeeRefScriptCostPerByte: params.minFeeReferenceScripts?.base
+        })
+    }
+
+    /**
+     * @method onTxConfirmed
+     * @description
+     * Polls Kupo every 5 seconds until an output of the transaction has been indexed,
+     * which means the transaction made it into a block.
+     *
+     * @param {string} txHash - Transaction hash to watch.
+     * @param {() => void} callback - Invoked once when the transaction is seen on-chain.
+     * @param {number} [limit=100] - Maximum number of failed polls before giving up.
+     */
+    onTxConfirmed(txHash: string, callback: () => void, limit = 100): void {
+        let attempts = 0
+        const checkTx = setInterval(() => {
+            if (attempts >= limit) {
+                clearInterval(checkTx)
+                return
+            }
+            this.fetchTxInfo(txHash)
+                .then(() => {
+                    clearInterval(checkTx)
+                    callback()
+                })
+                .catch(() => {
+                    attempts += 1
+                })
+        }, 5000)
+    }
+
+    async submitTx(tx: string): Promise<string> {
+        const result = await this.ogmios<{ transaction: { id: string } }>('submitTransaction', {
+            transaction: { cbor: tx }
+        })
+        return result.transaction.id
+    }
+
+    async evaluateTx(tx: string): Promise<Omit<Action, 'data'>[]> {
+        const result = await this.ogmios<{ validator: { index: number; purpose: string }; budget: OgmiosBudget }[]>(
+            'evaluateTransaction',
+            { transaction: { cbor: tx } }
+        )
+        return result.map(({ validator, budget }) => ({
+            index: validator.index,
+            tag: validator.purpose.toUpperCase() as RedeemerTagType,
+            budget: { mem: budget.memory, steps: budget.cpu }
+        }))
+    }
+
+    async fetchAccountInfo(): Promise<AccountInfo> {
+        throw new Error('fetchAccountInfo is not supported by the Ogmios/Kupo provider.')
+    }
+
+    async fetchAssetMetadata(): Promise<AssetMetadata> {
+        throw new Error('fetchAssetMetadata is not supported by the Ogmios/Kupo provider.')
+    }
+
+    async fetchBlockInfo(): Promise<BlockInfo> {
+        throw new Error('fetchBlockInfo is not supported by the Ogmios/Kupo provider.')
+    }
+
+    async fetchGovernanceProposal(): Promise<GovernanceProposalInfo> {
+        throw new Error('fetchGovernanceProposal is not supported by the Ogmios/Kupo provider.')
+    }
+
+    async get(url: string) {
+        return this.kupo(url.startsWith('/') ? url : `/${url}`)
+    }
+
+    private kupo = async <T>(path: string): Promise<T> => {
+        const response = await fetch(this.kupoUrl + path)
+        if (!response.ok) {
+            throw new Error(`Kupo request ${path} failed with status ${response.status}: ${await response.text()}`)
+        }
+        return (await response.json()) as T
+    }
+
+    private ogmios = async <T>(method: string, params?: unknown): Promise<T> => {
+        const response = await fetch(this.ogmiosUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', method, params })
+        })
+        const body = await response.json()
+        if (body.error) {
+            throw new Error(`Ogmios ${method} failed: ${body.error.message ?? JSON.stringify(body.error)}`)
+        }
+        return body.result as T
+    }
+
+    private toUTxOs = async (matches: KupoMatch[]): Promise<UTxO[]> => {
+        return Promise.all(
+            matches.map(async (match) => {
+                const amount: Asset[] = [{ unit: 'lovelace', quantity: String(match.value.coins) }]
+                Object.entries(match.value.assets ?? {}).forEach(([unit, quantity]) => {
+                    amount.push({ unit: unit.replace('.', ''), quantity: String(quantity) })
+                })
+                const plutusData =
+                    match.datum_type === 'inline' && match.datum_hash
+                        ? (await this.kupo<{ datum: string } | null>(`/datums/${match.datum_hash}`))?.datum
+                        : undefined
+                return {
+                    input: { txHash: match.transaction_id, outputIndex: match.output_index },
+                    output: {
+                        address: match.address,
+                        amount,
+                        dataHash: match.datum_hash ?? undefined,
+                        plutusData,
+                        scriptRef: match.script_hash ? await this.resolveScript(match.script_hash) : undefined,
+                        scriptHash: match.script_hash ?? undefined
+                    }
+                }
+            })
+        )
+    }
+
+    private resolveScript = async (scriptHash: string): Promise<string | undefined> => {
+        const script = await this.kupo<{ language: string; script: string } | null>(`/scripts/${scriptHash}`)
+        const version = { 'plutus:v1': 'V1', 'plutus:v2': 'V2', 'plutus:v3': 'V3' }[script?.language ?? '']
+        if (!script || !version) return undefined
+        return resolveScriptRef({ code: script.script, version: version as 'V1' | 'V2' | 'V3' })
+    }
+
+    private assetQuery = (asset?: string) => {
+        if (!asset || asset === 'lovelace') return ''
+        const policyId = asset.slice(0, 56)
+        const assetName = asset.slice(56)
+        return `&policy_id=${policyId}` + (assetName ? `&asset_name=${assetName}` : '')
+    }
+
+    private kupoUnit = (asset: string) => {
+        return asset.length > 56 ? `${asset.slice(0, 56)}.${asset.slice(56)}` : asset
+    }
+
+    private ratio = (value?: string) => {
+        if (!value) return undefined
+        const [numerator, denominator = '1'] = value.split('/')
+        return Number(numerator) / Number(denominator)
+    }
+}
@@ -0,0 +1,13 @@
+import { Router } from 'express'
+import { createKey, keys, revokeKey, rotateKey } from '../controllers/admin.controller.js'
+import { authenticate, authorize } from '../middlewares/auth.middleware.js'
+
+const router: Router = Router()
+
+router.use(authenticate, authorize('admin'))
+router.get('/keys', keys)
+router.post('/keys', createKey)
+router.post('/keys/:id/rotate', rotateKey)
+router.delete('/keys/:id', revokeKey)
+
+export default router
@@ -0,0 +1,9 @@
+import { Router } from 'express'
+import { audit } from '../controllers/audit.controller.js'
+import { authenticate, authorize } from '../middlewares/auth.middleware.js'
+
+const router: Router = Router()
+
+router.get('/', authenticate, authorize('read'), audit)
+
+export default router
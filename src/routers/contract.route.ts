@@ -1,12 +1,43 @@
 import { Router } from 'express'
-import { mint, batchMint, update, burn, contract } from '../controllers/contract.controller.js'
+import {
+    mint,
+    batchMint,
+    update,
+    burn,
+    submit,
+    contract,
+    asset,
+    assets,
+    scripts,
+    deployScripts
+} from '../controllers/contract.controller.js'
+import { job } from '../controllers/job.controller.js'
+import { saveTemplate, template } from '../controllers/template.controller.js'
+import { authenticate, authorize } from '../middlewares/auth.middleware.js'
+import { idempotency } from '../middlewares/idempotency.middleware.js'
+import { validateRequest } from '../middlewares/validate.middleware.js'
+import { contractRoutes } from '../schemas/contract.schema.js'
 
 const router: Router = Router()
 
-router.post('/mint', mint)
-router.post('/batch-mint', batchMint)
-router.post('/update', update)
-router.post('/burn', burn)
-router.get('/', contract)
+router.use(authenticate)
+router.post('/mint', authorize('mint'), validateRequest(contractRoutes.mint), idempotency, mint)
+router.post('/batch-mint', authorize('mint'), validateRequest(contractRoutes.batchMint), idempotency, batchMint)
+router.post('/update', authorize('update'), validateRequest(contractRoutes.update), idempotency, update)
+router.post('/burn', authorize('burn'), validateRequest(contractRoutes.burn), idempotency, burn)
+router.post('/submit', authorize('job'), validateRequest(contractRoutes.submit), idempotency, submit)
+router.get('/jobs/:id', authorize('read'), validateRequest(contractRoutes.job), job)
+router.get('/:course/template', authorize('read'), validateRequest(contractRoutes.template), template)
+router.put('/:course/template', authorize('admin'), validateRequest(contractRoutes.saveTemplate), saveTemplate)
+router.get('/:course/reference-scripts', authorize('read'), validateRequest(contractRoutes.scripts), scripts)
+router.post(
+    '/:course/reference-scripts',
+    authorize('admin'),
+    validateRequest(contractRoutes.deployScripts),
+    deployScripts
+)
+router.get('/:course/assets', authorize('read'), validateRequest(contractRoutes.assets), assets)
+router.get('/:course/assets/:assetName', authorize('read'), validateRequest(contractRoutes.asset), asset)
+router.get('/', authorize('read'), validateRequest(contractRoutes.contract), contract)
 
 export default router
@@ -0,0 +1,12 @@
+import { Router } from 'express'
+import swaggerUi from 'swagger-ui-express'
+import { openApiDocument } from '../schemas/openapi.schema.js'
+
+const router: Router = Router()
+
+router.get('/openapi.json', (request, response) => {
+    response.json(openApiDocument)
+})
+router.use('/', swaggerUi.serve, swaggerUi.setup(openApiDocument))
+
+export default router
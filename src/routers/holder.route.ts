@@ -0,0 +1,10 @@
+import { Router } from 'express'
+import { certificates } from '../controllers/holder.controller.js'
+import { validateRequest } from '../middlewares/validate.middleware.js'
+import { holderRoutes } from '../schemas/holder.schema.js'
+
+const router: Router = Router()
+
+router.get(holderRoutes.certificates.path, validateRequest(holderRoutes.certificates), certificates)
+
+export default router
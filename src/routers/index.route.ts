@@ -1,6 +1,12 @@
 import { Express } from 'express'
 
+import admin from './admin.route.js'
+import audit from './audit.route.js'
 import contract from './contract.route.js'
+import docs from './docs.route.js'
+import holder from './holder.route.js'
+import verify from './verify.route.js'
+import webhook from './webhook.route.js'
 
 /**
  * @function router
@@ -8,8 +14,15 @@ import contract from './contract.route.js'
  * Registers all API route modules with the provided Express application.
  *
  * This function attaches route handlers to the Express `app` instance.
- * In this case, it maps the `/api/v1/contract` endpoint to the `contract` router,
- * which contains all contract-related API routes and middleware.
+ * It maps the `/api/v1/contract` endpoint to the `contract` router, which contains all
+ * contract-related API routes and middleware (every route requires a credential with the matching scope),
+ * `/api/v1/admin` to the `admin` router, which manages API keys, `/api/v1/audit` to the `audit` router,
+ * which lists the record of every contract operation, `/api/v1/webhooks` to the `webhook` router, which
+ * registers endpoints notified of transaction lifecycle events and replays their deliveries,
+ * `/api/v1/holders` to the `holder` router, which serves read-only lookups by holder address,
+ * `/api/v1/verify` to the `verify` router, which lets third parties check a certificate,
+ * and `/api/v1/docs` to the `docs` router, which serves the OpenAPI document of the contract and holder APIs
+ * (`/api/v1/docs/openapi.json`) and its Swagger UI.
  *
  * @param {Express} app - The main Express application instance used to register routes.
  *
@@ -18,10 +31,16 @@ import contract from './contract.route.js'
  * import router from './routes';
  *
  * const app = express();
- * router(app); // Registers all route modules under /api/v1/contract
+ * router(app); // Registers all route modules under /api/v1
  */
 const router = function (app: Express) {
     app.use('/api/v1/contract', contract)
+    app.use('/api/v1/admin', admin)
+    app.use('/api/v1/audit', audit)
+    app.use('/api/v1/webhooks', webhook)
+    app.use('/api/v1/holders', holder)
+    app.use('/api/v1/verify', verify)
+    app.use('/api/v1/docs', docs)
 }
 
 export default router
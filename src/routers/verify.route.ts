@@ -0,0 +1,8 @@
+import { Router } from 'express'
+import { verify } from '../controllers/verify.controller.js'
+
+const router: Router = Router()
+
+router.post('/', verify)
+
+export default router
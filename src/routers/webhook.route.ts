@@ -0,0 +1,20 @@
+import { Router } from 'express'
+import {
+    createWebhook,
+    deleteWebhook,
+    deliveries,
+    listWebhooks,
+    replayDelivery
+} from '../controllers/webhook.controller.js'
+import { authenticate, authorize } from '../middlewares/auth.middleware.js'
+
+const router: Router = Router()
+
+router.use(authenticate)
+router.get('/', authorize('read'), listWebhooks)
+router.post('/', authorize('admin'), createWebhook)
+router.delete('/:id', authorize('admin'), deleteWebhook)
+router.get('/deliveries', authorize('read'), deliveries)
+router.post('/deliveries/:id/replay', authorize('admin'), replayDelivery)
+
+export default router
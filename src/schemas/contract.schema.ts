@@ -0,0 +1,679 @@
+import { Infer, RouteSchema } from '../utils/schema.util.js'
+
+const course = {
+    type: 'string',
+    minLength: 1,
+    description: 'Course identifier; each course has its own minting policy and store address',
+    example: 'course-101'
+} as const
+
+const assetName = {
+    type: 'string',
+    minLength: 1,
+    description: 'Name of the certificate, without the CIP-68 label',
+    example: 'cert-0001'
+} as const
+
+const quantity = {
+    anyOf: [{ type: 'string', pattern: '^-?[0-9]+$' }, { type: 'integer' }],
+    description: 'Number of tokens, as an integer or a string of digits',
+    example: '1'
+} as const
+
+const metadata = {
+    type: 'object',
+    additionalProperties: true,
+    description:
+        'CIP-68 metadata of the certificate; checked against the course template when there is one. ' +
+        '`_pk` is set to the issuer pubkey hash by the service and cannot be sent',
+    example: { name: 'Alice', course_name: 'Cardano 101' }
+} as const
+
+const nullableString = { type: 'string', nullable: true } as const
+
+const asset = {
+    type: 'object',
+    properties: {
+        unit: { type: 'string' },
+        quantity: { type: 'string' }
+    },
+    required: ['unit', 'quantity']
+} as const
+
+const utxo = {
+    type: 'object',
+    properties: {
+        input: {
+            type: 'object',
+            properties: { txHash: { type: 'string' }, outputIndex: { type: 'integer' } },
+            required: ['txHash', 'outputIndex']
+        },
+        output: {
+            type: 'object',
+            properties: { address: { type: 'string' }, amount: { type: 'array', items: asset } },
+            required: ['address', 'amount'],
+            additionalProperties: true
+        }
+    },
+    required: ['input', 'output'],
+    description: 'A Mesh UTxO'
+} as const
+
+const signer = {
+    type: 'object',
+    properties: {
+        address: { type: 'string', minLength: 1, description: 'Bech32 change address of the wallet' },
+        utxos: {
+            type: 'array',
+            items: { anyOf: [{ type: 'string', minLength: 1 }, utxo] },
+            minItems: 1,
+            description: 'Spendable UTxOs, as CIP-30 CBOR hex or Mesh UTxOs'
+        },
+        collateral: { anyOf: [{ type: 'string', minLength: 1 }, utxo], description: 'Collateral UTxO' }
+    },
+    required: ['address', 'utxos'],
+    description:
+        'External wallet to build the transaction for; it is then returned unsigned, to be signed and sent to /submit'
+} as const
+
+const dryRun = {
+    type: 'object',
+    properties: {
+        dryRun: {
+            type: 'string',
+            enum: ['true', 'false'],
+            description: 'Only estimate the transaction(s): nothing is signed, submitted or queued'
+        }
+    },
+    additionalProperties: true
+} as const
+
+const courseParams = {
+    type: 'object',
+    properties: { course },
+    required: ['course']
+} as const
+
+const fieldError = {
+    type: 'object',
+    properties: { field: { type: 'string' }, message: { type: 'string' } },
+    required: ['field', 'message']
+} as const
+
+const job = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        type: { type: 'string', enum: ['mint', 'batch-mint', 'update', 'burn'] },
+        course: { type: 'string' },
+        status: { type: 'string', enum: ['unsigned', 'queued', 'built', 'submitted', 'confirmed', 'failed'] },
+        asset_names: { type: 'array', items: { type: 'string' } },
+        tx_hash: nullableString,
+        policy_id: nullableString,
+        signer: nullableString,
+        unsigned_tx: { type: 'string', description: 'Unsigned CBOR, while the job waits for an external signature' },
+        error: {
+            type: 'object',
+            properties: {
+                message: { type: 'string' },
+                stage: { type: 'string' },
+                code: { type: 'string', enum: ['timeout', 'expired', 'dropped', 'rolled_back'] }
+            },
+            required: ['message', 'stage'],
+            nullable: true
+        },
+        transactions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    index: { type: 'integer' },
+                    tx_hash: { type: 'string' },
+                    status: { type: 'string', enum: ['built', 'submitted', 'confirmed', 'failed'] },
+                    asset_names: { type: 'array', items: { type: 'string' } },
+                    error: nullableString,
+                    error_code: nullableString
+                },
+                required: ['index', 'tx_hash', 'status', 'asset_names', 'error', 'error_code']
+            },
+            description: 'Transactions of a batch spanning several transactions'
+        },
+        items: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    asset_name: { type: 'string' },
+                    tx_index: { type: 'integer', nullable: true },
+                    tx_hash: nullableString,
+                    status: { type: 'string' },
+                    error: nullableString
+                },
+                required: ['asset_name', 'tx_index', 'tx_hash', 'status', 'error']
+            },
+            description: 'Where each item of such a batch landed'
+        },
+        created_at: { type: 'string', format: 'date-time' },
+        updated_at: { type: 'string', format: 'date-time' }
+    },
+    required: [
+        'id',
+        'type',
+        'course',
+        'status',
+        'asset_names',
+        'tx_hash',
+        'policy_id',
+        'signer',
+        'error',
+        'created_at',
+        'updated_at'
+    ]
+} as const
+
+const estimate = {
+    type: 'object',
+    properties: {
+        valid: { type: 'boolean' },
+        fee: { type: 'string', description: 'Total fee, in lovelace' },
+        store_lovelace: { type: 'string', description: 'Lovelace locked at the store address' },
+        errors: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    asset_name: nullableString,
+                    code: {
+                        type: 'string',
+                        enum: [
+                            'asset_exists',
+                            'asset_not_found',
+                            'stale_version',
+                            'insufficient_funds',
+                            'too_large',
+                            'build_failed'
+                        ]
+                    },
+                    message: { type: 'string' }
+                },
+                required: ['asset_name', 'code', 'message']
+            }
+        },
+        transactions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    tx_hash: { type: 'string' },
+                    asset_names: { type: 'array', items: { type: 'string' } },
+                    size: { type: 'integer' },
+                    fee: { type: 'string' },
+                    ex_units: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                tag: { type: 'string' },
+                                index: { type: 'integer' },
+                                mem: { type: 'integer' },
+                                steps: { type: 'integer' }
+                            },
+                            required: ['tag', 'index', 'mem', 'steps']
+                        }
+                    },
+                    store_lovelace: { type: 'string' },
+                    outputs: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                address: { type: 'string' },
+                                amount: { type: 'array', items: asset },
+                                metadata: { type: 'object', additionalProperties: true, nullable: true },
+                                reference_script: { type: 'boolean' }
+                            },
+                            required: ['address', 'amount', 'metadata', 'reference_script']
+                        }
+                    }
+                },
+                required: ['tx_hash', 'asset_names', 'size', 'fee', 'ex_units', 'store_lovelace', 'outputs']
+            }
+        }
+    },
+    required: ['valid', 'fee', 'store_lovelace', 'errors', 'transactions']
+} as const
+
+const certificate = {
+    type: 'object',
+    properties: {
+        asset_name: { type: 'string' },
+        policy_id: { type: 'string' },
+        unit_100: { type: 'string' },
+        unit_222: { type: 'string' },
+        utxo: {
+            type: 'object',
+            properties: { tx_hash: { type: 'string' }, output_index: { type: 'integer' } },
+            required: ['tx_hash', 'output_index']
+        },
+        utxo_ref: { type: 'string', description: '`<tx_hash>#<output_index>`, usable as `expected_version`' },
+        datum_hash: { type: 'string' },
+        slot: { type: 'integer', nullable: true },
+        issuer_pk_hash: nullableString,
+        metadata: { type: 'object', additionalProperties: true },
+        version: { type: 'integer', nullable: true },
+        extra: {}
+    },
+    required: [
+        'asset_name',
+        'policy_id',
+        'unit_100',
+        'unit_222',
+        'utxo',
+        'utxo_ref',
+        'datum_hash',
+        'slot',
+        'issuer_pk_hash',
+        'metadata',
+        'version',
+        'extra'
+    ]
+} as const
+
+const templateField = {
+    type: 'object',
+    properties: {
+        type: { type: 'string', enum: ['string', 'integer', 'boolean', 'list', 'map'] },
+        required: { type: 'boolean' },
+        max_length: { type: 'integer', minimum: 1, nullable: true },
+        default: {}
+    },
+    required: ['type']
+} as const
+
+const template = {
+    type: 'object',
+    properties: {
+        course: { type: 'string' },
+        fields: { type: 'object', additionalProperties: templateField },
+        created_at: { type: 'string', format: 'date-time' },
+        updated_at: { type: 'string', format: 'date-time' }
+    },
+    required: ['course', 'fields', 'created_at', 'updated_at']
+} as const
+
+const scriptReference = {
+    type: 'object',
+    properties: {
+        tx_hash: { type: 'string' },
+        output_index: { type: 'integer' },
+        script_hash: { type: 'string' },
+        script_size: { type: 'integer' }
+    },
+    required: ['tx_hash', 'output_index', 'script_hash', 'script_size']
+} as const
+
+const referenceScripts = {
+    type: 'object',
+    properties: {
+        course: { type: 'string' },
+        address: { type: 'string' },
+        mint: scriptReference,
+        store: scriptReference,
+        deployed_at: { type: 'string', format: 'date-time' }
+    },
+    required: ['course', 'address', 'mint', 'store', 'deployed_at']
+} as const
+
+const queued = {
+    type: 'object',
+    properties: {
+        message: { type: 'string' },
+        job_id: { type: 'string' },
+        data: job,
+        status: { type: 'integer' }
+    },
+    required: ['message', 'job_id', 'data', 'status']
+} as const
+
+const found = function <const D>(data: D) {
+    return {
+        type: 'object',
+        properties: { message: { type: 'string' }, data, status: { type: 'integer' } },
+        required: ['message', 'data', 'status']
+    } as const
+}
+
+/**
+ * The body of every error response. `details` is a message or a list of per-field errors; a conflict
+ * may carry the current state of the resource in `data`.
+ */
+export const errorSchema = {
+    type: 'object',
+    properties: {
+        error: { type: 'string' },
+        details: { anyOf: [{ type: 'string' }, { type: 'array', items: fieldError }] },
+        data: {},
+        status: { type: 'integer' }
+    },
+    required: ['error']
+} as const
+
+/**
+ * The schemas shared by several routes, published under `components.schemas` of the OpenAPI document.
+ */
+export const components = {
+    Signer: signer,
+    Job: job,
+    Estimate: estimate,
+    Certificate: certificate,
+    Template: template,
+    ReferenceScripts: referenceScripts,
+    FieldError: fieldError,
+    Error: errorSchema
+} as const
+
+const operationResponses = {
+    200: {
+        description: 'With a `signer`, the unsigned transaction and its job; with `?dryRun=true`, the estimate',
+        schema: { anyOf: [queued, found(estimate)] }
+    },
+    202: { description: 'Job queued, to be polled at `GET /jobs/{id}`', schema: queued },
+    400: { description: 'Invalid request', schema: errorSchema }
+} as const
+
+/**
+ * @constant contractRoutes
+ * @description
+ * Every route of the contract API (`/api/v1/contract`): the scope it requires, the path parameters,
+ * query and body it accepts and the responses it returns. Requests are checked against it before
+ * reaching the controllers (see {@link validateRequest}), the OpenAPI document is generated from it
+ * and the client SDK takes its types from it.
+ */
+export const contractRoutes = {
+    mint: {
+        method: 'post',
+        path: '/mint',
+        scope: 'mint',
+        summary: 'Mint a certificate',
+        query: dryRun,
+        body: {
+            type: 'object',
+            properties: {
+                course,
+                asset_name: assetName,
+                metadata,
+                quantity,
+                receiver: { type: 'string', minLength: 1 },
+                signer
+            },
+            required: ['course', 'asset_name', 'metadata', 'receiver']
+        },
+        responses: {
+            ...operationResponses,
+            422: { description: 'Metadata sets `_pk` or does not match the course template', schema: errorSchema }
+        }
+    },
+    batchMint: {
+        method: 'post',
+        path: '/batch-mint',
+        scope: 'mint',
+        summary: 'Mint any number of certificates, in as many transactions as needed',
+        query: dryRun,
+        body: {
+            type: 'object',
+            properties: {
+                course,
+                items: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            asset_name: assetName,
+                            metadata,
+                            quantity,
+                            receiver: { type: 'string', minLength: 1 }
+                        },
+                        required: ['asset_name', 'metadata', 'receiver']
+                    },
+                    minItems: 1
+                },
+                signer
+            },
+            required: ['course', 'items']
+        },
+        responses: {
+            ...operationResponses,
+            422: {
+                description: 'Metadata of some items sets `_pk` or does not match the course template',
+                schema: errorSchema
+            }
+        }
+    },
+    update: {
+        method: 'post',
+        path: '/update',
+        scope: 'update',
+        summary: 'Update the metadata of a certificate',
+        query: dryRun,
+        body: {
+            type: 'object',
+            properties: {
+                course,
+                asset_name: assetName,
+                metadata,
+                expected_version: {
+                    type: 'string',
+                    minLength: 1,
+                    description:
+                        'The `utxo_ref` or `datum_hash` last read; the update is rejected if the asset changed since'
+                },
+                signer
+            },
+            required: ['course', 'asset_name', 'metadata']
+        },
+        responses: {
+            ...operationResponses,
+            404: { description: 'Asset not found', schema: errorSchema },
+            409: { description: 'Another update is pending, or `expected_version` is stale', schema: errorSchema },
+            422: { description: 'Metadata sets `_pk` or does not match the course template', schema: errorSchema }
+        }
+    },
+    burn: {
+        method: 'post',
+        path: '/burn',
+        scope: 'burn',
+        summary: 'Burn a certificate',
+        query: dryRun,
+        body: {
+            type: 'object',
+            properties: { course, asset_name: assetName, quantity, signer },
+            required: ['course', 'asset_name', 'quantity']
+        },
+        responses: operationResponses
+    },
+    submit: {
+        method: 'post',
+        path: '/submit',
+        scope: 'job',
+        summary: 'Submit a transaction built for an external wallet, once signed',
+        body: {
+            type: 'object',
+            properties: {
+                job_id: { type: 'string', minLength: 1 },
+                signed_tx: { type: 'string', minLength: 1, description: 'The signed transaction CBOR' },
+                witness_set: {
+                    type: 'string',
+                    minLength: 1,
+                    description: 'The witness set CBOR, as returned by CIP-30 `signTx(tx, true)`'
+                }
+            },
+            required: ['job_id']
+        },
+        responses: {
+            202: { description: 'Signed transaction queued for submission', schema: queued },
+            400: { description: 'Invalid request', schema: errorSchema },
+            404: { description: 'Job not found', schema: errorSchema },
+            409: { description: 'Job is not waiting for a signature', schema: errorSchema },
+            422: { description: 'Signed transaction does not match the built transaction', schema: errorSchema }
+        }
+    },
+    job: {
+        method: 'get',
+        path: '/jobs/:id',
+        scope: 'read',
+        summary: 'Status of a queued operation',
+        params: { type: 'object', properties: { id: { type: 'string', minLength: 1 } }, required: ['id'] },
+        responses: {
+            200: { description: 'The job', schema: found(job) },
+            404: { description: 'Job not found', schema: errorSchema }
+        }
+    },
+    template: {
+        method: 'get',
+        path: '/:course/template',
+        scope: 'read',
+        summary: 'Certificate template of a course',
+        params: courseParams,
+        responses: {
+            200: { description: 'The template', schema: found(template) },
+            404: { description: 'Template not found', schema: errorSchema }
+        }
+    },
+    saveTemplate: {
+        method: 'put',
+        path: '/:course/template',
+        scope: 'admin',
+        summary: 'Register or replace the certificate template of a course',
+        params: courseParams,
+        body: {
+            type: 'object',
+            properties: { fields: { type: 'object', additionalProperties: templateField } },
+            required: ['fields']
+        },
+        responses: {
+            200: { description: 'The stored template', schema: found(template) },
+            400: { description: 'Invalid request', schema: errorSchema },
+            422: { description: 'Invalid template', schema: errorSchema }
+        }
+    },
+    scripts: {
+        method: 'get',
+        path: '/:course/reference-scripts',
+        scope: 'read',
+        summary: 'Where the reference scripts of a course are deployed',
+        params: courseParams,
+        responses: {
+            200: { description: 'The deployment', schema: found(referenceScripts) },
+            404: { description: 'Reference scripts not deployed', schema: errorSchema }
+        }
+    },
+    deployScripts: {
+        method: 'post',
+        path: '/:course/reference-scripts',
+        scope: 'admin',
+        summary: 'Deploy the scripts of a course as reference scripts',
+        description:
+            'Locks the mint and store scripts in two outputs paid by the issuer wallet. They are held at a ' +
+            'native script address that only the issuer signature unlocks, so nobody else can spend them; their ' +
+            'minimum ADA stays locked until the issuer spends them.',
+        params: courseParams,
+        responses: {
+            200: { description: 'Already deployed', schema: found(referenceScripts) },
+            201: { description: 'Deployed', schema: found(referenceScripts) }
+        }
+    },
+    assets: {
+        method: 'get',
+        path: '/:course/assets',
+        scope: 'read',
+        summary: 'List the certificates of a course',
+        description: 'Filter on metadata with `metadata.<field>=<value>` query parameters.',
+        params: courseParams,
+        query: {
+            type: 'object',
+            properties: {
+                page: { type: 'string', pattern: '^[0-9]+$', description: 'Page number (default 1)' },
+                limit: { type: 'string', pattern: '^[0-9]+$', description: 'Items per page (default 20, max 100)' },
+                sort: { type: 'string', enum: ['slot', '-slot', 'asset_name', '-asset_name'] }
+            },
+            additionalProperties: { type: 'string' }
+        },
+        responses: {
+            200: {
+                description: 'A page of certificates',
+                schema: found({
+                    type: 'object',
+                    properties: {
+                        policy_id: { type: 'string' },
+                        store_address: { type: 'string' },
+                        items: { type: 'array', items: certificate },
+                        page: { type: 'integer' },
+                        limit: { type: 'integer' },
+                        total: { type: 'integer' },
+                        total_pages: { type: 'integer' }
+                    },
+                    required: ['policy_id', 'store_address', 'items', 'page', 'limit', 'total', 'total_pages']
+                })
+            },
+            400: { description: 'Invalid request', schema: errorSchema }
+        }
+    },
+    asset: {
+        method: 'get',
+        path: '/:course/assets/:assetName',
+        scope: 'read',
+        summary: 'Read back a certificate',
+        params: {
+            type: 'object',
+            properties: { course, assetName },
+            required: ['course', 'assetName']
+        },
+        responses: {
+            200: {
+                description: 'The certificate',
+                schema: found({
+                    type: 'object',
+                    properties: { ...certificate.properties, store_address: { type: 'string' } },
+                    required: [...certificate.required, 'store_address']
+                })
+            },
+            404: { description: 'Asset not found', schema: errorSchema }
+        }
+    },
+    contract: {
+        method: 'get',
+        path: '/',
+        scope: 'read',
+        summary: 'Policy id and addresses of a course contract',
+        description: 'The course is read from the query, or from a JSON body as older callers send it.',
+        query: { type: 'object', properties: { course }, additionalProperties: true },
+        body: { type: 'object', properties: { course } },
+        responses: {
+            200: {
+                description: 'The contract',
+                schema: found({
+                    type: 'object',
+                    properties: {
+                        policy_id: { type: 'string' },
+                        store_address: { type: 'string' },
+                        reference_address: { type: 'string' }
+                    },
+                    required: ['policy_id', 'store_address', 'reference_address']
+                })
+            },
+            400: { description: 'Invalid request', schema: errorSchema }
+        }
+    }
+} as const satisfies Record<string, RouteSchema>
+
+export type ContractRoutes = typeof contractRoutes
+
+export type ContractRoute = keyof ContractRoutes
+
+export type Signer = Infer<typeof signer>
+export type JobData = Infer<typeof job>
+export type EstimateData = Infer<typeof estimate>
+export type CertificateData = Infer<typeof certificate>
+export type TemplateData = Infer<typeof template>
+export type ReferenceScriptsData = Infer<typeof referenceScripts>
+export type ErrorBody = Infer<typeof errorSchema>
@@ -0,0 +1,90 @@
+import { RouteSchema } from '../utils/schema.util.js'
+import { components, errorSchema } from './contract.schema.js'
+
+/**
+ * @constant holderRoutes
+ * @description
+ * The read-only lookups by holder address (`/api/v1/holders`). They need no credential. Published in the
+ * OpenAPI document next to {@link contractRoutes}.
+ */
+export const holderRoutes = {
+    certificates: {
+        method: 'get',
+        path: '/:address/certificates',
+        summary: 'List the course certificates held by an address',
+        description:
+            'A policy ID is derived from the course name and its issuer, so only the certificates of courses ' +
+            'this service has issued for (with the server wallet or an external signer), plus the ones named ' +
+            'with `course` query parameters (at most 5), are recognised. The courses searched are returned in ' +
+            '`courses`; tokens of any other course are not listed.',
+        params: {
+            type: 'object',
+            properties: { address: { type: 'string', minLength: 1, description: 'Bech32 address of the holder' } },
+            required: ['address']
+        },
+        query: {
+            type: 'object',
+            properties: {
+                course: {
+                    anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' }, maxItems: 5 }],
+                    description: 'Up to 5 other courses to search, e.g. issued by another deployment'
+                }
+            }
+        },
+        responses: {
+            200: {
+                description: 'The certificates found',
+                schema: {
+                    type: 'object',
+                    properties: {
+                        message: { type: 'string' },
+                        data: {
+                            type: 'object',
+                            properties: {
+                                address: { type: 'string' },
+                                courses: {
+                                    type: 'array',
+                                    items: { type: 'string' },
+                                    description: 'The courses searched'
+                                },
+                                items: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            course: { type: 'string' },
+                                            issuer: {
+                                                type: 'string',
+                                                description: 'Address the course scripts are parameterized with'
+                                            },
+                                            policy_id: { type: 'string' },
+                                            asset_name: { type: 'string' },
+                                            unit_222: { type: 'string' },
+                                            quantity: { type: 'integer' },
+                                            certificate: { anyOf: [components.Certificate], nullable: true }
+                                        },
+                                        required: [
+                                            'course',
+                                            'issuer',
+                                            'policy_id',
+                                            'asset_name',
+                                            'unit_222',
+                                            'quantity',
+                                            'certificate'
+                                        ]
+                                    }
+                                },
+                                total: { type: 'integer' }
+                            },
+                            required: ['address', 'courses', 'items', 'total']
+                        },
+                        status: { type: 'integer' }
+                    },
+                    required: ['message', 'data', 'status']
+                }
+            },
+            400: { description: 'Invalid request', schema: errorSchema },
+            500: { description: 'The chain provider failed', schema: errorSchema }
+        }
+    }
+} as const satisfies Record<string, RouteSchema>
@@ -0,0 +1,153 @@
+import swaggerJsdoc from 'swagger-jsdoc'
+import { RouteSchema, Schema } from '../utils/schema.util.js'
+import { components, contractRoutes } from './contract.schema.js'
+import { holderRoutes } from './holder.schema.js'
+
+/**
+ * The route groups published in the document, with the path each one is mounted at.
+ */
+const ROUTE_GROUPS: { tag: string; basePath: string; routes: Record<string, RouteSchema> }[] = [
+    { tag: 'contract', basePath: '/api/v1/contract', routes: contractRoutes },
+    { tag: 'holders', basePath: '/api/v1/holders', routes: holderRoutes }
+]
+
+/**
+ * @function toOpenApi
+ * @description
+ * Copies a schema as OpenAPI expects it, replacing every schema shared by several routes with a `$ref`
+ * to its entry in `components.schemas` (they are recognised by identity).
+ */
+const toOpenApi = function (schema: Schema, root?: Schema): Record<string, unknown> {
+    const name = Object.entries(components).find(([, component]) => component === schema)?.[0]
+    if (name && schema !== root) return { $ref: `#/components/schemas/${name}` }
+    return Object.fromEntries(
+        Object.entries(schema).map(([key, value]) => {
+            if (key === 'items' || (key === 'additionalProperties' && typeof value === 'object')) {
+                return [key, toOpenApi(value as Schema)]
+            }
+            if (key === 'anyOf') return [key, (value as Schema[]).map((option) => toOpenApi(option))]
+            if (key === 'properties') {
+                return [
+                    key,
+                    Object.fromEntries(
+                        Object.entries(value as Record<string, Schema>).map(([property, child]) => [
+                            property,
+                            toOpenApi(child)
+                        ])
+                    )
+                ]
+            }
+            return [key, value]
+        })
+    )
+}
+
+/**
+ * @function toParameters
+ * @description Lists the properties of a params or query schema as OpenAPI parameters.
+ */
+const toParameters = function (location: 'path' | 'query', schema?: Schema) {
+    if (!schema || schema.type !== 'object') return []
+    return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+        name,
+        in: location,
+        required: location === 'path' || (schema.required ?? []).includes(name),
+        description: property.description,
+        schema: toOpenApi(property)
+    }))
+}
+
+/**
+ * @function toOperation
+ * @description Describes one route as an OpenAPI operation; a route without a scope needs no credential.
+ */
+const toOperation = function (name: string, tag: string, route: RouteSchema) {
+    return {
+        operationId: name,
+        tags: [tag],
+        summary: route.summary,
+        description: [route.description, route.scope && `Requires the \`${route.scope}\` scope.`]
+            .filter(Boolean)
+            .join('\n\n'),
+        ...(route.scope ? {} : { security: [] }),
+        parameters: [...toParameters('path', route.params), ...toParameters('query', route.query)],
+        ...(route.body && route.method !== 'get'
+            ? {
+                  requestBody: {
+                      required: true,
+                      content: { 'application/json': { schema: toOpenApi(route.body) } }
+                  }
+              }
+            : {}),
+        responses: {
+            ...Object.fromEntries(
+                Object.entries(route.responses).map(([status, { description, schema }]) => [
+                    status,
+                    {
+                        description,
+                        ...(schema ? { content: { 'application/json': { schema: toOpenApi(schema) } } } : {})
+                    }
+                ])
+            ),
+            ...(route.scope
+                ? {
+                      401: { $ref: '#/components/responses/Unauthorized' },
+                      403: { $ref: '#/components/responses/Forbidden' }
+                  }
+                : {}),
+            500: { $ref: '#/components/responses/InternalError' }
+        }
+    }
+}
+
+/**
+ * @function createOpenApiDocument
+ * @description
+ * Generates the OpenAPI 3 document of the API from {@link contractRoutes} and {@link holderRoutes}, so
+ * the document, the request validation and the client SDK cannot drift apart.
+ *
+ * @returns {object} The OpenAPI document.
+ */
+export const createOpenApiDocument = function () {
+    const paths: Record<string, Record<string, unknown>> = {}
+    ROUTE_GROUPS.forEach(({ tag, basePath, routes }) => {
+        Object.entries(routes).forEach(([name, route]) => {
+            const path = (basePath + route.path.replace(/:(\w+)/g, '{$1}')).replace(/\/$/, '')
+            paths[path] = { ...paths[path], [route.method]: toOperation(name, tag, route) }
+        })
+    })
+
+    const error = (description: string) => ({
+        description,
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+    })
+    return swaggerJsdoc({
+        definition: {
+            openapi: '3.0.3',
+            info: {
+                title: 'Contract API',
+                version: '1.0.0',
+                description: 'Issue, update, burn and read CIP-68 course certificates on Cardano.'
+            },
+            security: [{ bearerAuth: [] }, { apiKey: [] }],
+            paths,
+            components: {
+                securitySchemes: {
+                    bearerAuth: { type: 'http', scheme: 'bearer' },
+                    apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+                },
+                schemas: Object.fromEntries(
+                    Object.entries(components).map(([name, schema]) => [name, toOpenApi(schema, schema)])
+                ),
+                responses: {
+                    Unauthorized: error('Missing, invalid, expired or revoked credential'),
+                    Forbidden: error('The credential lacks the scope, or the course is not on its allow-list'),
+                    InternalError: error('Unexpected failure')
+                }
+            }
+        },
+        apis: []
+    })
+}
+
+export const openApiDocument = createOpenApiDocument()
@@ -0,0 +1,130 @@
+import { cst } from '@meshsdk/core'
+import { JsonStore } from '../stores/json.store.js'
+import { AuditRecord, Job, MetadataSnapshot } from '../types/index.js'
+
+/**
+ * @function readFee
+ * @description Reads the fee (lovelace) declared in a transaction body.
+ */
+const readFee = function (tx: string): bigint {
+    return cst.deserializeTx(tx).body().fee()
+}
+
+/**
+ * @function paidFee
+ * @description
+ * The fee (lovelace) of a job: that of its transaction, or for a batch the sum over its submitted and
+ * confirmed transactions. Failed transactions never made it on chain and pay nothing, so neither does
+ * a failed job. Undefined when the fee can no longer be read (the transaction is not stored anymore).
+ */
+const paidFee = function (job: Job): string | null | undefined {
+    if (job.status === 'failed') return null
+    if (job.transactions) {
+        const paid = job.transactions.filter(
+            (transaction) => transaction.status === 'submitted' || transaction.status === 'confirmed'
+        )
+        if (paid.some((transaction) => transaction.fee === undefined && transaction.signedTx === undefined)) {
+            return undefined
+        }
+        if (paid.length === 0) return null
+        return paid
+            .reduce((total, transaction) => total + BigInt(transaction.fee ?? readFee(transaction.signedTx!)), 0n)
+            .toString()
+    }
+    const tx = job.signedTx ?? job.unsignedTx
+    return tx === undefined ? undefined : readFee(tx).toString()
+}
+
+/**
+ * @class AuditLog
+ * @description
+ * Persistent record of every contract operation (mint, batch mint, update, burn), one record per job,
+ * kept in a {@link JsonStore}. The {@link JobQueue} writes a record when a job is created and updates it
+ * on every transition, so it outlives the job logs: caller, course, assets, metadata before and after,
+ * transaction hashes, fee and final status.
+ */
+export class AuditLog {
+    private readonly store: JsonStore<AuditRecord>
+
+    /**
+     * @constructor
+     * @param {JsonStore<AuditRecord>} [store] - Where audit records are persisted.
+     */
+    constructor(store = new JsonStore<AuditRecord>('audit')) {
+        this.store = store
+    }
+
+    /**
+     * @method record
+     * @description
+     * Creates or updates the audit record of a job. The fee is read from the job transaction(s) while
+     * they are stored (see {@link paidFee}); metadata snapshots are given by the queue when it takes them.
+     *
+     * @param {Job} job - The job in its current state.
+     * @param {Object} [snapshots]
+     * @param {MetadataSnapshot} [snapshots.before] - Metadata of the assets before the operation.
+     * @param {MetadataSnapshot} [snapshots.after] - Metadata of the assets once the operation is confirmed.
+     * @returns {AuditRecord} The stored record.
+     */
+    public record = (job: Job, snapshots: { before?: MetadataSnapshot; after?: MetadataSnapshot } = {}) => {
+        const existing = this.store.get(job.id)
+        const fee = paidFee(job)
+
+        return this.store.set(job.id, {
+            id: job.id,
+            operation: job.type,
+            caller: job.caller ?? null,
+            course: job.course,
+            assetNames: job.params.map((param) => param.assetName),
+            before: snapshots.before ?? existing?.before ?? null,
+            after: snapshots.after ?? existing?.after ?? null,
+            txHashes: job.transactions
+                ? job.transactions.map((transaction) => transaction.txHash)
+                : job.txHash
+                  ? [job.txHash]
+                  : [],
+            fee: fee === undefined ? (existing?.fee ?? null) : fee,
+            status: job.status,
+            error: job.error?.message ?? null,
+            createdAt: job.createdAt,
+            updatedAt: job.updatedAt
+        })
+    }
+
+    /**
+     * @method query
+     * @description
+     * Lists audit records, newest first, matching every given filter.
+     * - `courses`: only these courses (e.g. the allow-list of the caller).
+     * - `course`, `asset`: exact course, and an asset name among the operation's assets.
+     * - `caller`: the full caller (`api-key:<id>`) or just its id.
+     * - `from`, `to`: creation date range, inclusive.
+     *
+     * @returns {AuditRecord[]} The matching records.
+     */
+    public query = (
+        filters: {
+            course?: string
+            courses?: string[] | null
+            asset?: string
+            caller?: string
+            from?: Date
+            to?: Date
+        } = {}
+    ): AuditRecord[] => {
+        const { course, courses, asset, caller, from, to } = filters
+        return this.store
+            .values(
+                (record) =>
+                    (!courses || courses.includes(record.course)) &&
+                    (!course || record.course === course) &&
+                    (!asset || record.assetNames.includes(asset)) &&
+                    (!caller || record.caller === caller || record.caller?.endsWith(`:${caller}`) === true) &&
+                    (!from || Date.parse(record.createdAt) >= from.getTime()) &&
+                    (!to || Date.parse(record.createdAt) <= to.getTime())
+            )
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    }
+}
+
+export const auditLog = new AuditLog()
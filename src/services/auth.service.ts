@@ -0,0 +1,161 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { ADMIN_API_KEY, AUTH_JWT_SECRET } from '../constants/enviroments.constant.js'
+import { JsonStore } from '../stores/json.store.js'
+import { ApiKeyRecord, AuthScope, Credential } from '../types/index.js'
+
+export const AUTH_SCOPES: AuthScope[] = ['mint', 'update', 'burn', 'read', 'admin']
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex')
+
+const safeEqual = function (a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * @function verifyJwt
+ * @description
+ * Verifies a JWT signed with HS256 and the shared `AUTH_JWT_SECRET`, and reads its credential:
+ * `sub` as id, `scope` (space-separated) or `scopes` (array), and an optional `courses` allow-list.
+ * Tokens with another algorithm, a bad signature, or outside their `nbf`/`exp` window are rejected.
+ *
+ * @param {string} token - The compact JWT.
+ * @param {string} [secret] - The HMAC secret, `AUTH_JWT_SECRET` by default.
+ * @returns {Credential | undefined} The credential, or undefined if the token is invalid.
+ */
+export const verifyJwt = function (token: string, secret: string = AUTH_JWT_SECRET): Credential | undefined {
+    const [header, payload, signature] = token.split('.')
+    if (!secret || !header || !payload || !signature) return undefined
+    try {
+        if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return undefined
+        const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')
+        if (!safeEqual(signature, expected)) return undefined
+
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString())
+        const now = Date.now() / 1000
+        if (typeof claims.exp === 'number' && claims.exp <= now) return undefined
+        if (typeof claims.nbf === 'number' && claims.nbf > now) return undefined
+        const scopes: unknown[] = Array.isArray(claims.scopes) ? claims.scopes : String(claims.scope ?? '').split(' ')
+        return {
+            id: String(claims.sub ?? 'jwt'),
+            type: 'jwt',
+            scopes: AUTH_SCOPES.filter((scope) => scopes.includes(scope)),
+            courses: Array.isArray(claims.courses) ? claims.courses.map(String) : null
+        }
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * @class ApiKeys
+ * @description
+ * API keys stored locally in a {@link JsonStore}. A key reads `sk_<id>_<secret>`; only the SHA-256
+ * hash of the secret is persisted, so the full key is returned once, when it is created or rotated.
+ * Each key carries scopes (`mint`, `update`, `burn`, `read`, `admin`) and an optional allow-list
+ * of courses.
+ */
+export class ApiKeys {
+    private readonly store: JsonStore<ApiKeyRecord>
+    private readonly adminKey: string
+    private readonly jwtSecret: string
+
+    /**
+     * @constructor
+     * @param {Object} [options]
+     * @param {JsonStore<ApiKeyRecord>} [options.store] - Where keys are persisted.
+     * @param {string} [options.adminKey] - Bootstrap key with every scope (`ADMIN_API_KEY`), used to create the first keys.
+     * @param {string} [options.jwtSecret] - HS256 secret of accepted JWTs (`AUTH_JWT_SECRET`); JWTs are refused without one.
+     */
+    constructor({
+        store = new JsonStore<ApiKeyRecord>('api-keys'),
+        adminKey = ADMIN_API_KEY,
+        jwtSecret = AUTH_JWT_SECRET
+    }: {
+        store?: JsonStore<ApiKeyRecord>
+        adminKey?: string
+        jwtSecret?: string
+    } = {}) {
+        this.store = store
+        this.adminKey = adminKey
+        this.jwtSecret = jwtSecret
+    }
+
+    /**
+     * @method create
+     * @description Creates a key and returns its record together with the secret key.
+     */
+    public create = (name: string, scopes: AuthScope[], courses: string[] | null = null) => {
+        const id = randomBytes(8).toString('hex')
+        const secret = randomBytes(32).toString('hex')
+        const record = this.store.set(id, {
+            id,
+            name,
+            scopes,
+            courses,
+            secretHash: sha256(secret),
+            createdAt: new Date().toISOString()
+        })
+        return { record, key: `sk_${id}_${secret}` }
+    }
+
+    /**
+     * @method rotate
+     * @description
+     * Replaces the secret of an active key, keeping its id, scopes and courses. The old secret stops
+     * working immediately.
+     *
+     * @returns The updated record and the new secret key, or undefined if the key is missing or revoked.
+     */
+    public rotate = (id: string) => {
+        const found = this.store.get(id)
+        if (!found || found.revokedAt) return undefined
+        const secret = randomBytes(32).toString('hex')
+        const record = this.store.update(id, { secretHash: sha256(secret), rotatedAt: new Date().toISOString() })
+        return { record, key: `sk_${id}_${secret}` }
+    }
+
+    /**
+     * @method revoke
+     * @description Marks a key as revoked; it is kept for the record but no longer authenticates.
+     *
+     * @returns {ApiKeyRecord | undefined} The revoked key, or undefined if it does not exist.
+     */
+    public revoke = (id: string): ApiKeyRecord | undefined => {
+        if (!this.store.has(id)) return undefined
+        return this.store.update(id, { revokedAt: this.store.get(id)!.revokedAt ?? new Date().toISOString() })
+    }
+
+    public get = (id: string): ApiKeyRecord | undefined => {
+        return this.store.get(id)
+    }
+
+    public list = (): ApiKeyRecord[] => {
+        return this.store.values().sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    }
+
+    /**
+     * @method authenticate
+     * @description
+     * Resolves the credential behind a bearer token: the bootstrap admin key, an active API key,
+     * or otherwise a JWT (see {@link verifyJwt}).
+     *
+     * @param {string} token - The token from the `Authorization` or `X-API-Key` header.
+     * @returns {Credential | undefined} The credential, or undefined if the token is not valid.
+     */
+    public authenticate = (token: string): Credential | undefined => {
+        if (this.adminKey && safeEqual(token, this.adminKey)) {
+            return { id: 'admin', type: 'admin', scopes: [...AUTH_SCOPES], courses: null }
+        }
+        const [prefix, id, secret] = token.split('_')
+        if (prefix === 'sk' && id && secret) {
+            const record = this.store.get(id)
+            if (!record || record.revokedAt || !safeEqual(sha256(secret), record.secretHash)) return undefined
+            return { id: record.id, type: 'api-key', scopes: record.scopes, courses: record.courses }
+        }
+        return verifyJwt(token, this.jwtSecret)
+    }
+}
+
+export const apiKeys = new ApiKeys()
@@ -0,0 +1,155 @@
+import {
+    applyParamsToScript,
+    deserializeAddress,
+    resolveScriptHash,
+    scriptAddress,
+    serializeAddressObj,
+    serializeNativeScript,
+    serializePlutusScript
+} from '@meshsdk/core'
+import plutus from '../../contracts/plutus.json' with { type: 'json' }
+import { title } from '../constants/common.constant.js'
+import { APP_NETWORK_ID, CONTRACT_CACHE_SIZE } from '../constants/enviroments.constant.js'
+import { CourseContract, Plutus } from '../types/index.js'
+
+/**
+ * @function readValidator
+ * @description
+ * Retrieves the compiled validator code (Base16 string) from a loaded Plutus JSON file.
+ *
+ * @param {Plutus} plutus - The Plutus JSON definition.
+ * @param {string} title - The name (key) of the validator to extract.
+ * @returns {string} Compiled validator code.
+ * @throws Error if the validator is not found in the JSON.
+ */
+const readValidator = function (plutus: Plutus, title: string): string {
+    const validator = plutus.validators.find(function (validator) {
+        return validator.title === title
+    })
+
+    if (!validator) {
+        throw new Error(`${title} validator not found.`)
+    }
+
+    return validator.compiledCode
+}
+
+/**
+ * @function scriptAddressOf
+ * @description Address of a Plutus V3 script, staked with the given stake key hash.
+ */
+const scriptAddressOf = function (scriptCbor: string, stakeCredentialHash: string): string {
+    return serializeAddressObj(
+        scriptAddress(
+            deserializeAddress(
+                serializePlutusScript({ code: scriptCbor, version: 'V3' }, undefined, APP_NETWORK_ID, false).address
+            ).scriptHash,
+            stakeCredentialHash,
+            false
+        ),
+        APP_NETWORK_ID
+    )
+}
+
+/**
+ * @class ContractRegistry
+ * @description
+ * Computes the parameterized `store` and `mint` scripts of a course (script CBOR, policy ID, store
+ * address, and the address where they can be deployed as reference scripts) once per (course, issuer, network)
+ * and keeps the most recently used ones in memory.
+ *
+ * Reference scripts are locked at a native script address that only the issuer's signature unlocks, so
+ * nobody else can spend them and take their minimum ADA; the issuer can still reclaim it. The always-succeeds
+ * `reference` validator is not used for this.
+ *
+ * Deriving a contract applies parameters to both validators and serializes addresses, which is
+ * too slow to repeat for every request or every item of a batch. The cached values are immutable,
+ * so they can be shared by every {@link MeshAdapter}; per-transaction builder state is not cached.
+ */
+export class ContractRegistry {
+    private readonly capacity: number
+    private readonly contracts = new Map<string, CourseContract>()
+    private readonly mintCompileCode: string
+    private readonly storeCompileCode: string
+
+    /**
+     * @constructor
+     * @param {number} [capacity] - Maximum number of contracts kept; the least recently used is evicted first.
+     */
+    constructor(capacity: number = CONTRACT_CACHE_SIZE) {
+        this.capacity = capacity
+        this.storeCompileCode = readValidator(plutus as Plutus, title.store)
+        this.mintCompileCode = readValidator(plutus as Plutus, title.mint)
+    }
+
+    /**
+     * @method get
+     * @description Returns the contract of a course for an issuer on `APP_NETWORK_ID`, deriving it on a cache miss.
+     *
+     * @param {string} course - The course identifier used to parameterize the scripts.
+     * @param {string} issuer - The Bech32 issuer address whose pubkey/stake hash are used in the scripts.
+     * @returns {CourseContract} The course contract.
+     */
+    public get = (course: string, issuer: string): CourseContract => {
+        const key = JSON.stringify([APP_NETWORK_ID, issuer, course])
+        const cached = this.contracts.get(key)
+        if (cached) {
+            this.contracts.delete(key)
+            this.contracts.set(key, cached)
+            return cached
+        }
+
+        const contract = this.derive(course, issuer)
+        this.contracts.set(key, contract)
+        if (this.contracts.size > this.capacity) {
+            this.contracts.delete(this.contracts.keys().next().value!)
+        }
+        return contract
+    }
+
+    public get size() {
+        return this.contracts.size
+    }
+
+    /**
+     * @method derive
+     * @description
+     * 1. Applies `course` and the issuer pubkey/stake hashes to the store validator and computes
+     *    the store address (staked with the issuer stake key).
+     * 2. Applies the same parameters plus the store script/stake hashes to the mint validator
+     *    and computes the policy ID.
+     * 3. Computes the reference address: a native script requiring the issuer pubkey hash, staked with
+     *    the issuer stake key.
+     */
+    private derive = (course: string, issuer: string): CourseContract => {
+        const { pubKeyHash, stakeCredentialHash } = deserializeAddress(issuer)
+
+        const storeScriptCbor = applyParamsToScript(this.storeCompileCode, [course, pubKeyHash, stakeCredentialHash])
+        const storeAddress = scriptAddressOf(storeScriptCbor, stakeCredentialHash)
+
+        const mintScriptCbor = applyParamsToScript(this.mintCompileCode, [
+            course,
+            pubKeyHash,
+            stakeCredentialHash,
+            deserializeAddress(storeAddress).scriptHash,
+            deserializeAddress(storeAddress).stakeCredentialHash
+        ])
+
+        return {
+            course,
+            issuer,
+            networkId: APP_NETWORK_ID,
+            mintScriptCbor,
+            policyId: resolveScriptHash(mintScriptCbor, 'V3'),
+            storeScriptCbor,
+            storeAddress,
+            referenceAddress: serializeNativeScript(
+                { type: 'sig', keyHash: pubKeyHash },
+                stakeCredentialHash,
+                APP_NETWORK_ID
+            ).address
+        }
+    }
+}
+
+export const contractRegistry = new ContractRegistry()
@@ -0,0 +1,35 @@
+import { JsonStore } from '../stores/json.store.js'
+import { CourseRecord } from '../types/index.js'
+
+const courses = new JsonStore<CourseRecord>('courses')
+
+/**
+ * @function registerCourse
+ * @description
+ * Remembers a course this service has issued certificates for, with the issuer its scripts are
+ * parameterized with: the server issuer wallet, or the address of the external wallet that signed.
+ * Course policy ids can only be derived from the course name and the issuer, so holder lookups and
+ * verification need these pairs to recognise which tokens in a wallet are ours.
+ *
+ * @param {string} course - The course identifier used to parameterize the scripts.
+ * @param {string} issuer - The Bech32 issuer address used to parameterize the scripts.
+ */
+export const registerCourse = function (course: string, issuer: string) {
+    const id = JSON.stringify([course, issuer])
+    if (!courses.has(id)) {
+        courses.set(id, { course, issuer, registeredAt: new Date().toISOString() })
+    }
+}
+
+/**
+ * @function listContracts
+ * @description
+ * Returns every registered (course, issuer) pair. Courses registered before issuers were recorded
+ * are paired with `defaultIssuer`, the server issuer that issued them.
+ *
+ * @param {string} defaultIssuer - The server issuer address.
+ */
+export const listContracts = function (defaultIssuer: string): { course: string; issuer: string }[] {
+    const pairs = courses.values().map((record) => ({ course: record.course, issuer: record.issuer ?? defaultIssuer }))
+    return Array.from(new Map(pairs.map((pair) => [JSON.stringify([pair.course, pair.issuer]), pair])).values())
+}
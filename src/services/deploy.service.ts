@@ -0,0 +1,65 @@
+import { resolveTxHash } from '@meshsdk/core'
+import { getProvider } from '../providers/index.provider.js'
+import { MeshTxBuilder } from '../txbuilders/mesh.txbuilder.js'
+import { Provider, ReferenceScriptRecord } from '../types/index.js'
+import { WalletPool, walletPool } from './pool.service.js'
+import { ReferenceScripts, referenceScripts } from './reference.service.js'
+
+/**
+ * @function deployReferenceScripts
+ * @description
+ * Deploys the mint and store scripts of a course as reference scripts and records where they are.
+ * 1. Leases the issuer wallet, which parameterizes the scripts and pays for the deployment.
+ * 2. Returns the recorded deployment unchanged when both reference UTxOs are still live.
+ * 3. Otherwise builds, signs and submits the deployment, then records its outputs; builders use them
+ *    as soon as the transaction is on chain, and embed the scripts until then.
+ *
+ * @param {string} course - The course whose scripts are deployed.
+ * @param {Object} [options]
+ * @param {WalletPool} [options.pool] - The issuer wallet (the shared pool by default).
+ * @param {Provider} [options.provider] - Chain provider used to build and submit (the shared one by default).
+ * @param {ReferenceScripts} [options.references] - Where deployments are recorded (the shared one by default).
+ * @returns The deployment, and whether a new one was submitted.
+ */
+export const deployReferenceScripts = async function (
+    course: string,
+    {
+        pool = walletPool,
+        provider = getProvider(),
+        references = referenceScripts
+    }: { pool?: WalletPool; provider?: Provider; references?: ReferenceScripts } = {}
+): Promise<{ record: ReferenceScriptRecord; deployed: boolean }> {
+    const lease = await pool.acquire('issuer')
+    try {
+        const meshTxBuilder = new MeshTxBuilder({
+            meshWallet: pool.issuer,
+            course,
+            issuer: pool.issuer.getChangeAddress(),
+            provider,
+            utxoManager: pool.utxoManager,
+            referenceScripts: references
+        })
+        const existing = await meshTxBuilder.getReferenceScripts()
+        if (existing) return { record: existing, deployed: false }
+
+        const unsignedTx = await meshTxBuilder.deployReferenceScripts()
+        const txHash = resolveTxHash(unsignedTx)
+        try {
+            await provider.submitTx(await pool.sign(lease, unsignedTx))
+        } catch (error) {
+            pool.utxoManager.release(txHash)
+            throw error
+        }
+        const record = references.set({
+            course,
+            issuer: meshTxBuilder.issuerAddress,
+            networkId: meshTxBuilder.networkId,
+            address: meshTxBuilder.referenceAddress,
+            ...meshTxBuilder.scriptReferences(txHash),
+            deployedAt: new Date().toISOString()
+        })
+        return { record, deployed: true }
+    } finally {
+        lease.release()
+    }
+}
@@ -0,0 +1,87 @@
+import { UTxO } from '@meshsdk/core'
+import { HEALTH_CHECK_TIMEOUT } from '../constants/enviroments.constant.js'
+import { getProvider } from '../providers/index.provider.js'
+import { HealthCheck, HealthReport, Provider } from '../types/index.js'
+import { WalletPool, walletPool } from './pool.service.js'
+
+const lovelaceOf = function (utxos: UTxO[]): bigint {
+    return utxos.reduce(
+        (total, utxo) => total + BigInt(utxo.output.amount.find((amount) => amount.unit === 'lovelace')?.quantity ?? 0),
+        0n
+    )
+}
+
+/**
+ * @function check
+ * @description Runs one check, timing it and turning a failure or a timeout into an `error` result.
+ */
+const check = async function (
+    work: () => Promise<Record<string, unknown> | void>,
+    timeout: number
+): Promise<HealthCheck> {
+    const start = performance.now()
+    let timer: NodeJS.Timeout | undefined
+    try {
+        const details = await Promise.race([
+            work(),
+            new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`No answer within ${timeout} seconds`)), timeout * 1000)
+            })
+        ])
+        return { status: 'ok', latencyMs: Math.round(performance.now() - start), ...(details ? { details } : {}) }
+    } catch (error) {
+        return {
+            status: 'error',
+            latencyMs: Math.round(performance.now() - start),
+            error: (error as Error).message || String(error)
+        }
+    } finally {
+        clearTimeout(timer)
+    }
+}
+
+/**
+ * @function issuerBalance
+ * @description Reads the lovelace held by the issuer wallet.
+ */
+export const issuerBalance = async function (pool: WalletPool = walletPool): Promise<bigint> {
+    return lovelaceOf(await pool.issuer.getUtxos())
+}
+
+/**
+ * @function checkHealth
+ * @description
+ * Checks the service can do its job, each check bounded by `timeout`:
+ * - `provider`: the chain provider answers (protocol parameters).
+ * - `wallet`: the issuer wallet can be derived, holds UTxOs and has a collateral UTxO for script transactions.
+ *
+ * @param {Object} [options]
+ * @param {Provider} [options.provider] - The chain provider (the shared one by default).
+ * @param {WalletPool} [options.pool] - The issuer wallet (the shared pool by default).
+ * @param {number} [options.timeout] - Seconds each check may take (`HEALTH_CHECK_TIMEOUT`).
+ * @returns {Promise<HealthReport>} `ok` when every check passes, `degraded` otherwise.
+ */
+export const checkHealth = async function ({
+    provider,
+    pool = walletPool,
+    timeout = HEALTH_CHECK_TIMEOUT
+}: { provider?: Provider; pool?: WalletPool; timeout?: number } = {}): Promise<HealthReport> {
+    const [providerCheck, walletCheck] = await Promise.all([
+        check(async () => {
+            await (provider ?? getProvider()).fetchProtocolParameters(Number.NaN)
+        }, timeout),
+        check(async () => {
+            const address = pool.issuer.getChangeAddress()
+            const utxos = await pool.issuer.getUtxos()
+            if (utxos.length === 0) throw new Error(`Issuer wallet ${address} has no UTxOs`)
+            if ((await pool.issuer.getCollateral()).length === 0) {
+                throw new Error(`Issuer wallet ${address} has no collateral UTxO (an ADA-only UTxO of at least 5 ADA)`)
+            }
+            return { address, utxos: utxos.length, lovelace: lovelaceOf(utxos).toString() }
+        }, timeout)
+    ])
+    return {
+        status: providerCheck.status === 'ok' && walletCheck.status === 'ok' ? 'ok' : 'degraded',
+        checks: { provider: providerCheck, wallet: walletCheck }
+    }
+}
@@ -0,0 +1,959 @@
+import { randomUUID } from 'crypto'
+import { cst, EmbeddedWallet, IEvaluator, resolveTxHash, UTxO } from '@meshsdk/core'
+import { JOB_RETENTION, TX_MAX_REBUILDS } from '../constants/enviroments.constant.js'
+import { getProvider } from '../providers/index.provider.js'
+import { JsonStore } from '../stores/json.store.js'
+import { MeshTxBuilder } from '../txbuilders/mesh.txbuilder.js'
+import {
+    BurnParams,
+    Estimate,
+    EstimateErrorCode,
+    ExternalSigner,
+    Job,
+    JobTransaction,
+    JobType,
+    MetadataSnapshot,
+    MintParams,
+    Provider,
+    TxEstimate,
+    UpdateParams,
+    WalletLease
+} from '../types/index.js'
+import { decodeCip68Datum } from '../utils/cip68.util.js'
+import { Logger, logger } from '../utils/logger.util.js'
+import { AuditLog, auditLog } from './audit.service.js'
+import { Metrics, metrics } from './metrics.service.js'
+import { WalletPool, walletPool } from './pool.service.js'
+import { TxTracker, txTracker } from './tracker.service.js'
+import { chainUtxos, readTxUtxos, UtxoManager } from './wallet.service.js'
+import { Webhooks, webhooks } from './webhook.service.js'
+
+/**
+ * How long an `unsigned` update keeps its asset locked while waiting for the wallet signature.
+ */
+const UNSIGNED_LOCK_TTL = 15 * 60 * 1000
+
+/**
+ * How often settled jobs past their retention are deleted, at most.
+ */
+const PRUNE_INTERVAL = 60 * 60 * 1000
+
+type WitnessSetCbor = Parameters<typeof cst.TransactionWitnessSet.fromCbor>[0]
+
+const REDEEMER_TAGS = ['spend', 'mint', 'cert', 'reward', 'vote', 'propose']
+
+/**
+ * Size of a vkey witness in a transaction (a 32-byte key and a 64-byte signature, CBOR-encoded), used
+ * to measure dry-run transactions as they would be once signed.
+ */
+const VKEY_WITNESS_SIZE = 101
+
+/**
+ * Build errors reported by dry runs, recognized from the messages of the transaction builders.
+ */
+const ESTIMATE_ERRORS: [RegExp, EstimateErrorCode][] = [
+    [/has been exist/, 'asset_exists'],
+    [/Store UTXO not found|No UTXOs found in getUtxoForTx/, 'asset_not_found'],
+    [/^Stale version/, 'stale_version'],
+    [/No UTXOs found in getWalletForTx|No collateral found|Insufficient|UTxO Balance/i, 'insufficient_funds'],
+    [/exceeds the transaction limits/, 'too_large']
+]
+
+/**
+ * @class JobQueue
+ * @description
+ * Persistent background queue for contract operations (mint, batch-mint, update, burn).
+ *
+ * HTTP handlers enqueue a job and answer immediately; workers then walk each job
+ * through `queued → built → submitted → confirmed` (or `failed`), persisting every step in a
+ * {@link JsonStore}. Each job builds with an account leased from the {@link WalletPool}: two builds
+ * spending from the same wallet side by side would select the same UTxOs. There is one worker per
+ * pool account plus one for the issuer, so mints funded by different accounts run in parallel. A worker
+ * moves on as soon as its job is submitted: confirmations are awaited in the background, so jobs queued
+ * behind it do not wait for blocks.
+ *
+ * On startup {@link JobQueue.resume} picks up whatever was in flight before a restart. `confirmed` and
+ * `failed` jobs are deleted once past their retention; the audit log keeps their history.
+ *
+ * Batch mints signed by the server wallets may span several transactions (see {@link JobQueue.buildBatch});
+ * their job tracks each transaction and the items that could not be built.
+ *
+ * Jobs for external (browser) wallets start as `unsigned`: {@link JobQueue.prepare} builds the
+ * transaction from the signer's UTxOs and {@link JobQueue.submitSigned} hands the signed result
+ * to the worker, which submits it and tracks confirmation like any other job.
+ *
+ * The inputs of every built transaction stay reserved in a {@link UtxoManager} until the transaction
+ * is confirmed or fails, so transactions built in the meantime chain on its change.
+ *
+ * Every job is mirrored in the {@link AuditLog}, with the metadata of its assets read before the
+ * transaction is built and again once it is confirmed.
+ *
+ * Submitted transactions are followed by the {@link TxTracker} until they reach the confirmation depth.
+ * One that expired, was dropped or was rolled back for good fails its job with that `code`, unless the job
+ * is signed by the server wallets: it is then rebuilt from scratch, up to `rebuilds` times.
+ *
+ * Lifecycle events (`tx.submitted`, `tx.confirmed`, `tx.failed`, `tx.rolled_back`) are sent to the
+ * registered {@link Webhooks}. Outcomes, stage durations and fees are counted in the {@link Metrics}.
+ */
+export class JobQueue {
+    private readonly store: JsonStore<Job>
+    private readonly provider: () => Provider
+    private readonly pool: WalletPool
+    private readonly utxoManager: UtxoManager
+    private readonly audit: AuditLog
+    private readonly webhooks: Webhooks
+    private readonly tracker: TxTracker
+    private readonly rebuilds: number
+    private readonly retention: number
+    private readonly metrics: Metrics
+    private readonly logger: Logger
+    private readonly pending: string[] = []
+    private readonly processing = new Set<string>()
+    private readonly running = new Set<Promise<void>>()
+    private readonly confirming = new Set<Promise<void>>()
+    private pruned = 0
+
+    /**
+     * @constructor
+     * @param {Object} [options]
+     * @param {JsonStore<Job>} [options.store] - Where jobs are persisted.
+     * @param {() => Provider} [options.provider] - Factory for the chain provider used by each job (the shared one by default).
+     * @param {WalletPool} [options.pool] - The issuer wallet and pool accounts that fund and sign jobs (the shared pool by default).
+     * @param {AuditLog} [options.audit] - Where every operation is recorded (the shared audit log by default).
+     * @param {Webhooks} [options.webhooks] - Where lifecycle events are sent (the shared webhooks by default).
+     * @param {TxTracker} [options.tracker] - Follows submitted transactions (the shared tracker by default).
+     * @param {number} [options.rebuilds] - How many times a job whose transaction was lost is rebuilt (`TX_MAX_REBUILDS`).
+     * @param {number} [options.retention] - Seconds a settled job is kept before being deleted (`JOB_RETENTION`).
+     * @param {Metrics} [options.metrics] - Where outcomes, durations and fees are counted (the shared metrics by default).
+     * @param {Logger} [options.logger] - Where job outcomes are logged (the shared logger by default).
+     */
+    constructor({
+        store = new JsonStore<Job>('jobs'),
+        provider = getProvider,
+        pool = walletPool,
+        audit = auditLog,
+        webhooks: hooks = webhooks,
+        tracker = txTracker,
+        rebuilds = TX_MAX_REBUILDS,
+        retention = JOB_RETENTION,
+        metrics: meters = metrics,
+        logger: log = logger
+    }: {
+        store?: JsonStore<Job>
+        provider?: () => Provider
+        pool?: WalletPool
+        audit?: AuditLog
+        webhooks?: Webhooks
+        tracker?: TxTracker
+        rebuilds?: number
+        retention?: number
+        metrics?: Metrics
+        logger?: Logger
+    } = {}) {
+        this.store = store
+        this.provider = provider
+        this.pool = pool
+        this.utxoManager = pool.utxoManager
+        this.audit = audit
+        this.webhooks = hooks
+        this.tracker = tracker
+        this.rebuilds = rebuilds
+        this.retention = retention
+        this.metrics = meters
+        this.logger = log
+    }
+
+    /**
+     * @method enqueue
+     * @description Persists a new `queued` job and schedules it for processing.
+     *
+     * @param {string} [caller] - Who requested the operation (e.g. `api-key:<id>`), for the audit log.
+     * @returns {Job} The stored job.
+     */
+    public enqueue = (type: JobType, course: string, params: Job['params'], caller?: string): Job => {
+        const id = randomUUID()
+        const now = new Date().toISOString()
+        const job = this.store.set(id, {
+            id,
+            type,
+            course,
+            params,
+            status: 'queued',
+            caller,
+            createdAt: now,
+            updatedAt: now
+        })
+        this.audit.record(job)
+        this.schedule(id)
+        return job
+    }
+
+    /**
+     * @method prepare
+     * @description
+     * Builds an unsigned transaction funded by an external signer and persists it as an `unsigned` job.
+     * The course scripts are parameterized with the signer address as issuer. The job is not scheduled
+     * until its signed transaction comes back through {@link JobQueue.submitSigned}.
+     *
+     * @param {string} [caller] - Who requested the operation, for the audit log.
+     * @returns {Promise<Job>} The stored job, holding the unsigned CBOR and its tx hash.
+     */
+    public prepare = async (
+        type: JobType,
+        course: string,
+        params: Job['params'],
+        signer: ExternalSigner,
+        caller?: string
+    ): Promise<Job> => {
+        const meshTxBuilder = new MeshTxBuilder({
+            signer,
+            course,
+            issuer: signer.address,
+            provider: this.provider(),
+            utxoManager: this.utxoManager
+        })
+        const before = await this.snapshot(meshTxBuilder, params)
+        const unsignedTx = await this.build(meshTxBuilder, { type, params } as Job)
+        const id = randomUUID()
+        const now = new Date().toISOString()
+        const job = this.store.set(id, {
+            id,
+            type,
+            course,
+            params,
+            status: 'unsigned',
+            policyId: meshTxBuilder.policyId,
+            signer: signer.address,
+            caller,
+            unsignedTx,
+            txHash: resolveTxHash(unsignedTx),
+            createdAt: now,
+            updatedAt: now
+        })
+        this.audit.record(job, { before })
+        return job
+    }
+
+    /**
+     * @method estimate
+     * @description
+     * Dry run of an operation: builds its transaction(s) exactly as a job would, with the scripts evaluated
+     * by the provider when it can, and describes them without signing anything: fees already account for
+     * the witnesses, as the builder estimates them. Server-wallet builds hold the issuer lease so no job builds
+     * on the same UTxOs meanwhile; batch mints are split like {@link JobQueue.buildBatch} does. The UTxO reservations of the builds are released
+     * before returning. Build errors come back as `errors`, one per failed item.
+     *
+     * @param {ExternalSigner} [signer] - Estimate for an external wallet instead of the server wallets.
+     * @returns {Promise<Estimate>} The transactions with their fees, or the reasons they cannot be built.
+     */
+    public estimate = async (
+        type: JobType,
+        course: string,
+        params: Job['params'],
+        signer?: ExternalSigner
+    ): Promise<Estimate> => {
+        const provider = this.provider()
+        const evaluator = provider.evaluateTx ? (provider as Provider & IEvaluator) : undefined
+        const built: { tx: string; assetNames: string[] }[] = []
+        const failures: { assetName: string | null; error: string }[] = []
+        let storeAddress = ''
+
+        const lease = signer ? undefined : await this.pool.acquire('issuer')
+        try {
+            const meshTxBuilder = new MeshTxBuilder({
+                meshWallet: this.pool.issuer,
+                signer,
+                course,
+                issuer: signer?.address ?? this.pool.issuer.getChangeAddress(),
+                provider,
+                evaluator,
+                utxoManager: this.utxoManager
+            })
+            storeAddress = meshTxBuilder.storeAddress
+            try {
+                if (type === 'batch-mint' && lease) {
+                    const { transactions, failures: skipped } = await this.buildBatch(
+                        provider,
+                        lease,
+                        { type, course, params } as Job,
+                        { evaluator, dryRun: true }
+                    )
+                    transactions.forEach(({ unsignedTx, assetNames }) => built.push({ tx: unsignedTx!, assetNames }))
+                    skipped.forEach(({ assetName, error }) => failures.push({ assetName, error }))
+                } else {
+                    const tx = await this.build(meshTxBuilder, { type, params } as Job)
+                    built.push({ tx, assetNames: params.map((param) => param.assetName) })
+                }
+            } catch (error) {
+                failures.push({
+                    assetName: params.length === 1 ? params[0].assetName : null,
+                    error: (error as Error).message || String(error)
+                })
+            }
+        } finally {
+            built.forEach(({ tx }) => this.utxoManager.release(resolveTxHash(tx)))
+            lease?.release()
+        }
+
+        const transactions = await Promise.all(
+            built.map(({ tx, assetNames }) => this.describe(tx, assetNames, storeAddress))
+        )
+        const total = (field: 'fee' | 'storeLovelace') =>
+            transactions.reduce((sum, transaction) => sum + BigInt(transaction[field]), 0n).toString()
+        return {
+            valid: failures.length === 0,
+            transactions,
+            errors: failures.map(({ assetName, error }) => ({
+                assetName,
+                code: ESTIMATE_ERRORS.find(([pattern]) => pattern.test(error))?.[1] ?? 'build_failed',
+                message: error
+            })),
+            fee: total('fee'),
+            storeLovelace: total('storeLovelace')
+        }
+    }
+
+    /**
+     * @method submitSigned
+     * @description
+     * Accepts the signature of an `unsigned` job, either as the full signed transaction or as the
+     * witness set returned by CIP-30 `signTx(tx, true)`, which is merged into the built transaction.
+     * The result must have the same body as the built transaction (same tx hash) and carry a vkey
+     * witness for every required signer. When valid, the job moves to `built` and is scheduled for
+     * submission; otherwise it is left untouched and the problems are returned.
+     * A job that is not (or no longer, after another signature was accepted meanwhile) `unsigned` is
+     * left untouched and reported as a `conflict`.
+     *
+     * @param {string} id - The job id.
+     * @param {Object} signature
+     * @param {string} [signature.signedTx] - The signed transaction (CBOR hex).
+     * @param {string} [signature.witnessSet] - A transaction witness set (CBOR hex) to merge.
+     * @returns {Promise<{ job: Job, problems: string[], conflict: boolean }>} The job, the validation problems
+     * if any, and whether the job was no longer waiting for a signature.
+     */
+    public submitSigned = async (
+        id: string,
+        { signedTx, witnessSet }: { signedTx?: string; witnessSet?: string }
+    ): Promise<{ job: Job; problems: string[]; conflict: boolean }> => {
+        const job = this.store.get(id)!
+        if (job.status !== 'unsigned') return { job, problems: [], conflict: true }
+        let transaction: cst.Transaction
+        try {
+            transaction = cst.deserializeTx(
+                signedTx ??
+                    EmbeddedWallet.addWitnessSets(job.unsignedTx!, [
+                        ...(cst.TransactionWitnessSet.fromCbor(witnessSet as WitnessSetCbor)
+                            .vkeys()
+                            ?.values() ?? [])
+                    ])
+            )
+        } catch (error) {
+            return {
+                job,
+                problems: [`Malformed transaction or witness set: ${(error as Error).message}`],
+                conflict: false
+            }
+        }
+
+        const problems: string[] = []
+        const txHash = transaction.getId().toString()
+        if (txHash !== job.txHash) {
+            problems.push(`Transaction body does not match the built transaction (${txHash} != ${job.txHash})`)
+        }
+        const signers = new Set<string>(
+            await Promise.all(
+                (transaction.witnessSet().vkeys()?.values() ?? []).map(async (witness) =>
+                    (await cst.Crypto.Ed25519PublicKey.fromHex(witness.vkey()).hash()).hex()
+                )
+            )
+        )
+        ;(transaction.body().requiredSigners()?.values() ?? [])
+            .map((signer) => signer.value())
+            .filter((hash) => !signers.has(hash))
+            .forEach((hash) => problems.push(`Missing vkey witness for required signer ${hash}`))
+        if (problems.length > 0) return { job, problems, conflict: false }
+
+        // Another signature may have been accepted while the witnesses were checked.
+        const current = this.store.get(id)!
+        if (current.status !== 'unsigned') return { job: current, problems: [], conflict: true }
+        const built = this.transition(id, { status: 'built', signedTx: transaction.toCbor(), unsignedTx: undefined })
+        this.schedule(id)
+        return { job: built, problems, conflict: false }
+    }
+
+    /**
+     * @method pendingUpdate
+     * @description
+     * Finds an update of the given asset that has not reached a final state yet: queued, built or
+     * submitted, or unsigned for less than 15 minutes. Used to serialize updates per asset, since a
+     * second update built meanwhile would spend the same reference UTxO.
+     *
+     * @returns {Job | undefined} The pending update job, if any.
+     */
+    public pendingUpdate = (course: string, assetName: string): Job | undefined => {
+        return this.store
+            .values(
+                (job) =>
+                    job.type === 'update' &&
+                    job.course === course &&
+                    job.params.some((param) => param.assetName === assetName) &&
+                    (['queued', 'built', 'submitted'].includes(job.status) ||
+                        (job.status === 'unsigned' && Date.now() - Date.parse(job.createdAt) < UNSIGNED_LOCK_TTL))
+            )
+            .at(0)
+    }
+
+    public get = (id: string): Job | undefined => {
+        return this.store.get(id)
+    }
+
+    /**
+     * @method resume
+     * @description
+     * Re-schedules jobs interrupted by a restart. Jobs that were `queued` are rebuilt, jobs that
+     * were `built` resubmit their signed transaction, and `submitted` jobs go back to being tracked
+     * in the background without taking a worker. `unsigned` jobs keep waiting for their signature.
+     * The transactions of `built` and `submitted` jobs are reserved again first, so jobs rebuilt
+     * meanwhile do not spend the same UTxOs. Settled jobs past their retention are deleted first.
+     */
+    public resume = () => {
+        this.prune()
+        const jobs = this.store
+            .values((job) => ['queued', 'built', 'submitted'].includes(job.status))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        jobs.flatMap((job) => [job.signedTx, ...(job.transactions ?? []).map((transaction) => transaction.signedTx)])
+            .filter((tx) => tx !== undefined)
+            .forEach((tx) => this.utxoManager.reserve(tx))
+        jobs.forEach((job) => (job.status === 'submitted' ? this.follow(job.id) : this.schedule(job.id)))
+    }
+
+    /**
+     * @method prune
+     * @description
+     * Deletes the `confirmed` and `failed` jobs last updated more than `retention` seconds before `now`.
+     * Runs on {@link JobQueue.resume} and then at most once an hour, as jobs settle.
+     *
+     * @returns {number} How many jobs were deleted.
+     */
+    public prune = (now: number = Date.now()): number => {
+        this.pruned = now
+        const expired = this.store.values(
+            (job) =>
+                (job.status === 'confirmed' || job.status === 'failed') &&
+                now - Date.parse(job.updatedAt) >= this.retention * 1000
+        )
+        expired.forEach((job) => this.store.delete(job.id))
+        return expired.length
+    }
+
+    /**
+     * @method idle
+     * @description Resolves once every scheduled job has reached a final state.
+     */
+    public idle = async () => {
+        while (this.running.size > 0 || this.confirming.size > 0) {
+            await Promise.all([...this.running, ...this.confirming])
+        }
+    }
+
+    private schedule = (id: string) => {
+        if (this.pending.includes(id) || this.processing.has(id)) return
+        this.pending.push(id)
+        if (this.running.size <= this.pool.size) {
+            const worker: Promise<void> = this.drain().finally(() => {
+                this.running.delete(worker)
+            })
+            this.running.add(worker)
+        }
+    }
+
+    private drain = async () => {
+        for (let id = this.pending.shift(); id; id = this.pending.shift()) {
+            this.processing.add(id)
+            try {
+                await this.process(id)
+            } finally {
+                this.processing.delete(id)
+            }
+        }
+    }
+
+    private process = async (id: string) => {
+        let job = this.store.get(id)!
+        if (job.type === 'batch-mint' && !job.signer) return this.processBatch(id)
+        let builtTxHash = job.txHash
+        try {
+            const provider = this.provider()
+
+            const lease = job.status === 'queued' ? await this.pool.acquire(this.role(job)) : undefined
+            try {
+                if (lease) {
+                    const meshTxBuilder = new MeshTxBuilder({
+                        meshWallet: this.pool.issuer,
+                        signer: await this.pool.funder(lease),
+                        course: job.course,
+                        issuer: this.pool.issuer.getChangeAddress(),
+                        provider,
+                        utxoManager: this.utxoManager
+                    })
+                    const before = await this.snapshot(meshTxBuilder, job.params)
+                    const unsignedTx = await this.metrics.stages.time({ operation: job.type, stage: 'build' }, () =>
+                        this.build(meshTxBuilder, job)
+                    )
+                    builtTxHash = resolveTxHash(unsignedTx)
+                    const signedTx = await this.pool.sign(lease, unsignedTx)
+                    job = this.transition(id, {
+                        status: 'built',
+                        signedTx,
+                        txHash: resolveTxHash(signedTx),
+                        policyId: meshTxBuilder.policyId
+                    })
+                    this.audit.record(job, { before })
+                }
+
+                if (job.status === 'built') {
+                    const txHash = await this.metrics.stages.time({ operation: job.type, stage: 'submit' }, () =>
+                        provider.submitTx(job.signedTx!)
+                    )
+                    job = this.transition(id, { status: 'submitted', txHash })
+                    this.webhooks.emit('tx.submitted', job)
+                }
+            } finally {
+                lease?.release()
+            }
+            this.follow(id)
+        } catch (error) {
+            if (builtTxHash) this.utxoManager.release(builtTxHash)
+            job = this.transition(id, {
+                status: 'failed',
+                error: { message: (error as Error).message || String(error), stage: job.status }
+            })
+            this.webhooks.emit('tx.failed', job)
+            this.settle(job)
+        }
+    }
+
+    /**
+     * @method confirm
+     * @description
+     * Tracks the transaction of a submitted job until it is confirmed or lost. A lost transaction fails
+     * the job, unless the job is signed by the server wallets: it is then queued again to be rebuilt.
+     */
+    private confirm = async (id: string) => {
+        let job = this.store.get(id)!
+        try {
+            const provider = this.provider()
+            const tracking = await this.track(provider, id, job.txHash!, job.signedTx)
+            this.utxoManager.release(job.txHash!)
+            if (tracking.status !== 'confirmed') {
+                if (tracking.replaceable && !job.signer && (job.rebuilds ?? 0) < this.rebuilds) {
+                    job = this.transition(id, {
+                        status: 'queued',
+                        signedTx: undefined,
+                        txHash: undefined,
+                        rebuilds: (job.rebuilds ?? 0) + 1
+                    })
+                    this.logger.warn('Rebuilding job after its transaction was lost', {
+                        job_id: id,
+                        tx_hash: tracking.txHash,
+                        reason: tracking.status
+                    })
+                    this.schedule(id)
+                    return
+                }
+                job = this.transition(id, {
+                    status: 'failed',
+                    error: { message: tracking.error!, stage: 'submitted', code: tracking.status }
+                })
+                this.webhooks.emit('tx.failed', job)
+                this.settle(job)
+                return
+            }
+            job = this.transition(id, { status: 'confirmed', signedTx: undefined })
+            const after = await this.snapshot(this.reader(job, provider), job.params)
+            const record = this.audit.record(job, { after })
+            this.webhooks.emit('tx.confirmed', job, after)
+            this.settle(job, record.fee)
+        } catch (error) {
+            this.utxoManager.release(job.txHash!)
+            job = this.transition(id, {
+                status: 'failed',
+                error: { message: (error as Error).message || String(error), stage: job.status }
+            })
+            this.webhooks.emit('tx.failed', job)
+            this.settle(job)
+        }
+    }
+
+    /**
+     * @method processBatch
+     * @description
+     * Walks a batch mint through the same states as other jobs, one transaction at a time:
+     * builds every transaction up front, submits them in order (a transaction that fails to submit
+     * also fails the ones chained after it), then hands the job over to {@link JobQueue.confirmBatch}.
+     */
+    private processBatch = async (id: string) => {
+        let job = this.store.get(id)!
+        try {
+            const provider = this.provider()
+            // Chunks are sized from the evaluated execution units, not Mesh's default redeemer budgets.
+            const evaluator = provider.evaluateTx ? (provider as Provider & IEvaluator) : undefined
+
+            const lease = job.status === 'queued' ? await this.pool.acquire('minter') : undefined
+            try {
+                if (lease) {
+                    const before = await this.snapshot(this.reader(job, provider), job.params)
+                    const { transactions, failures, policyId } = await this.metrics.stages.time(
+                        { operation: job.type, stage: 'build' },
+                        () => this.buildBatch(provider, lease, job, { evaluator })
+                    )
+                    if (transactions.length === 0) throw new Error('No item of the batch could be built')
+                    job = this.transition(id, { status: 'built', transactions, failures, policyId })
+                    this.audit.record(job, { before })
+                }
+
+                if (job.status === 'built') {
+                    let failed: string | undefined
+                    for (const transaction of job.transactions!.filter(
+                        (transaction) => transaction.status === 'built'
+                    )) {
+                        try {
+                            if (failed) throw new Error(`Chained after a transaction that failed: ${failed}`)
+                            await this.metrics.stages.time({ operation: job.type, stage: 'submit' }, () =>
+                                provider.submitTx(transaction.signedTx!)
+                            )
+                            Object.assign(transaction, { status: 'submitted' })
+                        } catch (error) {
+                            this.utxoManager.release(transaction.txHash)
+                            failed ??= (error as Error).message || String(error)
+                            Object.assign(transaction, {
+                                status: 'failed',
+                                error: (error as Error).message || String(error)
+                            })
+                        }
+                        job = this.transition(id, { transactions: job.transactions })
+                    }
+                    job = this.transition(id, { status: 'submitted' })
+                    if (job.transactions!.some((transaction) => transaction.status === 'submitted')) {
+                        this.webhooks.emit('tx.submitted', job)
+                    }
+                }
+            } finally {
+                lease?.release()
+            }
+            this.follow(id)
+        } catch (error) {
+            job = this.transition(id, {
+                status: 'failed',
+                error: { message: (error as Error).message || String(error), stage: job.status }
+            })
+            this.webhooks.emit('tx.failed', job)
+            this.settle(job)
+        }
+    }
+
+    /**
+     * @method confirmBatch
+     * @description
+     * Tracks each submitted transaction of a batch mint until it is confirmed or lost. The job ends
+     * `confirmed` if at least one transaction made it, `failed` otherwise. Lost transactions are not
+     * rebuilt: the ones chained after them are lost too.
+     */
+    private confirmBatch = async (id: string) => {
+        let job = this.store.get(id)!
+        try {
+            const provider = this.provider()
+            await Promise.all(
+                job
+                    .transactions!.filter((transaction) => transaction.status === 'submitted')
+                    .map(async (transaction) => {
+                        const tracking = await this.track(provider, id, transaction.txHash, transaction.signedTx)
+                        this.utxoManager.release(transaction.txHash)
+                        Object.assign(
+                            transaction,
+                            tracking.status === 'confirmed'
+                                ? { status: 'confirmed', signedTx: undefined }
+                                : { status: 'failed', error: tracking.error, code: tracking.status }
+                        )
+                        this.transition(id, { transactions: job.transactions })
+                    })
+            )
+            const confirmed = job.transactions!.some((transaction) => transaction.status === 'confirmed')
+            job = this.transition(
+                id,
+                confirmed
+                    ? { status: 'confirmed' }
+                    : {
+                          status: 'failed',
+                          error: { message: 'Every transaction of the batch failed', stage: 'submitted' }
+                      }
+            )
+            if (confirmed) {
+                const after = await this.snapshot(this.reader(job, provider), job.params)
+                const record = this.audit.record(job, { after })
+                this.webhooks.emit('tx.confirmed', job, after)
+                this.settle(job, record.fee)
+            } else {
+                this.webhooks.emit('tx.failed', job)
+                this.settle(job)
+            }
+        } catch (error) {
+            job = this.transition(id, {
+                status: 'failed',
+                error: { message: (error as Error).message || String(error), stage: job.status }
+            })
+            this.webhooks.emit('tx.failed', job)
+            this.settle(job)
+        }
+    }
+
+    /**
+     * @method buildBatch
+     * @description
+     * Splits a batch mint into as few transactions as the protocol allows and builds and signs them.
+     * 1. Starts with all remaining items and builds a transaction spending the UTxOs of the leased
+     *    account (a pool account, or the issuer when the pool is empty); the collateral UTxO is kept
+     *    out of input selection so every transaction can use it.
+     * 2. Measures the signed transaction against `maxTxSize`, `maxTxExMem` and `maxTxExSteps`
+     *    (for a dry run, the unsigned one padded with the vkey witnesses {@link WalletPool.sign} would add);
+     *    if it is too big, retries with the item count scaled down by the overflow ratio.
+     *    A build error halves the chunk, so an item that cannot be built ends up alone and is
+     *    reported as a failure instead of failing the whole batch.
+     * 3. Keeps the transaction, replaces the UTxOs it spends by its change outputs and continues
+     *    with the next items, trying the last chunk size first. Transactions dropped for being
+     *    too big release their UTxO reservation.
+     *
+     * @param {Object} [options]
+     * @param {IEvaluator} [options.evaluator] - Evaluates the scripts instead of the builder.
+     * @param {boolean} [options.dryRun] - Leaves the transactions unsigned (in `unsignedTx`), never using the keys.
+     * @returns The built transactions, the items that failed, and the course policy ID.
+     */
+    private buildBatch = async (
+        provider: Provider,
+        lease: WalletLease,
+        job: Job,
+        { evaluator, dryRun = false }: { evaluator?: IEvaluator; dryRun?: boolean } = {}
+    ) => {
+        const funder = await this.pool.funder(lease)
+        const issuer = this.pool.issuer.getChangeAddress()
+        const address = funder?.address ?? issuer
+        const [collateral] = funder ? [funder.collateral] : await this.pool.issuer.getCollateral()
+        const { maxTxSize, maxTxExMem, maxTxExSteps } = await provider.fetchProtocolParameters(Number.NaN)
+        const isCollateral = (utxo: UTxO) =>
+            !!collateral &&
+            utxo.input.txHash === collateral.input.txHash &&
+            utxo.input.outputIndex === collateral.input.outputIndex
+
+        let utxos = this.utxoManager
+            .available(address, funder?.utxos ?? (await this.pool.issuer.getUtxos()))
+            .filter((utxo) => !isCollateral(utxo))
+        let pending = [...(job.params as MintParams[])]
+        let take = pending.length
+        let policyId = ''
+        const transactions: JobTransaction[] = []
+        const failures: NonNullable<Job['failures']> = []
+        const skip = (error: string) => {
+            failures.push({ assetName: pending[0].assetName, error })
+            pending = pending.slice(1)
+            take = Math.max(1, Math.min(transactions.at(-1)?.assetNames.length ?? pending.length, pending.length))
+        }
+
+        while (pending.length > 0) {
+            const chunk = pending.slice(0, take)
+            const meshTxBuilder = new MeshTxBuilder({
+                signer: { address, utxos, collateral },
+                course: job.course,
+                issuer,
+                provider,
+                evaluator,
+                utxoManager: this.utxoManager
+            })
+            policyId = meshTxBuilder.policyId
+
+            let tx: string
+            try {
+                tx = await meshTxBuilder.mint(chunk)
+                if (!dryRun) tx = await this.pool.sign(lease, tx)
+            } catch (error) {
+                if (take > 1) {
+                    take = Math.ceil(take / 2)
+                    continue
+                }
+                skip((error as Error).message || String(error))
+                continue
+            }
+
+            const redeemers = cst.deserializeTx(tx).witnessSet().redeemers()?.values() ?? []
+            const witnesses = dryRun ? (lease.index === 0 ? 1 : 2) : 0
+            const ratio = Math.min(
+                maxTxSize / (tx.length / 2 + witnesses * VKEY_WITNESS_SIZE),
+                Number(maxTxExMem) / redeemers.reduce((total, redeemer) => total + Number(redeemer.exUnits().mem()), 0),
+                Number(maxTxExSteps) /
+                    redeemers.reduce((total, redeemer) => total + Number(redeemer.exUnits().steps()), 0)
+            )
+            if (ratio < 1) {
+                this.utxoManager.release(resolveTxHash(tx))
+                if (take > 1) {
+                    take = Math.max(1, Math.min(take - 1, Math.floor(take * ratio)))
+                    continue
+                }
+                skip('Item alone exceeds the transaction limits')
+                continue
+            }
+
+            transactions.push({
+                index: transactions.length,
+                assetNames: chunk.map((item) => item.assetName),
+                status: 'built',
+                txHash: resolveTxHash(tx),
+                fee: cst.deserializeTx(tx).body().fee().toString(),
+                ...(dryRun ? { unsignedTx: tx } : { signedTx: tx })
+            })
+            utxos = chainUtxos(utxos, tx, address)
+            pending = pending.slice(take)
+            take = Math.max(1, Math.min(take, pending.length))
+        }
+        return { transactions, failures, policyId }
+    }
+
+    /**
+     * Awaits the confirmation of a submitted job in the background, so its worker can take the next job.
+     */
+    private follow = (id: string) => {
+        const job = this.store.get(id)!
+        const confirmation: Promise<void> = (
+            job.type === 'batch-mint' && !job.signer ? this.confirmBatch(id) : this.confirm(id)
+        ).finally(() => {
+            this.confirming.delete(confirmation)
+        })
+        this.confirming.add(confirmation)
+    }
+
+    /**
+     * Tracks a transaction of a job, sending `tx.rolled_back` each time it leaves the chain.
+     */
+    private track = (provider: Provider, id: string, txHash: string, signedTx?: string) => {
+        const job = this.store.get(id)!
+        return this.metrics.stages.time({ operation: job.type, stage: 'confirm' }, () =>
+            this.tracker.track(provider, txHash, {
+                signedTx,
+                onRollback: () => {
+                    this.logger.warn('Transaction rolled back', { job_id: id, tx_hash: txHash })
+                    this.webhooks.emit('tx.rolled_back', this.store.get(id)!)
+                }
+            })
+        )
+    }
+
+    /**
+     * Counts and logs a job that reached its final state, with the fee its transactions paid once confirmed.
+     */
+    private settle = (job: Job, fee?: string | null) => {
+        if (Date.now() - this.pruned >= PRUNE_INTERVAL) this.prune()
+        this.metrics.operations.inc({ operation: job.type, course: job.course, status: job.status })
+        if (job.status === 'confirmed') {
+            if (fee) this.metrics.fees.inc({ operation: job.type, course: job.course }, Number(fee))
+            this.logger.info('Job confirmed', { job_id: job.id, operation: job.type, course: job.course, fee })
+        } else {
+            this.logger.warn('Job failed', {
+                job_id: job.id,
+                operation: job.type,
+                course: job.course,
+                stage: job.error?.stage,
+                code: job.error?.code,
+                error: job.error?.message
+            })
+        }
+    }
+
+    /**
+     * Mints are funded by any pool account; updates and burns spend the issuer's own tokens and reference UTxOs.
+     */
+    private role = (job: Job): 'issuer' | 'minter' => {
+        return job.type === 'mint' || job.type === 'batch-mint' ? 'minter' : 'issuer'
+    }
+
+    private build = async (meshTxBuilder: MeshTxBuilder, job: Job) => {
+        switch (job.type) {
+            case 'mint':
+            case 'batch-mint':
+                return meshTxBuilder.mint(job.params as MintParams[])
+            case 'update':
+                return meshTxBuilder.update(job.params as UpdateParams[])
+            case 'burn':
+                return meshTxBuilder.burn(job.params as BurnParams[])
+        }
+    }
+
+    /**
+     * Describes a built transaction for {@link JobQueue.estimate}: fee, size, budget of each redeemer, and its
+     * outputs with the CIP-68 metadata of those locked at the store address.
+     */
+    private describe = async (tx: string, assetNames: string[], storeAddress: string): Promise<TxEstimate> => {
+        const transaction = cst.deserializeTx(tx)
+        const { txHash, produced } = readTxUtxos(tx)
+        const lovelace = (utxo: UTxO) =>
+            BigInt(utxo.output.amount.find((amount) => amount.unit === 'lovelace')?.quantity ?? 0)
+        const stored = produced.filter((utxo) => utxo.output.address === storeAddress)
+        return {
+            txHash,
+            assetNames,
+            size: tx.length / 2,
+            fee: transaction.body().fee().toString(),
+            exUnits: (transaction.witnessSet().redeemers()?.values() ?? []).map((redeemer) => ({
+                tag: REDEEMER_TAGS[redeemer.tag()],
+                index: Number(redeemer.index()),
+                mem: Number(redeemer.exUnits().mem()),
+                steps: Number(redeemer.exUnits().steps())
+            })),
+            storeLovelace: stored.reduce((sum, utxo) => sum + lovelace(utxo), 0n).toString(),
+            outputs: await Promise.all(
+                produced.map(async (utxo) => ({
+                    address: utxo.output.address,
+                    amount: utxo.output.amount,
+                    metadata:
+                        utxo.output.address === storeAddress && utxo.output.plutusData
+                            ? (await decodeCip68Datum(utxo.output.plutusData)).metadata
+                            : null,
+                    referenceScript: utxo.output.scriptRef !== undefined
+                }))
+            )
+        }
+    }
+
+    /**
+     * Builder used only to read the assets of a job's course, with the issuer that parameterized its scripts.
+     */
+    private reader = (job: Job, provider: Provider): MeshTxBuilder => {
+        return new MeshTxBuilder({
+            course: job.course,
+            issuer: job.signer ?? this.pool.issuer.getChangeAddress(),
+            provider,
+            utxoManager: this.utxoManager
+        })
+    }
+
+    /**
+     * Reads the current metadata of the job's assets for the audit log; a failed read is left out of the record
+     * rather than failing the job.
+     */
+    private snapshot = async (
+        meshTxBuilder: MeshTxBuilder,
+        params: Job['params']
+    ): Promise<MetadataSnapshot | undefined> => {
+        try {
+            const assets = await Promise.all(params.map((param) => meshTxBuilder.getAsset(param.assetName)))
+            return Object.fromEntries(params.map((param, index) => [param.assetName, assets[index]?.metadata ?? null]))
+        } catch {
+            return undefined
+        }
+    }
+
+    private transition = (id: string, patch: Partial<Job>): Job => {
+        const job = this.store.update(id, { ...patch, updatedAt: new Date().toISOString() })
+        this.audit.record(job)
+        return job
+    }
+}
+
+export const jobQueue = new JobQueue()
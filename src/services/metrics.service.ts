@@ -0,0 +1,212 @@
+type Labels = Record<string, string>
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+const STAGE_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1200]
+
+/**
+ * Renders a label set as `{name="value",...}`, escaped as the Prometheus text format requires.
+ */
+const formatLabels = function (labels: Labels): string {
+    const pairs = Object.entries(labels).map(
+        ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    )
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+/**
+ * One metric family: its samples keyed by label set, and how to render them.
+ */
+abstract class Metric<T> {
+    public readonly name: string
+    private readonly help: string
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+    protected readonly series = new Map<string, { labels: Labels; value: T }>()
+
+    constructor(name: string, help: string, type: 'counter' | 'gauge' | 'histogram') {
+        this.name = name
+        this.help = help
+        this.type = type
+    }
+
+    public render = (): string => {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+        this.series.forEach(({ labels, value }) => lines.push(...this.lines(labels, value)))
+        return lines.join('\n')
+    }
+
+    protected key = (labels: Labels) => {
+        return JSON.stringify(Object.entries(labels).sort())
+    }
+
+    protected entry = (labels: Labels, initial: () => T) => {
+        const key = this.key(labels)
+        if (!this.series.has(key)) this.series.set(key, { labels, value: initial() })
+        return this.series.get(key)!
+    }
+
+    protected abstract lines(labels: Labels, value: T): string[]
+}
+
+export class Counter extends Metric<number> {
+    constructor(name: string, help: string) {
+        super(name, help, 'counter')
+    }
+
+    public inc = (labels: Labels = {}, value = 1) => {
+        this.entry(labels, () => 0).value += value
+    }
+
+    public get = (labels: Labels = {}): number => {
+        return this.series.get(this.key(labels))?.value ?? 0
+    }
+
+    protected lines(labels: Labels, value: number) {
+        return [`${this.name}${formatLabels(labels)} ${value}`]
+    }
+}
+
+export class Gauge extends Metric<number> {
+    constructor(name: string, help: string) {
+        super(name, help, 'gauge')
+    }
+
+    public set = (labels: Labels, value: number) => {
+        this.entry(labels, () => 0).value = value
+    }
+
+    protected lines(labels: Labels, value: number) {
+        return [`${this.name}${formatLabels(labels)} ${value}`]
+    }
+}
+
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+    private readonly bounds: number[]
+
+    constructor(name: string, help: string, bounds: number[]) {
+        super(name, help, 'histogram')
+        this.bounds = bounds
+    }
+
+    public count = (labels: Labels = {}): number => {
+        return this.series.get(this.key(labels))?.value.count ?? 0
+    }
+
+    public observe = (labels: Labels, value: number) => {
+        const series = this.entry(labels, () => ({ buckets: this.bounds.map(() => 0), sum: 0, count: 0 })).value
+        this.bounds.forEach((bound, index) => {
+            if (value <= bound) series.buckets[index] += 1
+        })
+        series.sum += value
+        series.count += 1
+    }
+
+    /**
+     * @method time
+     * @description Observes how long `work` takes, in seconds, whether it resolves or rejects.
+     */
+    public time = async <T>(labels: Labels, work: () => Promise<T>): Promise<T> => {
+        const start = performance.now()
+        try {
+            return await work()
+        } finally {
+            this.observe(labels, (performance.now() - start) / 1000)
+        }
+    }
+
+    protected lines(labels: Labels, value: { buckets: number[]; sum: number; count: number }) {
+        return [
+            ...this.bounds.map(
+                (bound, index) =>
+                    `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`
+            ),
+            `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+            `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+            `${this.name}_count${formatLabels(labels)} ${value.count}`
+        ]
+    }
+}
+
+/**
+ * @class Metrics
+ * @description
+ * In-process metrics of the service, served at `/metrics` in the Prometheus text format:
+ * - `contract_operations_total{operation,course,status}`: jobs that reached `confirmed` or `failed`.
+ * - `contract_operation_stage_seconds{operation,stage}`: time to build, submit and confirm their transactions.
+ * - `contract_fees_lovelace_total{operation,course}`: fees paid by confirmed operations.
+ * - `provider_request_duration_seconds{method}` and `provider_errors_total{method}`: calls to the chain provider.
+ * - `issuer_wallet_balance_lovelace`: ADA held by the issuer wallet, read at scrape time.
+ * - `http_requests_total{method,route,status}` and `http_request_duration_seconds{method,route}`.
+ */
+export class Metrics {
+    public readonly operations = new Counter('contract_operations_total', 'Contract operations by final status')
+    public readonly stages = new Histogram(
+        'contract_operation_stage_seconds',
+        'Time spent building, submitting and confirming contract transactions',
+        STAGE_BUCKETS
+    )
+    public readonly fees = new Counter('contract_fees_lovelace_total', 'Fees paid by confirmed contract operations')
+    public readonly providerRequests = new Histogram(
+        'provider_request_duration_seconds',
+        'Duration of chain provider calls',
+        LATENCY_BUCKETS
+    )
+    public readonly providerErrors = new Counter('provider_errors_total', 'Chain provider calls that failed')
+    public readonly issuerBalance = new Gauge('issuer_wallet_balance_lovelace', 'Lovelace held by the issuer wallet')
+    public readonly requests = new Counter('http_requests_total', 'HTTP requests by route and status')
+    public readonly requestDuration = new Histogram(
+        'http_request_duration_seconds',
+        'Duration of HTTP requests',
+        LATENCY_BUCKETS
+    )
+
+    /**
+     * @method instrument
+     * @description
+     * Wraps a chain provider so the duration and failures of every asynchronous call are recorded by method.
+     * Lookups of transactions not on chain yet count as errors too (`fetchTxInfo` while a transaction is tracked).
+     */
+    public instrument = <T extends object>(provider: T): T => {
+        return new Proxy(provider, {
+            get: (target, property, receiver) => {
+                const value = Reflect.get(target, property, receiver)
+                if (typeof value !== 'function' || typeof property !== 'string') return value
+                return (...args: unknown[]) => {
+                    const start = performance.now()
+                    const result = value.apply(target, args)
+                    if (!(result instanceof Promise)) return result
+                    return result
+                        .catch((error) => {
+                            this.providerErrors.inc({ method: property })
+                            throw error
+                        })
+                        .finally(() => {
+                            this.providerRequests.observe({ method: property }, (performance.now() - start) / 1000)
+                        })
+                }
+            }
+        })
+    }
+
+    /**
+     * @method render
+     * @description The current value of every metric, in the Prometheus text exposition format.
+     */
+    public render = (): string => {
+        return (
+            [
+                this.operations,
+                this.stages,
+                this.fees,
+                this.providerRequests,
+                this.providerErrors,
+                this.issuerBalance,
+                this.requests,
+                this.requestDuration
+            ]
+                .map((metric) => metric.render())
+                .join('\n') + '\n'
+        )
+    }
+}
+
+export const metrics = new Metrics()
@@ -0,0 +1,209 @@
+import { MeshTxBuilder, MeshWallet, UTxO } from '@meshsdk/core'
+import {
+    APP_NETWORK,
+    WALLET_POOL_SIZE,
+    WALLET_POOL_UTXO_LOVELACE,
+    WALLET_POOL_UTXOS
+} from '../constants/enviroments.constant.js'
+import { getProvider } from '../providers/index.provider.js'
+import { ExternalSigner, WalletLease } from '../types/index.js'
+import { createWallet, getWallet, UtxoManager, utxoManager } from './wallet.service.js'
+
+/**
+ * An account is refilled once it has fewer than this many ADA-only UTxOs of at least 5 ADA
+ * (one serves as collateral, the others pay fees and minimum ADA).
+ */
+const MIN_FUNDED_UTXOS = 2
+
+const isFunded = (utxo: UTxO) =>
+    utxo.output.amount.length === 1 &&
+    utxo.output.amount[0].unit === 'lovelace' &&
+    Number(utxo.output.amount[0].quantity) >= 5000000
+
+/**
+ * @class WalletPool
+ * @description
+ * Accounts derived from `APP_MNEMONIC` that fund mint transactions in parallel.
+ *
+ * The course scripts are parameterized with the issuer address (account 0), so every transaction must
+ * keep the issuer key as required signer to stay under the same policy ID and store address. Pool
+ * accounts (1 to `WALLET_POOL_SIZE`) only pay fees, minimum ADA and collateral from their own UTxOs,
+ * and the transaction is signed by both the pool account and the issuer.
+ *
+ * Each account is lent to one job at a time ({@link WalletPool.acquire}). Mints take any free pool
+ * account, while updates, burns and funding use the issuer itself. Before lending a pool account, the
+ * pool tops up every account running low with `WALLET_POOL_UTXOS` fresh UTxOs of
+ * `WALLET_POOL_UTXO_LOVELACE` from the issuer, splitting the issuer funds into many small UTxOs.
+ * With a pool size of 0 every job uses the issuer wallet, one at a time.
+ */
+export class WalletPool {
+    public readonly size: number
+    public readonly utxoManager: UtxoManager
+    private readonly wallet: (accountIndex: number) => MeshWallet
+    private readonly utxosPerAccount: number
+    private readonly lovelacePerUtxo: number
+    private readonly wallets = new Map<number, MeshWallet>()
+    private readonly busy = new Set<number>()
+    private waiters: (() => void)[] = []
+
+    /**
+     * @constructor
+     * @param {Object} [options]
+     * @param {number} [options.size] - Number of pool accounts besides the issuer, `WALLET_POOL_SIZE` by default.
+     * @param {(accountIndex: number) => MeshWallet} [options.wallet] - Factory for the account wallets
+     *   (the shared issuer wallet for account 0 and `APP_MNEMONIC` accounts otherwise).
+     * @param {UtxoManager} [options.utxoManager] - Tracks UTxOs spent by pending transactions (the shared one by default).
+     * @param {number} [options.utxosPerAccount] - UTxOs added to an account running low, `WALLET_POOL_UTXOS` by default.
+     * @param {number} [options.lovelacePerUtxo] - Lovelace in each of those UTxOs, `WALLET_POOL_UTXO_LOVELACE` by default.
+     */
+    constructor({
+        size = WALLET_POOL_SIZE,
+        wallet = (accountIndex: number) =>
+            accountIndex === 0 ? getWallet() : createWallet(getProvider(), accountIndex),
+        utxoManager: utxos = utxoManager,
+        utxosPerAccount = WALLET_POOL_UTXOS,
+        lovelacePerUtxo = WALLET_POOL_UTXO_LOVELACE
+    }: {
+        size?: number
+        wallet?: (accountIndex: number) => MeshWallet
+        utxoManager?: UtxoManager
+        utxosPerAccount?: number
+        lovelacePerUtxo?: number
+    } = {}) {
+        this.size = size
+        this.wallet = wallet
+        this.utxoManager = utxos
+        this.utxosPerAccount = utxosPerAccount
+        this.lovelacePerUtxo = lovelacePerUtxo
+    }
+
+    /**
+     * @method account
+     * @description Returns the wallet of an account, deriving it on first use.
+     */
+    public account = (accountIndex: number): MeshWallet => {
+        if (!this.wallets.has(accountIndex)) this.wallets.set(accountIndex, this.wallet(accountIndex))
+        return this.wallets.get(accountIndex)!
+    }
+
+    public get issuer(): MeshWallet {
+        return this.account(0)
+    }
+
+    /**
+     * @method acquire
+     * @description
+     * Lends an account until the lease is released, waiting for one to be free.
+     * - `issuer`: the issuer wallet, for updates, burns and funding.
+     * - `minter`: any pool account, topped up first if it runs low (the issuer when the pool is empty).
+     *
+     * @param {'issuer' | 'minter'} role - What the account is used for.
+     * @returns {Promise<WalletLease>} The lease; call `release` once the transaction is submitted.
+     */
+    public acquire = async (role: 'issuer' | 'minter'): Promise<WalletLease> => {
+        const candidates =
+            role === 'issuer' || this.size === 0 ? [0] : Array.from({ length: this.size }, (_, index) => index + 1)
+        let index = candidates.find((candidate) => !this.busy.has(candidate))
+        while (index === undefined) {
+            await new Promise<void>((resolve) => this.waiters.push(resolve))
+            index = candidates.find((candidate) => !this.busy.has(candidate))
+        }
+        this.busy.add(index)
+        const lease = {
+            index,
+            wallet: this.account(index),
+            release: () => {
+                if (!this.busy.delete(index)) return
+                const waiters = this.waiters
+                this.waiters = []
+                waiters.forEach((resolve) => resolve())
+            }
+        }
+        if (index === 0) return lease
+
+        try {
+            if ((await this.fundedUtxos(index)).length < MIN_FUNDED_UTXOS) await this.fund()
+        } catch (error) {
+            lease.release()
+            throw error
+        }
+        return lease
+    }
+
+    /**
+     * @method funder
+     * @description
+     * Describes the UTxOs of a leased pool account so a `MeshTxBuilder` spends them instead of the issuer's
+     * (see {@link ExternalSigner}). Returns undefined for the issuer itself.
+     */
+    public funder = async (lease: WalletLease): Promise<ExternalSigner | undefined> => {
+        if (lease.index === 0) return undefined
+        const [collateral] = await this.fundedUtxos(lease.index)
+        return {
+            address: lease.wallet.getChangeAddress(),
+            utxos: await lease.wallet.getUtxos(),
+            collateral
+        }
+    }
+
+    /**
+     * @method sign
+     * @description Signs a transaction with the leased account and, as required signer, the issuer.
+     */
+    public sign = async (lease: WalletLease, unsignedTx: string): Promise<string> => {
+        const signedTx = lease.index === 0 ? unsignedTx : await lease.wallet.signTx(unsignedTx, true)
+        return this.issuer.signTx(signedTx, true)
+    }
+
+    /**
+     * @method fund
+     * @description
+     * Sends `utxosPerAccount` UTxOs of `lovelacePerUtxo` from the issuer to every pool account with fewer
+     * than two funded UTxOs, in one transaction. The outputs can be spent right away: the transaction is
+     * reserved in the {@link UtxoManager}, so pool transactions chain on it.
+     *
+     * @returns {Promise<string | null>} The funding tx hash, or null if no account needed funds.
+     */
+    public fund = async (): Promise<string | null> => {
+        const lease = await this.acquire('issuer')
+        try {
+            const low: string[] = []
+            for (let index = 1; index <= this.size; index++) {
+                if ((await this.fundedUtxos(index)).length < MIN_FUNDED_UTXOS) {
+                    low.push(this.account(index).getChangeAddress())
+                }
+            }
+            if (low.length === 0) return null
+
+            const issuerAddress = this.issuer.getChangeAddress()
+            const txBuilder = new MeshTxBuilder()
+            low.forEach((address) => {
+                for (let count = 0; count < this.utxosPerAccount; count++) {
+                    txBuilder.txOut(address, [{ unit: 'lovelace', quantity: String(this.lovelacePerUtxo) }])
+                }
+            })
+            const unsignedTx = await txBuilder
+                .changeAddress(issuerAddress)
+                .selectUtxosFrom(this.utxoManager.available(issuerAddress, await this.issuer.getUtxos()))
+                .setNetwork(APP_NETWORK)
+                .complete()
+            const txHash = this.utxoManager.reserve(unsignedTx)
+            try {
+                await this.issuer.submitTx(await this.issuer.signTx(unsignedTx))
+            } catch (error) {
+                this.utxoManager.release(txHash)
+                throw error
+            }
+            return txHash
+        } finally {
+            lease.release()
+        }
+    }
+
+    private fundedUtxos = async (accountIndex: number): Promise<UTxO[]> => {
+        const wallet = this.account(accountIndex)
+        return this.utxoManager.available(wallet.getChangeAddress(), await wallet.getUtxos()).filter(isFunded)
+    }
+}
+
+export const walletPool = new WalletPool()
@@ -0,0 +1,31 @@
+import { JsonStore } from '../stores/json.store.js'
+import { ReferenceScriptRecord } from '../types/index.js'
+
+/**
+ * @class ReferenceScripts
+ * @description
+ * Where the reference UTxOs holding each course's mint and store scripts were deployed, per
+ * (course, issuer, network), kept in a {@link JsonStore}. The records are only pointers: builders
+ * still check the outputs are unspent before using them (see {@link MeshAdapter.getReferenceScripts}).
+ */
+export class ReferenceScripts {
+    private readonly store: JsonStore<ReferenceScriptRecord>
+
+    /**
+     * @constructor
+     * @param {JsonStore<ReferenceScriptRecord>} [store] - Where the reference UTxOs are recorded.
+     */
+    constructor(store = new JsonStore<ReferenceScriptRecord>('reference-scripts')) {
+        this.store = store
+    }
+
+    public get = (course: string, issuer: string, networkId: number): ReferenceScriptRecord | undefined => {
+        return this.store.get(JSON.stringify([networkId, issuer, course]))
+    }
+
+    public set = (record: ReferenceScriptRecord): ReferenceScriptRecord => {
+        return this.store.set(JSON.stringify([record.networkId, record.issuer, record.course]), record)
+    }
+}
+
+export const referenceScripts = new ReferenceScripts()
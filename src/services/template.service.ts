@@ -0,0 +1,149 @@
+import { JsonStore } from '../stores/json.store.js'
+import { CertificateTemplate, Cip68Metadata, Cip68Value, FieldError, TemplateField } from '../types/index.js'
+
+const FIELD_TYPES = ['string', 'integer', 'boolean', 'list', 'map']
+
+/**
+ * Fields set by the service itself (`_pk` is the issuer pubkey hash): templates cannot define them and
+ * clients cannot send them.
+ */
+const RESERVED_FIELDS = ['_pk']
+
+/**
+ * @function checkValue
+ * @description Returns why `value` does not fit `field`, or null when it does.
+ */
+const checkValue = function (field: TemplateField, value: Cip68Value): string | null {
+    switch (field.type) {
+        case 'string':
+            if (typeof value !== 'string') return 'must be a string'
+            if (field.maxLength !== undefined && Buffer.byteLength(value, 'utf-8') > field.maxLength) {
+                return `must be at most ${field.maxLength} bytes (UTF-8), got ${Buffer.byteLength(value, 'utf-8')}`
+            }
+            return null
+        case 'integer':
+            return Number.isSafeInteger(value) ? null : 'must be an integer'
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'must be a boolean'
+        case 'list':
+            if (!Array.isArray(value)) return 'must be a list'
+            if (field.maxLength !== undefined && value.length > field.maxLength) {
+                return `must have at most ${field.maxLength} items, got ${value.length}`
+            }
+            return null
+        case 'map':
+            return value && typeof value === 'object' && !Array.isArray(value) ? null : 'must be an object'
+    }
+}
+
+/**
+ * @class CertificateTemplates
+ * @description
+ * Per-course certificate templates: the metadata fields an issuer allows, their types, byte limits
+ * and defaults (e.g. `image`, `mediaType`). Mint and update requests are checked against the
+ * template of their course before any transaction is built, so typos never reach the chain.
+ * Courses without a template accept any metadata, as before.
+ */
+export class CertificateTemplates {
+    private readonly store: JsonStore<CertificateTemplate>
+
+    /**
+     * @constructor
+     * @param {JsonStore<CertificateTemplate>} [store] - Where templates are persisted.
+     */
+    constructor(store: JsonStore<CertificateTemplate> = new JsonStore<CertificateTemplate>('templates')) {
+        this.store = store
+    }
+
+    public get = (course: string): CertificateTemplate | undefined => {
+        return this.store.get(course)
+    }
+
+    /**
+     * @method set
+     * @description
+     * Registers or replaces the template of a course after checking each field definition:
+     * a known type, a positive integer `maxLength` (strings and lists only) and a default that fits the field.
+     *
+     * @param {string} course - The course identifier.
+     * @param {Record<string, TemplateField>} fields - Field definitions keyed by metadata field name.
+     * @returns {{ template?: CertificateTemplate, errors: FieldError[] }} The stored template, or the definition errors.
+     */
+    public set = (
+        course: string,
+        fields: Record<string, TemplateField>
+    ): { template?: CertificateTemplate; errors: FieldError[] } => {
+        const errors: FieldError[] = []
+        Object.entries(fields).forEach(([name, field]) => {
+            if (RESERVED_FIELDS.includes(name)) {
+                errors.push({ field: name, message: 'is reserved' })
+            } else if (!field || !FIELD_TYPES.includes(field.type)) {
+                errors.push({ field: name, message: `type must be one of ${FIELD_TYPES.join(', ')}` })
+            } else if (
+                field.maxLength !== undefined &&
+                (!['string', 'list'].includes(field.type) || !Number.isInteger(field.maxLength) || field.maxLength < 1)
+            ) {
+                errors.push({ field: name, message: 'maxLength must be a positive integer on a string or list field' })
+            } else if (field.default !== undefined && checkValue(field, field.default)) {
+                errors.push({ field: name, message: `default ${checkValue(field, field.default)}` })
+            }
+        })
+        if (errors.length > 0) return { errors }
+
+        const now = new Date().toISOString()
+        const template = this.store.set(course, {
+            course,
+            fields: Object.fromEntries(
+                Object.entries(fields).map(([name, { type, required, maxLength, default: fallback }]) => [
+                    name,
+                    { type, required: Boolean(required), maxLength, default: fallback }
+                ])
+            ),
+            createdAt: this.store.get(course)?.createdAt ?? now,
+            updatedAt: now
+        })
+        return { template, errors }
+    }
+
+    /**
+     * @method apply
+     * @description
+     * Validates metadata against the template of its course and fills in defaults.
+     * 1. Rejects reserved fields such as `_pk`, whether or not the course has a template, and fields the
+     *    template does not define.
+     * 2. Fills missing fields that have a default, then rejects missing required fields.
+     * 3. Checks every value against its field type and `maxLength`.
+     *
+     * @param {string} course - The course identifier.
+     * @param {Cip68Metadata} metadata - The metadata sent by the client.
+     * @returns {{ metadata: Cip68Metadata, errors: FieldError[] }} The merged metadata and the per-field errors.
+     */
+    public apply = (course: string, metadata: Cip68Metadata): { metadata: Cip68Metadata; errors: FieldError[] } => {
+        if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+            return { metadata, errors: [{ field: 'metadata', message: 'must be an object' }] }
+        }
+        const errors: FieldError[] = Object.keys(metadata)
+            .filter((name) => RESERVED_FIELDS.includes(name))
+            .map((name) => ({ field: name, message: 'is set by the service' }))
+        const template = this.store.get(course)
+        if (!template) return { metadata, errors }
+
+        Object.keys(metadata)
+            .filter((name) => !template.fields[name] && !RESERVED_FIELDS.includes(name))
+            .forEach((name) => errors.push({ field: name, message: 'is not defined in the course template' }))
+
+        const merged: Cip68Metadata = { ...metadata }
+        Object.entries(template.fields).forEach(([name, field]) => {
+            if (merged[name] === undefined && field.default !== undefined) merged[name] = field.default
+            if (merged[name] === undefined) {
+                if (field.required) errors.push({ field: name, message: 'is required' })
+                return
+            }
+            const problem = checkValue(field, merged[name])
+            if (problem) errors.push({ field: name, message: problem })
+        })
+        return { metadata: merged, errors }
+    }
+}
+
+export const certificateTemplates = new CertificateTemplates()
@@ -0,0 +1,240 @@
+import { setTimeout as sleep } from 'timers/promises'
+import { cst, TransactionInfo } from '@meshsdk/core'
+import {
+    TX_CONFIRM_DEPTH,
+    TX_CONFIRM_TIMEOUT,
+    TX_POLL_INTERVAL,
+    TX_RESUBMIT_AFTER
+} from '../constants/enviroments.constant.js'
+import { Provider, TxTracking, TxTrackingStatus } from '../types/index.js'
+
+/**
+ * Submission errors meaning the transaction can never be valid again, as worded by the node (Blockfrost,
+ * Koios, the emulator) or by Ogmios.
+ */
+const EXPIRED = /OutsideValidityInterval|outsideOfValidityInterval/i
+const SPENT = /BadInputs|unknownOutputReferences|UnknownInputs/i
+
+/**
+ * Lookup errors meaning the provider does not know the transaction, as opposed to failing to answer.
+ * Koios answers an unknown transaction with an empty list, which Mesh throws as the string `"[]"`.
+ */
+const NOT_FOUND = /not found|status 404|"status":\s*404|^"?\[\]"?$/i
+
+/**
+ * Errors of providers that cannot answer a kind of lookup at all (Ogmios/Kupo has no block info).
+ */
+const UNSUPPORTED = /is not supported/i
+
+/**
+ * @class TxTracker
+ * @description
+ * Follows submitted transactions until they are buried under enough blocks, polling the provider
+ * instead of relying on `onTxConfirmed`, which never reports a transaction that does not make it.
+ *
+ * A transaction is confirmed once its block has `depth` confirmations. Until then, each poll handles
+ * what can go wrong on the way:
+ * - Not seen `resubmitAfter` seconds after submission: it may have left the mempool, so it is submitted
+ *   again. If the node rejects it as expired, tracking stops there. If it rejects it as spending spent
+ *   inputs, tracking only stops once one of those inputs is spent on chain by another transaction:
+ *   until then, the inputs are spent by the transaction itself, still waiting in the node's mempool.
+ * - Seen, then gone: its block was rolled back. `onRollback` is called and it is resubmitted right away,
+ *   with a fresh `timeout`.
+ * - Still not deep enough after `timeout` seconds: tracking stops with `timeout`.
+ *
+ * Only a lookup the provider answers with "not found" counts as the transaction being absent; when the
+ * provider fails to answer, the poll is skipped. Likewise, a failed block lookup leaves the confirmation
+ * count where it was.
+ *
+ * Providers that cannot report block depth (Ogmios/Kupo) count a transaction as confirmed once it is in a block.
+ */
+export class TxTracker {
+    private readonly interval: number
+    private readonly timeout: number
+    private readonly depth: number
+    private readonly resubmitAfter: number
+
+    /**
+     * @constructor
+     * @param {Object} [options]
+     * @param {number} [options.interval] - Delay between polls, in seconds (`TX_POLL_INTERVAL`).
+     * @param {number} [options.timeout] - How long to wait for the required depth, in seconds (`TX_CONFIRM_TIMEOUT`).
+     * @param {number} [options.depth] - Confirmations required (`TX_CONFIRM_DEPTH`).
+     * @param {number} [options.resubmitAfter] - How long an unseen transaction waits before it is resubmitted,
+     * in seconds (`TX_RESUBMIT_AFTER`).
+     */
+    constructor({
+        interval = TX_POLL_INTERVAL,
+        timeout = TX_CONFIRM_TIMEOUT,
+        depth = TX_CONFIRM_DEPTH,
+        resubmitAfter = TX_RESUBMIT_AFTER
+    }: {
+        interval?: number
+        timeout?: number
+        depth?: number
+        resubmitAfter?: number
+    } = {}) {
+        this.interval = interval
+        this.timeout = timeout
+        this.depth = depth
+        this.resubmitAfter = resubmitAfter
+    }
+
+    /**
+     * @method track
+     * @description Polls the provider until the transaction is confirmed or cannot be anymore.
+     *
+     * @param {Provider} provider - The provider the transaction was submitted to.
+     * @param {string} txHash - The transaction to follow.
+     * @param {Object} [options]
+     * @param {string} [options.signedTx] - The signed transaction, needed to resubmit it.
+     * @param {() => void} [options.onRollback] - Called each time the transaction leaves the chain.
+     * @returns {Promise<TxTracking>} How tracking ended; it never rejects.
+     */
+    public track = async (
+        provider: Provider,
+        txHash: string,
+        { signedTx, onRollback }: { signedTx?: string; onRollback?: () => void } = {}
+    ): Promise<TxTracking> => {
+        let deadline = Date.now() + this.timeout * 1000
+        let submittedAt = Date.now()
+        let block: string | undefined
+        let confirmations = 0
+        let resubmissions = 0
+        let rolledBack = false
+        let dropped = false
+        let error: string | null = null
+
+        const resubmit = async () => {
+            submittedAt = Date.now()
+            if (!signedTx) return
+            try {
+                await provider.submitTx(signedTx)
+                resubmissions += 1
+                error = null
+            } catch (failure) {
+                error = (failure as Error).message || String(failure)
+            }
+        }
+
+        for (;;) {
+            let info: TransactionInfo | null
+            try {
+                info = await this.lookup(provider, txHash)
+            } catch {
+                // The provider did not answer (timeout, 5xx, rate limit): nothing is known to have changed.
+                if (Date.now() >= deadline) break
+                await sleep(this.interval * 1000)
+                continue
+            }
+            if (info) {
+                const previous = info.block === block ? confirmations : 0
+                block = info.block
+                rolledBack = false
+                error = null
+                confirmations = await this.confirmations(provider, info.block, previous)
+                if (confirmations >= this.depth) {
+                    return {
+                        txHash,
+                        status: 'confirmed',
+                        confirmations,
+                        resubmissions,
+                        replaceable: false,
+                        error: null
+                    }
+                }
+            } else if (block) {
+                block = undefined
+                confirmations = 0
+                rolledBack = true
+                onRollback?.()
+                deadline = Date.now() + this.timeout * 1000
+                await resubmit()
+            } else if (error && EXPIRED.test(error)) {
+                break
+            } else if (
+                error &&
+                SPENT.test(error) &&
+                signedTx &&
+                (await this.spentElsewhere(provider, txHash, signedTx))
+            ) {
+                dropped = true
+                break
+            } else if (Date.now() - submittedAt >= this.resubmitAfter * 1000) {
+                await resubmit()
+            }
+            if (Date.now() >= deadline) break
+            await sleep(this.interval * 1000)
+        }
+
+        const status: TxTrackingStatus = rolledBack
+            ? 'rolled_back'
+            : error && EXPIRED.test(error)
+              ? 'expired'
+              : dropped
+                ? 'dropped'
+                : 'timeout'
+        const replaceable = status === 'expired' || status === 'dropped'
+        const reason = {
+            rolled_back: `was rolled back and ${error ? `could not be resubmitted: ${error}` : 'did not land again in time'}`,
+            expired: `expired before reaching a block: ${error}`,
+            dropped: `was dropped and its inputs are spent: ${error}`,
+            timeout: `was not confirmed within ${this.timeout} seconds (${confirmations}/${this.depth} confirmations)`
+        }[status as Exclude<TxTrackingStatus, 'confirmed'>]
+        return { txHash, status, confirmations, resubmissions, replaceable, error: `Transaction ${txHash} ${reason}` }
+    }
+
+    /**
+     * Looks a transaction up: `null` when the provider does not know it (404 or empty answer).
+     * Any other failure is thrown, since it says nothing about where the transaction is.
+     */
+    private lookup = async (provider: Provider, txHash: string): Promise<TransactionInfo | null> => {
+        try {
+            return (await provider.fetchTxInfo(txHash)) || null
+        } catch (failure) {
+            const message = failure instanceof Error ? failure.message : String(failure)
+            if (NOT_FOUND.test(message)) return null
+            throw failure
+        }
+    }
+
+    /**
+     * Tells whether an input of a transaction was spent on chain by another one: its output is no longer
+     * unspent at its address while the transaction itself is in no block. Inputs the provider cannot
+     * resolve count as unspent.
+     */
+    private spentElsewhere = async (provider: Provider, txHash: string, signedTx: string): Promise<boolean> => {
+        try {
+            const inputs = cst.deserializeTx(signedTx).body().inputs().values()
+            for (const input of inputs) {
+                const ref = { txHash: input.transactionId(), outputIndex: Number(input.index()) }
+                const [output] = await provider.fetchUTxOs(ref.txHash, ref.outputIndex)
+                if (!output) continue
+                const unspent = await provider.fetchAddressUTxOs(output.output.address)
+                if (unspent.some(({ input }) => input.txHash === ref.txHash && input.outputIndex === ref.outputIndex)) {
+                    continue
+                }
+                // Spent by the transaction itself if it has just reached a block.
+                return !(await this.lookup(provider, txHash))
+            }
+        } catch {
+            return false
+        }
+        return false
+    }
+
+    /**
+     * Confirmations of the block holding a transaction, or the required depth when the provider cannot
+     * tell at all. When the provider fails to answer, the `previous` count stands until the next poll.
+     */
+    private confirmations = async (provider: Provider, block: string, previous: number): Promise<number> => {
+        try {
+            return (await provider.fetchBlockInfo(block)).confirmations
+        } catch (failure) {
+            const message = failure instanceof Error ? failure.message : String(failure)
+            return UNSUPPORTED.test(message) ? this.depth : previous
+        }
+    }
+}
+
+export const txTracker = new TxTracker()
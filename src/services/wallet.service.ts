@@ -0,0 +1,239 @@
+import { cst, MeshWallet, resolveTxHash, UTxO } from '@meshsdk/core'
+import { APP_MNEMONIC, APP_NETWORK_ID, UTXO_RESERVATION_TTL } from '../constants/enviroments.constant.js'
+import { getProvider } from '../providers/index.provider.js'
+import { ExternalSigner, Provider } from '../types/index.js'
+
+/**
+ * @function createWallet
+ * @description
+ * Creates the server-side issuer wallet from `APP_MNEMONIC`, wired to the given chain provider.
+ *
+ * @param {Provider} provider - Provider used by the wallet as fetcher and submitter.
+ * @param {number} [accountIndex] - Account derived from the mnemonic; 0 is the issuer, others are pool accounts.
+ * @returns {MeshWallet} The issuer wallet.
+ */
+export const createWallet = function (provider: Provider, accountIndex = 0): MeshWallet {
+    return new MeshWallet({
+        networkId: APP_NETWORK_ID,
+        fetcher: provider,
+        submitter: provider,
+        accountIndex,
+        key: {
+            type: 'mnemonic',
+            words: APP_MNEMONIC?.split(' ') || []
+        }
+    })
+}
+
+let wallet: MeshWallet | null = null
+
+/**
+ * @function getWallet
+ * @description
+ * Returns the process-wide issuer wallet, wired to the shared provider and created on first use,
+ * so the mnemonic is not re-derived on every request.
+ *
+ * @returns {MeshWallet} The shared issuer wallet.
+ */
+export const getWallet = function (): MeshWallet {
+    if (!wallet) wallet = createWallet(getProvider())
+    return wallet
+}
+
+/**
+ * @function toUtxo
+ * @description Accepts a UTxO either as returned by CIP-30 `getUtxos()` (CBOR hex) or already in Mesh shape.
+ */
+const toUtxo = function (utxo: string | UTxO): UTxO {
+    return typeof utxo === 'string' ? cst.fromTxUnspentOutput(cst.deserializeTxUnspentOutput(utxo)) : utxo
+}
+
+/**
+ * @function createExternalSigner
+ * @description
+ * Creates the description of a wallet that signs outside the server (e.g. a CIP-30 browser wallet)
+ * from the `signer` field of a request body.
+ *
+ * @param {Object} signer
+ * @param {string} signer.address - Bech32 change address of the wallet; also the issuer of the course scripts.
+ * @param {(string | UTxO)[]} signer.utxos - Spendable UTxOs, as CBOR hex or Mesh UTxO objects.
+ * @param {string | UTxO} [signer.collateral] - Optional collateral UTxO.
+ * @returns {ExternalSigner} The external signer.
+ */
+export const createExternalSigner = function ({
+    address,
+    utxos,
+    collateral
+}: {
+    address: string
+    utxos: (string | UTxO)[]
+    collateral?: string | UTxO
+}): ExternalSigner {
+    return {
+        address,
+        utxos: utxos.map(toUtxo),
+        collateral: collateral ? toUtxo(collateral) : undefined
+    }
+}
+
+const outRef = (utxo: UTxO) => `${utxo.input.txHash}#${utxo.input.outputIndex}`
+
+/**
+ * @function readTxUtxos
+ * @description
+ * Reads what a transaction does to the UTxO set: its hash, the references (`txHash#index`) of the inputs
+ * it spends and the UTxOs it creates, in output order.
+ *
+ * @param {string} tx - The transaction (CBOR hex).
+ * @returns {{ txHash: string, spent: string[], produced: UTxO[] }}
+ */
+export const readTxUtxos = function (tx: string): { txHash: string; spent: string[]; produced: UTxO[] } {
+    const body = cst.deserializeTx(tx).body()
+    const txHash = resolveTxHash(tx)
+    const spent = body
+        .inputs()
+        .values()
+        .map((input) => `${input.transactionId()}#${input.index()}`)
+    const produced = body
+        .outputs()
+        .map((output, index) =>
+            cst.fromTxUnspentOutput(
+                new cst.TransactionUnspentOutput(
+                    new cst.TransactionInput(cst.TransactionId(txHash), BigInt(index)),
+                    output
+                )
+            )
+        )
+    return { txHash, spent, produced }
+}
+
+/**
+ * @function chainUtxos
+ * @description
+ * Returns the UTxOs an address will own once a not-yet-confirmed transaction lands: `utxos` minus the
+ * inputs the transaction spends, plus its outputs paid back to `address` (typically the change).
+ * Lets several transactions be built back to back without selecting the same inputs twice.
+ *
+ * @param {UTxO[]} utxos - UTxOs of the address before the transaction.
+ * @param {string} tx - The transaction (CBOR hex).
+ * @param {string} address - The Bech32 address whose UTxOs are tracked.
+ * @returns {UTxO[]} The UTxOs of the address after the transaction.
+ */
+export const chainUtxos = function (utxos: UTxO[], tx: string, address: string): UTxO[] {
+    const { spent, produced } = readTxUtxos(tx)
+    const spentRefs = new Set(spent)
+    return [
+        ...utxos.filter((utxo) => !spentRefs.has(outRef(utxo))),
+        ...produced.filter((utxo) => utxo.output.address === address)
+    ]
+}
+
+/**
+ * @class UtxoManager
+ * @description
+ * Remembers the wallet UTxOs spent by transactions that were built but are not on chain yet.
+ *
+ * Providers only report confirmed UTxOs, so two transactions built a few seconds apart would select
+ * the same inputs and the second one would be rejected. Every transaction built by a `MeshTxBuilder`
+ * is reserved here: its inputs are hidden from later input selection, and its outputs (the change)
+ * are offered instead, so the next transaction chains on the pending one.
+ *
+ * A reservation ends when the transaction is released (it failed, or it was confirmed and the
+ * provider now reports its outputs), when its outputs show up in a fetched UTxO set, or after
+ * `UTXO_RESERVATION_TTL` seconds. Releasing a transaction also releases those chained on it.
+ */
+export class UtxoManager {
+    private readonly ttl: number
+    private readonly reservations = new Map<string, { spent: Set<string>; produced: UTxO[]; expiresAt: number }>()
+
+    /**
+     * @constructor
+     * @param {number} [ttl] - Seconds after which a reservation is dropped, `UTXO_RESERVATION_TTL` by default.
+     */
+    constructor(ttl: number = UTXO_RESERVATION_TTL) {
+        this.ttl = ttl * 1000
+    }
+
+    /**
+     * @method reserve
+     * @description Records a built transaction: its inputs are now spent and its outputs pending.
+     *
+     * @param {string} tx - The transaction (CBOR hex), signed or not.
+     * @returns {string} The transaction hash, used to release the reservation.
+     */
+    public reserve = (tx: string): string => {
+        const { txHash, spent, produced } = readTxUtxos(tx)
+        this.reservations.set(txHash, { spent: new Set(spent), produced, expiresAt: Date.now() + this.ttl })
+        return txHash
+    }
+
+    /**
+     * @method release
+     * @description
+     * Drops the reservation of a transaction that failed, expired or was confirmed, together with the
+     * reservations of transactions spending its outputs.
+     *
+     * @param {string} txHash - The transaction hash.
+     * @returns {boolean} True if the transaction was reserved.
+     */
+    public release = (txHash: string): boolean => {
+        if (!this.reservations.delete(txHash)) return false
+        Array.from(this.reservations.entries())
+            .filter(([, reservation]) => Array.from(reservation.spent).some((ref) => ref.startsWith(`${txHash}#`)))
+            .forEach(([hash]) => this.release(hash))
+        return true
+    }
+
+    /**
+     * @method isReserved
+     * @description Tells whether a UTxO is spent by a pending transaction.
+     */
+    public isReserved = (utxo: UTxO): boolean => {
+        this.expire()
+        return Array.from(this.reservations.values()).some((reservation) => reservation.spent.has(outRef(utxo)))
+    }
+
+    /**
+     * @method available
+     * @description
+     * Returns the UTxOs an address can spend right now: the fetched ones not spent by a pending
+     * transaction, plus the unspent outputs of pending transactions paid to that address.
+     * Reservations whose outputs appear among `utxos` are confirmed and dropped.
+     *
+     * @param {string} address - The Bech32 address.
+     * @param {UTxO[]} utxos - UTxOs of the address as reported by the provider or wallet.
+     * @returns {UTxO[]} The spendable UTxOs.
+     */
+    public available = (address: string, utxos: UTxO[]): UTxO[] => {
+        this.expire()
+        const fetched = new Set(utxos.map(outRef))
+        Array.from(this.reservations.entries())
+            .filter(([, reservation]) => reservation.produced.some((utxo) => fetched.has(outRef(utxo))))
+            .forEach(([txHash]) => this.reservations.delete(txHash))
+
+        const reservations = Array.from(this.reservations.values())
+        const spent = new Set(reservations.flatMap((reservation) => Array.from(reservation.spent)))
+        const pending = reservations
+            .flatMap((reservation) => reservation.produced)
+            .filter((utxo) => utxo.output.address === address && !fetched.has(outRef(utxo)))
+        return [...utxos, ...pending].filter((utxo) => !spent.has(outRef(utxo)))
+    }
+
+    /**
+     * @property size
+     * @description Number of pending transactions.
+     */
+    public get size(): number {
+        this.expire()
+        return this.reservations.size
+    }
+
+    private expire = () => {
+        const now = Date.now()
+        Array.from(this.reservations.entries())
+            .filter(([, reservation]) => reservation.expiresAt <= now)
+            .forEach(([txHash]) => this.release(txHash))
+    }
+}
+
+export const utxoManager = new UtxoManager()
@@ -0,0 +1,345 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { WEBHOOK_MAX_ATTEMPTS, WEBHOOK_RETRY_DELAY, WEBHOOK_TIMEOUT } from '../constants/enviroments.constant.js'
+import { JsonStore } from '../stores/json.store.js'
+import {
+    Job,
+    MetadataSnapshot,
+    WebhookDelivery,
+    WebhookDeliveryStatus,
+    WebhookEvent,
+    WebhookRecord
+} from '../types/index.js'
+import { logger } from '../utils/logger.util.js'
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['tx.submitted', 'tx.confirmed', 'tx.failed', 'tx.rolled_back']
+
+/**
+ * @function signPayload
+ * @description
+ * Computes the signature sent in `X-Webhook-Signature` as `t=<timestamp>,v1=<hex>`: the HMAC-SHA256,
+ * keyed with the webhook secret, of `<timestamp>.<body>`. Receivers recompute it from the raw body to
+ * check the event comes from this service, and compare the timestamp to reject replays.
+ *
+ * @param {string} secret - The webhook secret.
+ * @param {number} timestamp - Unix time (seconds) of the attempt.
+ * @param {string} body - The raw JSON body.
+ * @returns {string} The header value.
+ */
+export const signPayload = function (secret: string, timestamp: number, body: string): string {
+    return `t=${timestamp},v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * @function eventPayload
+ * @description
+ * Builds the body of a lifecycle event for a job: its transaction hashes and the assets it touches with
+ * their decoded metadata, the on-chain one when a snapshot is given, the requested one otherwise.
+ * Items of a batch mint that could not be built are left out of `assets`.
+ */
+const eventPayload = function (event: WebhookEvent, job: Job, metadata?: MetadataSnapshot) {
+    const built = job.transactions?.flatMap((transaction) => transaction.assetNames)
+    return {
+        id: randomUUID(),
+        type: event,
+        created_at: new Date().toISOString(),
+        data: {
+            job_id: job.id,
+            operation: job.type,
+            course: job.course,
+            policy_id: job.policyId ?? null,
+            tx_hashes: job.transactions
+                ? job.transactions.map((transaction) => transaction.txHash)
+                : job.txHash
+                  ? [job.txHash]
+                  : [],
+            assets: job.params
+                .filter((param) => !built || built.includes(param.assetName))
+                .map((param) => ({
+                    asset_name: param.assetName,
+                    metadata: metadata?.[param.assetName] ?? ('metadata' in param ? param.metadata : null)
+                })),
+            error: job.error?.message ?? null
+        }
+    }
+}
+
+/**
+ * @class Webhooks
+ * @description
+ * Registered webhook endpoints and the delivery of transaction lifecycle events to them, both kept in
+ * {@link JsonStore}s so pending deliveries survive a restart.
+ *
+ * Each event is POSTed as JSON, signed with the webhook secret (see {@link signPayload}). A delivery that
+ * does not get a 2xx answer is retried with exponential backoff (`retryDelay`, then twice as long each time);
+ * after `maxAttempts` it is marked `dead` and stays in the dead-letter list until replayed.
+ */
+export class Webhooks {
+    private readonly store: JsonStore<WebhookRecord>
+    private readonly deliveries: JsonStore<WebhookDelivery>
+    private readonly fetch: typeof globalThis.fetch
+    private readonly maxAttempts: number
+    private readonly retryDelay: number
+    private readonly timeout: number
+    private readonly timers = new Map<string, NodeJS.Timeout>()
+    private readonly inflight = new Set<Promise<void>>()
+
+    /**
+     * @constructor
+     * @param {Object} [options]
+     * @param {JsonStore<WebhookRecord>} [options.store] - Where webhooks are persisted.
+     * @param {JsonStore<WebhookDelivery>} [options.deliveries] - Where deliveries are persisted.
+     * @param {typeof fetch} [options.fetch] - HTTP client used to POST events.
+     * @param {number} [options.maxAttempts] - Attempts before a delivery is dead (`WEBHOOK_MAX_ATTEMPTS`).
+     * @param {number} [options.retryDelay] - Delay before the first retry, in seconds (`WEBHOOK_RETRY_DELAY`).
+     * @param {number} [options.timeout] - How long to wait for an endpoint to answer, in seconds (`WEBHOOK_TIMEOUT`).
+     */
+    constructor({
+        store = new JsonStore<WebhookRecord>('webhooks'),
+        deliveries = new JsonStore<WebhookDelivery>('webhook-deliveries'),
+        fetch = globalThis.fetch,
+        maxAttempts = WEBHOOK_MAX_ATTEMPTS,
+        retryDelay = WEBHOOK_RETRY_DELAY,
+        timeout = WEBHOOK_TIMEOUT
+    }: {
+        store?: JsonStore<WebhookRecord>
+        deliveries?: JsonStore<WebhookDelivery>
+        fetch?: typeof globalThis.fetch
+        maxAttempts?: number
+        retryDelay?: number
+        timeout?: number
+    } = {}) {
+        this.store = store
+        this.deliveries = deliveries
+        this.fetch = fetch
+        this.maxAttempts = maxAttempts
+        this.retryDelay = retryDelay
+        this.timeout = timeout
+    }
+
+    /**
+     * @method register
+     * @description
+     * Registers an endpoint. Without a course it receives the events of the jobs requested by `owner`;
+     * with one, the events of every job of that course.
+     *
+     * @returns {WebhookRecord} The stored webhook, including the secret used to sign its deliveries.
+     */
+    public register = (
+        url: string,
+        owner: string,
+        { events = WEBHOOK_EVENTS, course = null }: { events?: WebhookEvent[]; course?: string | null } = {}
+    ): WebhookRecord => {
+        const id = randomUUID()
+        return this.store.set(id, {
+            id,
+            url,
+            events,
+            owner,
+            course,
+            secret: `whsec_${randomBytes(24).toString('hex')}`,
+            createdAt: new Date().toISOString()
+        })
+    }
+
+    public get = (id: string): WebhookRecord | undefined => {
+        return this.store.get(id)
+    }
+
+    /**
+     * @method list
+     * @description Lists the webhooks registered by `owner`, or all of them when no owner is given.
+     */
+    public list = (owner?: string): WebhookRecord[] => {
+        return this.store
+            .values((webhook) => !owner || webhook.owner === owner)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    }
+
+    /**
+     * @method remove
+     * @description Deletes a webhook; its pending deliveries end up dead on their next attempt.
+     */
+    public remove = (id: string): boolean => {
+        return this.store.delete(id)
+    }
+
+    /**
+     * @method emit
+     * @description
+     * Queues an event for every webhook subscribed to it and interested in the job (same course, or
+     * registered by the job's caller), and starts delivering it in the background.
+     *
+     * @param {WebhookEvent} event - The lifecycle event.
+     * @param {Job} job - The job in its current state.
+     * @param {MetadataSnapshot} [metadata] - On-chain metadata of the job's assets, when it was read.
+     * @returns {WebhookDelivery[]} The queued deliveries.
+     */
+    public emit = (event: WebhookEvent, job: Job, metadata?: MetadataSnapshot): WebhookDelivery[] => {
+        const targets = this.store.values(
+            (webhook) =>
+                webhook.events.includes(event) &&
+                (webhook.course ? webhook.course === job.course : webhook.owner === job.caller)
+        )
+        if (targets.length === 0) return []
+
+        const payload = eventPayload(event, job, metadata)
+        return targets.map((webhook) => {
+            const id = randomUUID()
+            const now = new Date().toISOString()
+            const delivery = this.deliveries.set(id, {
+                id,
+                webhookId: webhook.id,
+                event,
+                payload,
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: now,
+                lastError: null,
+                responseStatus: null,
+                createdAt: now,
+                updatedAt: now
+            })
+            this.schedule(id, 0)
+            return delivery
+        })
+    }
+
+    /**
+     * @method history
+     * @description Lists deliveries, newest first, optionally only those of some webhooks or with a status.
+     */
+    public history = (filters: { webhookIds?: string[]; status?: WebhookDeliveryStatus } = {}): WebhookDelivery[] => {
+        const { webhookIds, status } = filters
+        return this.deliveries
+            .values(
+                (delivery) =>
+                    (!webhookIds || webhookIds.includes(delivery.webhookId)) && (!status || delivery.status === status)
+            )
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    }
+
+    public delivery = (id: string): WebhookDelivery | undefined => {
+        return this.deliveries.get(id)
+    }
+
+    /**
+     * @method replay
+     * @description
+     * Sends a delivery again from scratch (attempt count reset), typically a dead one once the endpoint
+     * is fixed. The payload is the original one; receivers can deduplicate on its `id`.
+     *
+     * @returns {WebhookDelivery | undefined} The delivery back to `pending`, or undefined if it does not exist.
+     */
+    public replay = (id: string): WebhookDelivery | undefined => {
+        if (!this.deliveries.has(id)) return undefined
+        const now = new Date().toISOString()
+        const delivery = this.deliveries.update(id, {
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: now,
+            lastError: null,
+            updatedAt: now
+        })
+        this.schedule(id, 0)
+        return delivery
+    }
+
+    /**
+     * @method resume
+     * @description Reschedules the deliveries that were pending before a restart.
+     */
+    public resume = () => {
+        for (const delivery of this.deliveries.values((delivery) => delivery.status === 'pending')) {
+            this.schedule(delivery.id, Date.parse(delivery.nextAttemptAt ?? delivery.updatedAt) - Date.now())
+        }
+    }
+
+    /**
+     * @method idle
+     * @description Resolves once no delivery attempt is in flight (retries waiting for their delay are not awaited).
+     */
+    public idle = async () => {
+        while (this.inflight.size > 0) {
+            await Promise.all(this.inflight)
+        }
+    }
+
+    private schedule = (id: string, delay: number) => {
+        clearTimeout(this.timers.get(id))
+        this.timers.delete(id)
+        const run = () => {
+            this.timers.delete(id)
+            const attempt = this.attempt(id).finally(() => this.inflight.delete(attempt))
+            this.inflight.add(attempt)
+        }
+        if (delay <= 0) return run()
+        this.timers.set(id, setTimeout(run, delay).unref())
+    }
+
+    /**
+     * POSTs a delivery once and records the outcome: `delivered` on a 2xx answer, otherwise a retry after
+     * `retryDelay * 2^(attempts - 1)` seconds, or `dead` once `maxAttempts` is reached.
+     */
+    private attempt = async (id: string) => {
+        const delivery = this.deliveries.get(id)
+        if (!delivery || delivery.status !== 'pending') return
+        const webhook = this.store.get(delivery.webhookId)
+        const attempts = delivery.attempts + 1
+
+        let responseStatus: number | null = null
+        let error: string | null = null
+        if (!webhook) {
+            error = 'Webhook removed'
+        } else {
+            const body = JSON.stringify(delivery.payload)
+            try {
+                const response = await this.fetch(webhook.url, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-Webhook-Id': webhook.id,
+                        'X-Webhook-Event': delivery.event,
+                        'X-Webhook-Delivery': delivery.id,
+                        'X-Webhook-Signature': signPayload(webhook.secret, Math.floor(Date.now() / 1000), body)
+                    },
+                    body,
+                    signal: AbortSignal.timeout(this.timeout * 1000)
+                })
+                responseStatus = response.status
+                if (!response.ok) error = `Endpoint answered ${response.status}`
+            } catch (failure) {
+                error = (failure as Error).message || String(failure)
+            }
+        }
+
+        const now = Date.now()
+        if (!error) {
+            this.deliveries.update(id, {
+                status: 'delivered',
+                attempts,
+                nextAttemptAt: null,
+                lastError: null,
+                responseStatus,
+                updatedAt: new Date(now).toISOString()
+            })
+            return
+        }
+        const dead = !webhook || attempts >= this.maxAttempts
+        const delay = this.retryDelay * 1000 * 2 ** (attempts - 1)
+        this.deliveries.update(id, {
+            status: dead ? 'dead' : 'pending',
+            attempts,
+            nextAttemptAt: dead ? null : new Date(now + delay).toISOString(),
+            lastError: error,
+            responseStatus,
+            updatedAt: new Date(now).toISOString()
+        })
+        if (dead) {
+            logger.warn('Webhook delivery dead', { delivery_id: id, webhook_id: delivery.webhookId, attempts, error })
+        } else {
+            this.schedule(id, delay)
+        }
+    }
+}
+
+export const webhooks = new Webhooks()
@@ -0,0 +1,124 @@
+import fs from 'fs'
+import path from 'path'
+import { APP_DATA_DIR } from '../constants/enviroments.constant.js'
+
+/**
+ * Journal lines tolerated before a compaction, whatever the size of the collection.
+ */
+const MIN_JOURNAL_LINES = 100
+
+/**
+ * @class JsonStore
+ * @description
+ * Minimal embedded key-value store persisted under `APP_DATA_DIR` as a JSON snapshot of the collection
+ * (`<name>.json`) plus a journal of the writes made since (`<name>.jsonl`, one line per `set` or `delete`).
+ * The whole collection is kept in memory. A write only appends its line, so its cost does not grow with
+ * the collection; once the journal has more lines than the collection has records, the snapshot is
+ * rewritten through a temporary file + rename and the journal is emptied. A line cut short by a crash
+ * is ignored on load.
+ *
+ * It is meant for small, local operational state (jobs, keys, audit records) where running
+ * a separate database would be overkill. It needs a persistent, writable disk and a single process:
+ * serverless deploys (`vercel.json`) have neither.
+ */
+export class JsonStore<T> {
+    private readonly filePath: string
+    private readonly journalPath: string
+    private records: Map<string, T>
+    private journaled = 0
+
+    /**
+     * @constructor
+     * @param {string} name - Collection name, used as the file name (`<name>.json`).
+     * @param {string} [directory] - Directory holding the file, defaults to `APP_DATA_DIR`.
+     */
+    constructor(name: string, directory: string = APP_DATA_DIR) {
+        this.filePath = path.resolve(directory, `${name}.json`)
+        this.journalPath = path.resolve(directory, `${name}.jsonl`)
+        this.records = new Map(Object.entries(this.read()))
+        this.replay()
+    }
+
+    public get = (id: string): T | undefined => {
+        return this.records.get(id)
+    }
+
+    public has = (id: string): boolean => {
+        return this.records.has(id)
+    }
+
+    public set = (id: string, value: T): T => {
+        this.records.set(id, value)
+        this.append([id, value])
+        return value
+    }
+
+    /**
+     * @method update
+     * @description Shallow-merges `patch` into an existing record and persists it.
+     * @throws Error if the record does not exist.
+     */
+    public update = (id: string, patch: Partial<T>): T => {
+        const current = this.records.get(id)
+        if (!current) throw new Error(`Record ${id} not found in ${path.basename(this.filePath)}.`)
+        return this.set(id, { ...current, ...patch })
+    }
+
+    public delete = (id: string): boolean => {
+        const deleted = this.records.delete(id)
+        if (deleted) this.append([id])
+        return deleted
+    }
+
+    public values = (predicate?: (value: T) => boolean): T[] => {
+        const values = Array.from(this.records.values())
+        return predicate ? values.filter(predicate) : values
+    }
+
+    private read = (): Record<string, T> => {
+        if (!fs.existsSync(this.filePath)) return {}
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+    }
+
+    /**
+     * Applies the journal on top of the snapshot, ending a line cut short so the next write starts a new one.
+     */
+    private replay = () => {
+        if (!fs.existsSync(this.journalPath)) return
+        const journal = fs.readFileSync(this.journalPath, 'utf-8')
+        if (journal && !journal.endsWith('\n')) fs.appendFileSync(this.journalPath, '\n')
+        journal
+            .split('\n')
+            .filter(Boolean)
+            .forEach((line) => {
+                let entry: [string, T?]
+                try {
+                    entry = JSON.parse(line)
+                } catch {
+                    return
+                }
+                if (entry.length > 1) this.records.set(entry[0], entry[1]!)
+                else this.records.delete(entry[0])
+                this.journaled += 1
+            })
+    }
+
+    private append = (entry: [string, T?]) => {
+        if (this.journaled === 0) fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+        fs.appendFileSync(this.journalPath, JSON.stringify(entry) + '\n')
+        this.journaled += 1
+        if (this.journaled > Math.max(MIN_JOURNAL_LINES, this.records.size)) this.compact()
+    }
+
+    /**
+     * Rewrites the snapshot and empties the journal. A crash in between only replays writes the
+     * snapshot already holds.
+     */
+    private compact = () => {
+        const temporary = `${this.filePath}.${process.pid}.tmp`
+        fs.writeFileSync(temporary, JSON.stringify(Object.fromEntries(this.records), null, 2))
+        fs.renameSync(temporary, this.filePath)
+        fs.writeFileSync(this.journalPath, '')
+        this.journaled = 0
+    }
+}
@@ -1,49 +1,37 @@
-import {
-    CIP68_100,
-    CIP68_222,
-    deserializeAddress,
-    mConStr0,
-    mConStr1,
-    metadataToCip68,
-    stringToHex,
-    UTxO
-} from '@meshsdk/core'
+import { CIP68_100, CIP68_222, mConStr0, mConStr1, stringToHex, UTxO } from '@meshsdk/core'
 import { MeshAdapter } from '../adapters/mesh.adapter.js'
 import { APP_NETWORK } from '../constants/enviroments.constant.js'
+import { BurnParams, MintParams, UpdateParams } from '../types/index.js'
+import { encodeCip68Metadata } from '../utils/cip68.util.js'
 export class MeshTxBuilder extends MeshAdapter {
     /**
      * Mint new or existing CIP-68 tokens.
      *
      * @param params - Array of token minting parameters:
      *   - assetName: The name of the asset to mint.
-     *   - metadata: Metadata object describing the asset (used for on-chain datum).
+     *   - metadata: Metadata object describing the asset (used for on-chain datum); nested values are kept typed.
+     *     Its `_pk` field is always the issuer pubkey hash.
      *   - quantity: Amount of token to mint (default is "1").
-     *   - receiver: Receiver address (defaults to current wallet address).
+     *   - receiver: Receiver address (defaults to the issuer address).
      * @param utxosInput - Optional list of input UTxOs to include in the transaction.
      *
      * @returns The completed unsigned transaction ready for signing.
      *
      * Logic Overview:
      * 1. Get wallet, UTxOs, and collateral information.
-     * 2. Determine whether all assets are new or already exist (CIP68_100 state token).
-     * 3. If both new and existing assets are mixed, throw an error (cannot handle both in one tx).
-     * 4. If assets exist, validate ownership and mint additional CIP68_222 tokens.
-     * 5. If assets are new, mint both CIP68_100 (state token) and CIP68_222 (user token),
+     * 2. For each asset, determine whether it is new or already exists (CIP68_100 state token);
+     *    new and existing assets can be mixed in the same transaction.
+     * 3. If the asset exists, validate ownership and mint additional CIP68_222 tokens.
+     * 4. If the asset is new, mint both CIP68_100 (state token) and CIP68_222 (user token),
      *    and attach metadata inline to the store address.
-     * 6. Add all receiver outputs to the transaction.
-     * 7. Finalize transaction by setting signer, collateral, change address, and network.
+     * 5. Add all receiver outputs (grouped by receiver) to the transaction.
+     * 6. Finalize transaction by setting the issuer as required signer, collateral, change address, and network.
+     *    The wallet paying fees (e.g. a pool account) may differ from the issuer, which must co-sign.
      */
-    public mint = async (
-        params: {
-            assetName: string
-            metadata: Record<string, string>
-            quantity: string
-            receiver: string
-        }[],
-        utxosInput?: UTxO[]
-    ) => {
+    public mint = async (params: MintParams[], utxosInput?: UTxO[]) => {
         const { utxos, walletAddress, collateral } = await this.getWalletForTx()
-        const unsignedTx = this.meshTxBuilder.mintPlutusScriptV3()
+        const scripts = await this.getReferenceScripts()
+        const unsignedTx = this.newMeshTxBuilder().mintPlutusScriptV3()
         if (utxosInput && Array.isArray(utxosInput)) {
             utxosInput.forEach((utxo) => {
                 unsignedTx.txIn(utxo.input.txHash, utxo.input.outputIndex)
@@ -51,82 +39,45 @@ export class MeshTxBuilder extends MeshAdapter {
         }
         const txOutReceiverMap = new Map<string, { unit: string; quantity: string }[]>()
 
-        const assetsWithUtxo = await Promise.all(
-            params.map(async ({ assetName }) => {
-                const utxo = await this.getAddressUTXOAsset(
-                    this.storeAddress,
-                    this.policyId + CIP68_100(stringToHex(assetName))
-                )
-                return { assetName, hasPlutusData: !!utxo?.output?.plutusData, utxo }
-            })
-        )
-
-        const allExist = assetsWithUtxo.every((asset) => asset.hasPlutusData)
-        const allNew = assetsWithUtxo.every((asset) => !asset.hasPlutusData)
-
-        if (!allExist && !allNew) {
-            const existAssets = assetsWithUtxo.filter((asset) => asset.hasPlutusData).map((asset) => asset.assetName)
-            throw new Error(
-                `Transaction only supports either minting new or existing assets.\nAssets already exist: ${existAssets.join(', ')}`
-            )
-        }
-
         await Promise.all(
             params.map(async ({ assetName, metadata, quantity = '1', receiver = '' }) => {
                 const existUtXOwithUnit = await this.getAddressUTXOAsset(
                     this.storeAddress,
                     this.policyId + CIP68_100(stringToHex(assetName))
                 )
-                if (allExist) {
-                    const pk = await this.getPkHash(existUtXOwithUnit?.output?.plutusData as string)
-                    if (pk !== deserializeAddress(walletAddress).pubKeyHash) {
+                const exists = !!existUtXOwithUnit?.output?.plutusData
+                if (exists) {
+                    const pk = await this.getPkHash(existUtXOwithUnit.output.plutusData as string)
+                    if (pk !== this.issuerPkHash) {
                         throw new Error(`${assetName} has been exist`)
                     }
-                    const receiverKey = receiver ? receiver : walletAddress
-                    if (txOutReceiverMap.has(receiverKey)) {
-                        txOutReceiverMap.get(receiverKey)!.push({
-                            unit: this.policyId + CIP68_222(stringToHex(assetName)),
-                            quantity: quantity
-                        })
-                    } else {
-                        txOutReceiverMap.set(receiverKey, [
-                            {
-                                unit: this.policyId + CIP68_222(stringToHex(assetName)),
-                                quantity: quantity
-                            }
-                        ])
-                    }
-                    unsignedTx
-                        .mintPlutusScriptV3()
-                        .mint(quantity, this.policyId, CIP68_222(stringToHex(assetName)))
-                        .mintingScript(this.mintScriptCbor)
-                        .mintRedeemerValue(mConStr0([]))
-                } else if (allNew) {
-                    const receiverKey = receiver ? receiver : walletAddress
-                    if (txOutReceiverMap.has(receiverKey)) {
-                        txOutReceiverMap.get(receiverKey)!.push({
+                }
+
+                const receiverKey = receiver ? receiver : this.issuerAddress
+                if (txOutReceiverMap.has(receiverKey)) {
+                    txOutReceiverMap.get(receiverKey)!.push({
+                        unit: this.policyId + CIP68_222(stringToHex(assetName)),
+                        quantity: quantity
+                    })
+                } else {
+                    txOutReceiverMap.set(receiverKey, [
+                        {
                             unit: this.policyId + CIP68_222(stringToHex(assetName)),
                             quantity: quantity
-                        })
-                    } else {
-                        txOutReceiverMap.set(receiverKey, [
-                            {
-                                unit: this.policyId + CIP68_222(stringToHex(assetName)),
-                                quantity: quantity
-                            }
-                        ])
-                    }
-
-                    unsignedTx
+                        }
+                    ])
+                }
 
-                        .mintPlutusScriptV3()
-                        .mint(quantity, this.policyId, CIP68_222(stringToHex(assetName)))
-                        .mintingScript(this.mintScriptCbor)
-                        .mintRedeemerValue(mConStr0([]))
+                this.withMintScript(
+                    unsignedTx.mintPlutusScriptV3().mint(quantity, this.policyId, CIP68_222(stringToHex(assetName))),
+                    scripts
+                ).mintRedeemerValue(mConStr0([]))
 
-                        .mintPlutusScriptV3()
-                        .mint('1', this.policyId, CIP68_100(stringToHex(assetName)))
-                        .mintingScript(this.mintScriptCbor)
+                if (!exists) {
+                    this.withMintScript(
+                        unsignedTx.mintPlutusScriptV3().mint('1', this.policyId, CIP68_100(stringToHex(assetName))),
+                        scripts
+                    )
                         .mintRedeemerValue(mConStr0([]))
                         .txOut(this.storeAddress, [
                             {
@@ -134,11 +85,7 @@ export class MeshTxBuilder extends MeshAdapter {
                                 quantity: '1'
                             }
                         ])
-                        .txOutInlineDatumValue(metadataToCip68(metadata))
-                } else {
-                    throw new Error(
-                        `Transaction only supports either minting new assets or minting existing assets, not both in the same transaction`
-                    )
+                        .txOutInlineDatumValue(encodeCip68Metadata({ ...metadata, _pk: this.issuerPkHash }), 'JSON')
                 }
             })
         )
@@ -148,7 +95,7 @@ export class MeshTxBuilder extends MeshAdapter {
 
         unsignedTx
             .changeAddress(walletAddress)
-            .requiredSignerHash(deserializeAddress(walletAddress).pubKeyHash)
+            .requiredSignerHash(this.issuerPkHash)
             .selectUtxosFrom(utxos)
             .txInCollateral(
                 collateral.input.txHash,
@@ -157,7 +104,7 @@ export class MeshTxBuilder extends MeshAdapter {
                 collateral.output.address
             )
             .setNetwork(APP_NETWORK)
-        return await unsignedTx.complete()
+        return this.complete(unsignedTx)
     }
 
     /**
@@ -165,21 +112,24 @@ export class MeshTxBuilder extends MeshAdapter {
      *
      * @param params - Array of objects with:
      *   - assetName: The name of the asset to update.
-     *   - metadata: The new metadata to attach to the CIP68_100 datum.
-     *   - txHash (optional): Specific transaction hash containing the UTxO to update.
+     *   - metadata: The new metadata to attach to the CIP68_100 datum; its `_pk` field is always the issuer pubkey hash.
+     *   - txHash (optional): Specific transaction hash (or `txHash#index`) containing the UTxO to update.
+     *   - expectedVersion (optional): The `txHash#index` or datum hash the client last read.
      *
      * @returns The completed unsigned transaction.
      *
      * Logic Overview:
      * 1. Retrieve store UTxO (either by txHash or by asset name).
-     * 2. Spend the old UTxO and recreate it with new metadata.
-     * 3. Include necessary script, redeemer, and collateral setup.
+     * 2. If an expected version is given, reject the update when the asset has changed since.
+     * 3. Spend the old UTxO and recreate it with new metadata.
+     * 4. Include necessary script, redeemer, and collateral setup.
      */
-    public update = async (params: { assetName: string; metadata: Record<string, string>; txHash?: string }[]) => {
+    public update = async (params: UpdateParams[]) => {
         const { utxos, walletAddress, collateral } = await this.getWalletForTx()
-        const unsignedTx = this.meshTxBuilder
+        const scripts = await this.getReferenceScripts()
+        const unsignedTx = this.newMeshTxBuilder()
         await Promise.all(
-            params.map(async ({ assetName, metadata, txHash }) => {
+            params.map(async ({ assetName, metadata, txHash, expectedVersion }) => {
                 const storeUtxo = txHash
                     ? await this.getUtxoForTx(this.storeAddress, txHash)
                     : await this.getAddressUTXOAsset(
@@ -187,26 +137,36 @@ export class MeshTxBuilder extends MeshAdapter {
                           this.policyId + CIP68_100(stringToHex(assetName))
                       )
                 if (!storeUtxo) throw new Error('Store UTXO not found')
-                unsignedTx
-                    .spendingPlutusScriptV3()
-                    .txIn(storeUtxo.input.txHash, storeUtxo.input.outputIndex)
-                    .txInInlineDatumPresent() // Lấy datum ở utxo chi tiêu
-                    // .spendingReferenceTxInInlineDatumPresent() // lấy datum ở utxo reference
-                    .txInRedeemerValue(mConStr0([]))
-                    .txInScript(this.storeScriptCbor)
+                if (
+                    expectedVersion &&
+                    !this.matchesVersion(await this.decodeAsset(assetName, storeUtxo), expectedVersion)
+                ) {
+                    throw new Error(
+                        `Stale version for ${assetName}: expected ${expectedVersion}, current ${storeUtxo.input.txHash}#${storeUtxo.input.outputIndex}`
+                    )
+                }
+                this.withStoreScript(
+                    unsignedTx
+                        .spendingPlutusScriptV3()
+                        .txIn(storeUtxo.input.txHash, storeUtxo.input.outputIndex)
+                        .txInInlineDatumPresent() // Lấy datum ở utxo chi tiêu
+                        // .spendingReferenceTxInInlineDatumPresent() // lấy datum ở utxo reference
+                        .txInRedeemerValue(mConStr0([])),
+                    scripts
+                )
                     .txOut(this.storeAddress, [
                         {
                             unit: this.policyId + CIP68_100(stringToHex(assetName)),
                             quantity: '1'
                         }
                     ])
-                    .txOutInlineDatumValue(metadataToCip68(metadata))
+                    .txOutInlineDatumValue(encodeCip68Metadata({ ...metadata, _pk: this.issuerPkHash }), 'JSON')
             })
         )
 
         unsignedTx
 
-            .requiredSignerHash(deserializeAddress(walletAddress).pubKeyHash)
+            .requiredSignerHash(this.issuerPkHash)
             .changeAddress(walletAddress)
             .selectUtxosFrom(utxos)
             .txInCollateral(
@@ -217,7 +177,7 @@ export class MeshTxBuilder extends MeshAdapter {
             )
             .setNetwork(APP_NETWORK)
 
-        return await unsignedTx.complete()
+        return this.complete(unsignedTx)
     }
 
     /**
@@ -238,26 +198,17 @@ export class MeshTxBuilder extends MeshAdapter {
      * 5. Otherwise, only burn part of the CIP68_222 tokens.
      * 6. Set redeemers, minting scripts, and collateral for finalization.
      */
-    public burn = async (params: { assetName: string; quantity: string; txHash?: string }[]) => {
+    public burn = async (params: BurnParams[]) => {
         const { utxos, walletAddress, collateral } = await this.getWalletForTx()
-        const unsignedTx = this.meshTxBuilder
+        const scripts = await this.getReferenceScripts()
+        const unsignedTx = this.newMeshTxBuilder()
         await Promise.all(
             params.map(async ({ assetName, quantity, txHash }) => {
                 const userUtxos = await this.getAddressUTXOAssets(
                     walletAddress,
                     this.policyId + CIP68_222(stringToHex(assetName))
                 )
-                const amount = userUtxos.reduce((amount, utxos) => {
-                    return (
-                        amount +
-                        utxos.output.amount.reduce((amt, utxo) => {
-                            if (utxo.unit === this.policyId + CIP68_222(stringToHex(assetName))) {
-                                return amt + Number(utxo.quantity)
-                            }
-                            return amt
-                        }, 0)
-                    )
-                }, 0)
+                const amount = this.sumUnitQuantity(userUtxos, this.policyId + CIP68_222(stringToHex(assetName)))
                 const storeUtxo = txHash
                     ? await this.getUtxoForTx(this.storeAddress, txHash)
                     : await this.getAddressUTXOAsset(
@@ -267,42 +218,48 @@ export class MeshTxBuilder extends MeshAdapter {
                 if (!storeUtxo) throw new Error('Store UTXO not found')
 
                 if (-Number(quantity) === amount) {
-                    unsignedTx
-                        .mintPlutusScriptV3()
-                        .mint(quantity, this.policyId, CIP68_222(stringToHex(assetName)))
-                        .mintRedeemerValue(mConStr1([]))
-                        .mintingScript(this.mintScriptCbor)
-
-                        .mintPlutusScriptV3()
-                        .mint('-1', this.policyId, CIP68_100(stringToHex(assetName)))
-                        .mintRedeemerValue(mConStr1([]))
-                        .mintingScript(this.mintScriptCbor)
-
-                        .spendingPlutusScriptV3()
-                        .txIn(storeUtxo.input.txHash, storeUtxo.input.outputIndex)
-                        .txInInlineDatumPresent()
-                        .txInRedeemerValue(mConStr1([]))
-                        .txInScript(this.storeScriptCbor)
+                    this.withMintScript(
+                        unsignedTx
+                            .mintPlutusScriptV3()
+                            .mint(quantity, this.policyId, CIP68_222(stringToHex(assetName)))
+                            .mintRedeemerValue(mConStr1([])),
+                        scripts
+                    )
+                    this.withMintScript(
+                        unsignedTx
+                            .mintPlutusScriptV3()
+                            .mint('-1', this.policyId, CIP68_100(stringToHex(assetName)))
+                            .mintRedeemerValue(mConStr1([])),
+                        scripts
+                    )
+                    this.withStoreScript(
+                        unsignedTx
+                            .spendingPlutusScriptV3()
+                            .txIn(storeUtxo.input.txHash, storeUtxo.input.outputIndex)
+                            .txInInlineDatumPresent()
+                            .txInRedeemerValue(mConStr1([])),
+                        scripts
+                    )
                 } else {
-                    unsignedTx
-                        .mintPlutusScriptV3()
-                        .mint(quantity, this.policyId, CIP68_222(stringToHex(assetName)))
-                        .mintRedeemerValue(mConStr1([]))
-                        .mintingScript(this.mintScriptCbor)
-
-                        .txOut(walletAddress, [
-                            {
-                                unit: this.policyId + CIP68_222(stringToHex(assetName)),
-                                quantity: String(amount + Number(quantity))
-                            }
-                        ])
+                    this.withMintScript(
+                        unsignedTx
+                            .mintPlutusScriptV3()
+                            .mint(quantity, this.policyId, CIP68_222(stringToHex(assetName)))
+                            .mintRedeemerValue(mConStr1([])),
+                        scripts
+                    ).txOut(walletAddress, [
+                        {
+                            unit: this.policyId + CIP68_222(stringToHex(assetName)),
+                            quantity: String(amount + Number(quantity))
+                        }
+                    ])
                 }
             })
         )
 
         unsignedTx
 
-            .requiredSignerHash(deserializeAddress(walletAddress).pubKeyHash)
+            .requiredSignerHash(this.issuerPkHash)
             .changeAddress(walletAddress)
             .selectUtxosFrom(utxos)
             .txInCollateral(
@@ -313,6 +270,32 @@ export class MeshTxBuilder extends MeshAdapter {
             )
             .setNetwork(APP_NETWORK)
 
-        return await unsignedTx.complete()
+        return this.complete(unsignedTx)
+    }
+
+    /**
+     * Deploy the course's mint and store scripts as reference scripts.
+     *
+     * @returns The completed unsigned transaction; its output 0 holds the mint script and output 1 the
+     *   store script (see {@link MeshAdapter.scriptReferences}).
+     *
+     * Logic Overview:
+     * 1. Get wallet and UTxOs information.
+     * 2. Lock each parameterized script as reference script in its own output at the reference
+     *    address (spendable with the issuer's signature only), with the minimum ADA the output needs.
+     * 3. Finalize the transaction with the wallet as change address; no script runs, so no collateral.
+     */
+    public deployReferenceScripts = async () => {
+        const { utxos, walletAddress } = await this.getWalletForTx()
+        const unsignedTx = this.newMeshTxBuilder()
+            .txOut(this.referenceAddress, [])
+            .txOutReferenceScript(this.mintScriptCbor, 'V3')
+            .txOut(this.referenceAddress, [])
+            .txOutReferenceScript(this.storeScriptCbor, 'V3')
+            .changeAddress(walletAddress)
+            .selectUtxosFrom(utxos)
+            .setNetwork(APP_NETWORK)
+
+        return this.complete(unsignedTx)
     }
 }
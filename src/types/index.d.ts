@@ -1,3 +1,5 @@
+import { Asset, IEvaluator, IFetcher, IListener, ISubmitter, MeshWallet, UTxO } from '@meshsdk/core'
+
 export interface Redeemer {
     title: string
     schema: {
@@ -35,3 +37,377 @@ export interface Plutus {
     validators: Validator[]
     definitions: Record<string, unknown>
 }
+
+export type ProviderName = 'blockfrost' | 'koios' | 'ogmios' | 'http'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * A chain backend able to read the ledger, submit transactions and report confirmations.
+ * `evaluateTx` is optional because not every backend can run Plutus scripts.
+ */
+export type Provider = IFetcher & ISubmitter & IListener & Partial<IEvaluator>
+
+/**
+ * The course-specific pieces of a contract, derived from `plutus.json` once per (course, issuer, network).
+ */
+export interface CourseContract {
+    course: string
+    issuer: string
+    networkId: number
+    mintScriptCbor: string
+    policyId: string
+    storeScriptCbor: string
+    storeAddress: string
+    referenceAddress: string
+}
+
+/**
+ * A CIP-68 metadata value. Strings, integers, booleans, lists and nested maps round-trip through the datum.
+ */
+export type Cip68Value = string | number | boolean | Cip68Value[] | { [key: string]: Cip68Value }
+
+export type Cip68Metadata = Record<string, Cip68Value>
+
+export interface MintParams {
+    assetName: string
+    metadata: Cip68Metadata
+    quantity: string
+    receiver: string
+}
+
+export interface UpdateParams {
+    assetName: string
+    metadata: Cip68Metadata
+    txHash?: string
+    expectedVersion?: string
+}
+
+export interface BurnParams {
+    assetName: string
+    quantity: string
+    txHash?: string
+}
+
+/**
+ * A wallet that signs outside the server (e.g. a CIP-30 browser wallet). Transactions are built from
+ * its address and UTxOs and returned unsigned.
+ */
+export interface ExternalSigner {
+    address: string
+    utxos: UTxO[]
+    collateral?: UTxO
+}
+
+/**
+ * An account of the {@link WalletPool} lent to one job at a time. Account 0 is the issuer wallet.
+ */
+export interface WalletLease {
+    index: number
+    wallet: MeshWallet
+    release: () => void
+}
+
+export type JobType = 'mint' | 'batch-mint' | 'update' | 'burn'
+
+export type JobStatus = 'unsigned' | 'queued' | 'built' | 'submitted' | 'confirmed' | 'failed'
+
+/**
+ * How the tracking of a submitted transaction ended. Anything but `confirmed` fails it:
+ * - `timeout`: not at the required depth in time, and the node gave no reason (it may still land).
+ * - `expired`: left the mempool and its validity interval is over.
+ * - `dropped`: left the mempool and its inputs were spent by another transaction.
+ * - `rolled_back`: was in a block that the chain abandoned, and could not be resubmitted.
+ */
+export type TxTrackingStatus = 'confirmed' | 'timeout' | 'expired' | 'dropped' | 'rolled_back'
+
+/**
+ * The outcome of tracking one transaction. `replaceable` is set once the transaction can no longer land,
+ * so building a new one for the same operation cannot apply it twice.
+ */
+export interface TxTracking {
+    txHash: string
+    status: TxTrackingStatus
+    confirmations: number
+    resubmissions: number
+    replaceable: boolean
+    error: string | null
+}
+
+/**
+ * One transaction of a batch job. Batch mints are split into as many transactions as the
+ * protocol size and execution limits require; each one spends the change of the previous one.
+ */
+export interface JobTransaction {
+    index: number
+    assetNames: string[]
+    status: 'built' | 'submitted' | 'confirmed' | 'failed'
+    txHash: string
+    fee?: string
+    unsignedTx?: string
+    signedTx?: string
+    error?: string
+    code?: Exclude<TxTrackingStatus, 'confirmed'>
+}
+
+export interface Job {
+    id: string
+    type: JobType
+    course: string
+    params: MintParams[] | UpdateParams[] | BurnParams[]
+    status: JobStatus
+    policyId?: string
+    signer?: string
+    caller?: string
+    unsignedTx?: string
+    signedTx?: string
+    txHash?: string
+    transactions?: JobTransaction[]
+    failures?: {
+        assetName: string
+        error: string
+    }[]
+    rebuilds?: number
+    error?: {
+        message: string
+        stage: JobStatus
+        code?: Exclude<TxTrackingStatus, 'confirmed'>
+    }
+    createdAt: string
+    updatedAt: string
+}
+
+export interface IdempotencyRecord {
+    key: string
+    requestHash: string
+    status: 'in_progress' | 'completed'
+    statusCode?: number
+    response?: unknown
+    createdAt: string
+}
+
+export interface CertificateAsset {
+    assetName: string
+    policyId: string
+    referenceUnit: string
+    userUnit: string
+    utxo: UTxO
+    issuer: string | null
+    datumHash: string
+    metadata: Cip68Metadata
+    version: number | null
+    extra: Cip68Value | null
+    slot?: number
+}
+
+export interface CertificateVerdict {
+    verified: boolean
+    holder: string
+    assetName: string
+    policyId: string
+    storeAddress: string
+    quantity: number
+    checks: {
+        held: boolean
+        referenceExists: boolean
+        issuerMatches: boolean
+    }
+    reasons: string[]
+    asset: CertificateAsset | null
+}
+
+export type TemplateFieldType = 'string' | 'integer' | 'boolean' | 'list' | 'map'
+
+/**
+ * One metadata field of a certificate template. `maxLength` is a UTF-8 byte limit for strings
+ * and an item limit for lists.
+ */
+export interface TemplateField {
+    type: TemplateFieldType
+    required?: boolean
+    maxLength?: number
+    default?: Cip68Value
+}
+
+export interface CertificateTemplate {
+    course: string
+    fields: Record<string, TemplateField>
+    createdAt: string
+    updatedAt: string
+}
+
+export interface FieldError {
+    field: string
+    message: string
+}
+
+export interface CourseRecord {
+    course: string
+    issuer?: string
+    registeredAt: string
+}
+
+export type AuthScope = 'mint' | 'update' | 'burn' | 'read' | 'admin'
+
+/**
+ * A stored API key. Only the SHA-256 hash of the secret is kept; `courses` null means every course.
+ */
+export interface ApiKeyRecord {
+    id: string
+    name: string
+    scopes: AuthScope[]
+    courses: string[] | null
+    secretHash: string
+    createdAt: string
+    rotatedAt?: string
+    revokedAt?: string
+}
+
+/**
+ * The caller authenticated by an API key, a signed JWT or the bootstrap admin key.
+ */
+export interface Credential {
+    id: string
+    type: 'api-key' | 'jwt' | 'admin'
+    scopes: AuthScope[]
+    courses: string[] | null
+}
+
+export type MetadataSnapshot = Record<string, Cip68Metadata | null>
+
+/**
+ * One contract operation as recorded for audits: who asked for it, what it changed and how it ended.
+ * `before`/`after` map each asset name to its metadata (null when the asset does not exist).
+ */
+export interface AuditRecord {
+    id: string
+    operation: JobType
+    caller: string | null
+    course: string
+    assetNames: string[]
+    before: MetadataSnapshot | null
+    after: MetadataSnapshot | null
+    txHashes: string[]
+    fee: string | null
+    status: JobStatus
+    error: string | null
+    createdAt: string
+    updatedAt: string
+}
+
+export type WebhookEvent = 'tx.submitted' | 'tx.confirmed' | 'tx.failed' | 'tx.rolled_back'
+
+/**
+ * A registered webhook endpoint. With a `course` it receives the events of every job of that course,
+ * otherwise those of the jobs requested by its `owner` (`<type>:<id>` of the credential that registered it).
+ * The secret signs each delivery and is kept as is.
+ */
+export interface WebhookRecord {
+    id: string
+    url: string
+    events: WebhookEvent[]
+    owner: string
+    course: string | null
+    secret: string
+    createdAt: string
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+/**
+ * One event sent to one webhook. A delivery still failing after the last retry is `dead` until replayed.
+ */
+export interface WebhookDelivery {
+    id: string
+    webhookId: string
+    event: WebhookEvent
+    payload: Record<string, unknown>
+    status: WebhookDeliveryStatus
+    attempts: number
+    nextAttemptAt: string | null
+    lastError: string | null
+    responseStatus: number | null
+    createdAt: string
+    updatedAt: string
+}
+
+/**
+ * An output holding a script as reference script, spent by nothing but read by transactions through
+ * `mintTxInReference` / `spendingTxInReference`. `scriptSize` is the script size in bytes.
+ */
+export interface ScriptReference {
+    txHash: string
+    outputIndex: number
+    scriptHash: string
+    scriptSize: string
+}
+
+/**
+ * The reference UTxOs holding the parameterized mint and store scripts of a course, locked at the
+ * reference address of its issuer (spendable with the issuer's signature only).
+ */
+export interface ReferenceScriptRecord {
+    course: string
+    issuer: string
+    networkId: number
+    address: string
+    mint: ScriptReference
+    store: ScriptReference
+    deployedAt: string
+}
+
+/**
+ * A transaction built for a dry run: its size, fee, script budget per redeemer, the lovelace it
+ * locks at the store address (min-UTxO of the reference outputs) and its decoded outputs.
+ */
+export interface TxEstimate {
+    txHash: string
+    assetNames: string[]
+    size: number
+    fee: string
+    exUnits: { tag: string; index: number; mem: number; steps: number }[]
+    storeLovelace: string
+    outputs: {
+        address: string
+        amount: Asset[]
+        metadata: Cip68Metadata | null
+        referenceScript: boolean
+    }[]
+}
+
+export type EstimateErrorCode =
+    | 'asset_exists'
+    | 'asset_not_found'
+    | 'stale_version'
+    | 'insufficient_funds'
+    | 'too_large'
+    | 'build_failed'
+
+/**
+ * The outcome of a dry run. `valid` is false when some item could not be built; `errors` says which and why.
+ */
+export interface Estimate {
+    valid: boolean
+    transactions: TxEstimate[]
+    errors: { assetName: string | null; code: EstimateErrorCode; message: string }[]
+    fee: string
+    storeLovelace: string
+}
+
+/**
+ * The result of one readiness check of `/health`, with what it found (e.g. the issuer address and balance).
+ */
+export interface HealthCheck {
+    status: 'ok' | 'error'
+    latencyMs: number
+    error?: string
+    details?: Record<string, unknown>
+}
+
+export interface HealthReport {
+    status: 'ok' | 'degraded'
+    checks: {
+        provider: HealthCheck
+        wallet: HealthCheck
+    }
+}
@@ -0,0 +1,147 @@
+import cbor from 'cbor'
+import { Cip68Metadata, Cip68Value } from '../types/index.js'
+
+/**
+ * Plutus data in the JSON shape accepted by Mesh (`txOutInlineDatumValue(data, 'JSON')`).
+ */
+type PlutusJson =
+    | { bytes: string }
+    | { int: number | bigint }
+    | { list: PlutusJson[] }
+    | { map: { k: PlutusJson; v: PlutusJson }[] }
+    | { constructor: number; fields: PlutusJson[] }
+
+/**
+ * The datum version written by {@link encodeCip68Metadata} (CIP-68 `version` field).
+ */
+export const CIP68_VERSION = 1
+
+/**
+ * @function encodeValue
+ * @description
+ * Encodes a metadata value as Plutus data: strings as UTF-8 bytes, integers as ints, booleans as
+ * `Constr 0 []` (false) / `Constr 1 []` (true), arrays as lists and objects as maps keyed by UTF-8 bytes.
+ * The `_pk` field is the exception: it holds a pubkey hash and is written as raw bytes from hex.
+ *
+ * @throws Error naming the field path for values Plutus data cannot hold (fractions, null, undefined).
+ */
+const encodeValue = function (value: Cip68Value, path: string): PlutusJson {
+    if (path === '_pk' && typeof value === 'string') return { bytes: value }
+    switch (typeof value) {
+        case 'string':
+            return { bytes: Buffer.from(value, 'utf-8').toString('hex') }
+        case 'number':
+            if (!Number.isSafeInteger(value)) {
+                throw new Error(`Metadata field ${path} must be an integer, got ${value}`)
+            }
+            return { int: value }
+        case 'boolean':
+            return { constructor: value ? 1 : 0, fields: [] }
+        case 'object':
+            if (Array.isArray(value)) {
+                return { list: value.map((item, index) => encodeValue(item, `${path}[${index}]`)) }
+            }
+            if (value !== null) {
+                return {
+                    map: Object.entries(value).map(([key, item]) => ({
+                        k: { bytes: Buffer.from(key, 'utf-8').toString('hex') },
+                        v: encodeValue(item, path ? `${path}.${key}` : key)
+                    }))
+                }
+            }
+    }
+    throw new Error(`Metadata field ${path} has an unsupported value: ${String(value)}`)
+}
+
+/**
+ * @function encodeCip68Metadata
+ * @description
+ * Builds a CIP-68 reference datum (`Constr 0 [metadata, version]`) from JSON-like metadata,
+ * preserving strings, integers, booleans, lists and nested maps.
+ *
+ * @param {Cip68Metadata} metadata - The metadata to store on-chain.
+ * @returns {PlutusJson} The datum, to be attached with `txOutInlineDatumValue(datum, 'JSON')`.
+ */
+export const encodeCip68Metadata = function (metadata: Cip68Metadata): PlutusJson {
+    return {
+        constructor: 0,
+        fields: [encodeValue(metadata, ''), { int: CIP68_VERSION }]
+    }
+}
+
+/**
+ * @function constructorIndex
+ * @description Returns the constructor index of a CBOR-tagged Plutus `Constr`, or null for other tags.
+ */
+const constructorIndex = function (tagged: cbor.Tagged): number | null {
+    if (tagged.tag >= 121 && tagged.tag <= 127) return tagged.tag - 121
+    if (tagged.tag >= 1280 && tagged.tag <= 1400) return tagged.tag - 1280 + 7
+    if (tagged.tag === 102) return Number((tagged.value as [number, unknown[]])[0])
+    return null
+}
+
+/**
+ * @function decodeValue
+ * @description
+ * Recursively converts decoded CBOR Plutus data back to metadata values, mirroring {@link encodeValue}.
+ * Bytes become UTF-8 strings (hex when they are not valid UTF-8, and always for `_pk`), integers beyond
+ * the safe range become decimal strings, `Constr 0 []` / `Constr 1 []` become booleans and other
+ * constructors become `{ constructor, fields }`.
+ */
+const decodeValue = function (value: unknown, key?: string): Cip68Value {
+    if (Buffer.isBuffer(value)) {
+        const text = value.toString('utf-8')
+        return key === '_pk' || !Buffer.from(text, 'utf-8').equals(value) ? value.toString('hex') : text
+    }
+    if (typeof value === 'bigint') {
+        return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+            ? Number(value)
+            : value.toString()
+    }
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value
+    if (Array.isArray(value)) return value.map((item) => decodeValue(item))
+    if (value instanceof Map) {
+        return Object.fromEntries(
+            Array.from(value.entries(), ([mapKey, item]) => {
+                const name = String(decodeValue(mapKey))
+                return [name, decodeValue(item, name)]
+            })
+        )
+    }
+    if (value instanceof cbor.Tagged) {
+        const index = constructorIndex(value)
+        const fields = (value.tag === 102 ? (value.value as [number, unknown[]])[1] : value.value) as unknown[]
+        if (index === null) return decodeValue(value.value)
+        if (index <= 1 && fields.length === 0) return index === 1
+        return { constructor: index, fields: fields.map((item) => decodeValue(item)) }
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, decodeValue(item, name)]))
+    }
+    throw new Error(`Unsupported datum value: ${String(value)}`)
+}
+
+/**
+ * @function decodeCip68Datum
+ * @description
+ * Decodes a CIP-68 reference datum (`Constr 0 [metadata, version, extra?]`) from CBOR hex.
+ *
+ * @param {string} datum - The inline datum in CBOR hex.
+ * @returns {Promise<{ metadata: Cip68Metadata, version: number | null, extra: Cip68Value | null }>}
+ *   The typed metadata (including `_pk` when present), the datum version and its `extra` field.
+ * @throws Error if the datum is not a CIP-68 constructor holding a metadata map.
+ */
+export const decodeCip68Datum = async function (
+    datum: string
+): Promise<{ metadata: Cip68Metadata; version: number | null; extra: Cip68Value | null }> {
+    const decoded = await cbor.decodeFirst(Buffer.from(datum, 'hex'))
+    if (!(decoded instanceof cbor.Tagged) || constructorIndex(decoded) !== 0 || !(decoded.value[0] instanceof Map)) {
+        throw new Error('Invalid Datum')
+    }
+    const [metadata, version, extra] = decoded.value as unknown[]
+    return {
+        metadata: decodeValue(metadata) as Cip68Metadata,
+        version: version === undefined ? null : Number(version),
+        extra: extra === undefined ? null : decodeValue(extra)
+    }
+}
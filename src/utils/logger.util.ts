@@ -0,0 +1,87 @@
+import { LOG_LEVEL } from '../constants/enviroments.constant.js'
+import { LogLevel } from '../types/index.js'
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+/**
+ * Fields never written as is: credentials, keys, signed transactions and certificate metadata (which holds
+ * learner data).
+ */
+const SENSITIVE = /mnemonic|secret|password|token|authorization|api[-_]?key|cookie|signed_?tx|witness|metadata/i
+
+/**
+ * @function redact
+ * @description Copies a value with every sensitive field, at any depth, replaced by `[REDACTED]`.
+ */
+export const redact = function (value: unknown, depth = 0): unknown {
+    if (depth > 8 || value === null || typeof value !== 'object') return value
+    if (value instanceof Error) return { message: value.message }
+    if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1))
+    return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [
+            key,
+            SENSITIVE.test(key) ? '[REDACTED]' : redact(field, depth + 1)
+        ])
+    )
+}
+
+/**
+ * @class Logger
+ * @description
+ * Structured logger writing one JSON object per line: `level`, `time`, `message`, then the bound fields
+ * (e.g. `request_id`) and the fields of the call, redacted (see {@link redact}). Errors go to stderr,
+ * everything else to stdout. Lines below `LOG_LEVEL` are skipped.
+ */
+export class Logger {
+    private readonly level: LogLevel
+    private readonly fields: Record<string, unknown>
+    private readonly write: (level: LogLevel, line: string) => void
+
+    /**
+     * @constructor
+     * @param {Object} [options]
+     * @param {LogLevel} [options.level] - Lowest level written (`LOG_LEVEL`).
+     * @param {Record<string, unknown>} [options.fields] - Fields added to every line.
+     * @param {(level: LogLevel, line: string) => void} [options.write] - Where lines go (stdout/stderr by default).
+     */
+    constructor({
+        level = LOG_LEVEL,
+        fields = {},
+        write = (level: LogLevel, line: string) =>
+            (level === 'error' ? process.stderr : process.stdout).write(line + '\n')
+    }: {
+        level?: LogLevel
+        fields?: Record<string, unknown>
+        write?: (level: LogLevel, line: string) => void
+    } = {}) {
+        this.level = LEVELS[level] ? level : 'info'
+        this.fields = fields
+        this.write = write
+    }
+
+    /**
+     * @method child
+     * @description Returns a logger adding `fields` to every line, e.g. the id of the request being served.
+     */
+    public child = (fields: Record<string, unknown>): Logger => {
+        return new Logger({ level: this.level, fields: { ...this.fields, ...fields }, write: this.write })
+    }
+
+    public debug = (message: string, fields?: Record<string, unknown>) => this.log('debug', message, fields)
+    public info = (message: string, fields?: Record<string, unknown>) => this.log('info', message, fields)
+    public warn = (message: string, fields?: Record<string, unknown>) => this.log('warn', message, fields)
+    public error = (message: string, fields?: Record<string, unknown>) => this.log('error', message, fields)
+
+    private log = (level: LogLevel, message: string, fields: Record<string, unknown> = {}) => {
+        if (LEVELS[level] < LEVELS[this.level]) return
+        const entry = redact({ ...this.fields, ...fields }) as Record<string, unknown>
+        this.write(
+            level,
+            JSON.stringify({ level, time: new Date().toISOString(), message, ...entry }, (_, value) =>
+                typeof value === 'bigint' ? value.toString() : value
+            )
+        )
+    }
+}
+
+export const logger = new Logger()
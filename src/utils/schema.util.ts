@@ -0,0 +1,220 @@
+import { AuthScope, FieldError } from '../types/index.js'
+
+/**
+ * The subset of JSON Schema (as OpenAPI 3.0 reads it) the API is described with. Schemas are written
+ * `as const` so the TypeScript type of a value they accept can be derived from them (see {@link Infer}).
+ */
+export interface Schema {
+    type?: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object'
+    enum?: readonly string[]
+    minLength?: number
+    maxLength?: number
+    pattern?: string
+    format?: string
+    minimum?: number
+    maximum?: number
+    items?: Schema
+    minItems?: number
+    maxItems?: number
+    properties?: { readonly [name: string]: Schema }
+    required?: readonly string[]
+    additionalProperties?: boolean | Schema
+    anyOf?: readonly Schema[]
+    nullable?: boolean
+    description?: string
+    example?: unknown
+}
+
+type Nullable<S, T> = S extends { nullable: true } ? T | null : T
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+type RequiredOf<S> = S extends { required: readonly (infer K)[] } ? K : never
+
+type AdditionalOf<S> = S extends { additionalProperties: infer A }
+    ? A extends Schema
+        ? Record<string, Infer<A>>
+        : A extends true
+          ? Record<string, unknown>
+          : unknown
+    : unknown
+
+type InferObject<S> = S extends { properties: infer P }
+    ? Simplify<
+          { -readonly [K in keyof P as K extends RequiredOf<S> ? K : never]: Infer<P[K]> } & {
+              -readonly [K in keyof P as K extends RequiredOf<S> ? never : K]?: Infer<P[K]>
+          } & AdditionalOf<S>
+      >
+    : AdditionalOf<S> & {}
+
+/**
+ * The TypeScript type of the values a {@link Schema} accepts.
+ */
+export type Infer<S> = S extends { anyOf: readonly (infer U)[] }
+    ? Nullable<S, Infer<U>>
+    : Nullable<
+          S,
+          S extends { enum: readonly (infer E)[] }
+              ? E
+              : S extends { type: 'string' }
+                ? string
+                : S extends { type: 'integer' | 'number' }
+                  ? number
+                  : S extends { type: 'boolean' }
+                    ? boolean
+                    : S extends { type: 'array'; items: infer I }
+                      ? Infer<I>[]
+                      : S extends { type: 'object' }
+                        ? InferObject<S>
+                        : unknown
+      >
+
+const typeOf = function (value: unknown): string {
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'array'
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+    return typeof value
+}
+
+const join = function (path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`
+    return path ? `${path}.${key}` : key
+}
+
+/**
+ * @function describe
+ * @description Names the values a schema accepts, for error messages (`a string`, `an integer or a string`).
+ */
+const describe = function (schema: Schema): string {
+    if (schema.anyOf) return schema.anyOf.map(describe).join(' or ')
+    switch (schema.type) {
+        case 'integer':
+            return 'an integer'
+        case 'array':
+            return schema.maxItems !== undefined ? `an array of at most ${schema.maxItems} items` : 'an array'
+        case 'object':
+            return `an ${schema.type}`
+        case undefined:
+            return 'any value'
+        default:
+            return `a ${schema.type}`
+    }
+}
+
+/**
+ * @function validate
+ * @description
+ * Checks a value against a schema and lists every mismatch, with the path of the offending field
+ * (`items[2].receiver`). An empty list means the value is valid.
+ *
+ * @param {Schema} schema - The schema to check against.
+ * @param {unknown} value - The value, e.g. a request body.
+ * @param {string} [path] - Path of the value, prefixed to the reported fields.
+ * @returns {FieldError[]} The problems found.
+ */
+export const validate = function (schema: Schema, value: unknown, path = ''): FieldError[] {
+    const field = path || '(root)'
+    if (value === null && schema.nullable) return []
+    if (schema.anyOf) {
+        return schema.anyOf.some((option) => validate(option, value, path).length === 0)
+            ? []
+            : [{ field, message: `must be ${describe(schema)}` }]
+    }
+    if (!schema.type) return []
+
+    const actual = typeOf(value)
+    if (actual !== schema.type && !(schema.type === 'number' && actual === 'integer')) {
+        return [{ field, message: `must be ${describe(schema)}` }]
+    }
+
+    switch (schema.type) {
+        case 'string': {
+            const text = value as string
+            if (schema.enum && !schema.enum.includes(text)) {
+                return [{ field, message: `must be one of ${schema.enum.join(', ')}` }]
+            }
+            if (schema.minLength !== undefined && text.length < schema.minLength) {
+                return [
+                    {
+                        field,
+                        message:
+                            schema.minLength === 1
+                                ? 'must not be empty'
+                                : `must be at least ${schema.minLength} characters`
+                    }
+                ]
+            }
+            if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+                return [{ field, message: `must be at most ${schema.maxLength} characters` }]
+            }
+            if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+                return [{ field, message: `must match ${schema.pattern}` }]
+            }
+            return []
+        }
+        case 'integer':
+        case 'number': {
+            const number = value as number
+            if (schema.minimum !== undefined && number < schema.minimum) {
+                return [{ field, message: `must be at least ${schema.minimum}` }]
+            }
+            if (schema.maximum !== undefined && number > schema.maximum) {
+                return [{ field, message: `must be at most ${schema.maximum}` }]
+            }
+            return []
+        }
+        case 'array': {
+            const items = value as unknown[]
+            if (schema.minItems !== undefined && items.length < schema.minItems) {
+                return [
+                    {
+                        field,
+                        message:
+                            schema.minItems === 1 ? 'must not be empty' : `must have at least ${schema.minItems} items`
+                    }
+                ]
+            }
+            if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+                return [{ field, message: `must have at most ${schema.maxItems} items` }]
+            }
+            return items.flatMap((item, index) => (schema.items ? validate(schema.items, item, join(path, index)) : []))
+        }
+        case 'object': {
+            const object = value as Record<string, unknown>
+            const properties = schema.properties ?? {}
+            const missing = (schema.required ?? [])
+                .filter((name) => object[name] === undefined)
+                .map((name) => ({ field: join(path, name), message: 'is required' }))
+            const checked = Object.entries(object).flatMap(([name, property]) => {
+                if (property === undefined) return []
+                if (properties[name]) return validate(properties[name], property, join(path, name))
+                if (schema.additionalProperties === false) {
+                    return [{ field: join(path, name), message: 'is not allowed' }]
+                }
+                if (typeof schema.additionalProperties === 'object') {
+                    return validate(schema.additionalProperties, property, join(path, name))
+                }
+                return []
+            })
+            return [...missing, ...checked]
+        }
+        default:
+            return []
+    }
+}
+
+/**
+ * One API route: how it is called, the scope it requires (none for public routes), what its path
+ * parameters, query and body must look like, and what it answers with each status code.
+ */
+export interface RouteSchema {
+    method: 'get' | 'post' | 'put'
+    path: string
+    scope?: AuthScope | 'job'
+    summary: string
+    description?: string
+    params?: Schema
+    query?: Schema
+    body?: Schema
+    responses: { readonly [status: number]: { description: string; schema?: Schema } }
+}
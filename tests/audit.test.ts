@@ -0,0 +1,149 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect, jest } from '@jest/globals'
+import { deserializeAddress, MeshWallet } from '@meshsdk/core'
+import { Request, Response } from 'express'
+import { audit as auditHandler } from '../src/controllers/audit.controller'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { AuditLog, auditLog } from '../src/services/audit.service'
+import { JobQueue } from '../src/services/job.service'
+import { WalletPool } from '../src/services/pool.service'
+import { UtxoManager } from '../src/services/wallet.service'
+import { JsonStore } from '../src/stores/json.store'
+import { AuditRecord, Cip68Metadata, Job } from '../src/types'
+
+describe('Audit log of contract operations', function () {
+    const course = 'course-audit'
+    let directory: string
+    let emulator: EmulatorProvider
+    let meshWallet: MeshWallet
+    let metadata: Cip68Metadata
+    let audit: AuditLog
+    let queue: JobQueue
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'))
+        emulator = new EmulatorProvider()
+        meshWallet = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+        const walletAddress = meshWallet.getChangeAddress()
+        metadata = { name: 'hcd #009', _pk: deserializeAddress(walletAddress).pubKeyHash }
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '5000000' }])
+
+        audit = new AuditLog(new JsonStore<AuditRecord>('audit', directory))
+        queue = new JobQueue({
+            store: new JsonStore<Job>('jobs', directory),
+            provider: () => emulator,
+            pool: new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager: new UtxoManager() }),
+            audit
+        })
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Records caller, metadata before and after, transaction and fee of each operation', async function () {
+        const mint = queue.enqueue(
+            'mint',
+            course,
+            [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }],
+            'api-key:lms'
+        )
+        await queue.idle()
+        const update = queue.enqueue(
+            'update',
+            course,
+            [{ assetName: '1hcd11', metadata: { ...metadata, grade: 9 } }],
+            'jwt:teacher'
+        )
+        await queue.idle()
+
+        const minted = audit.query({ caller: 'lms' })
+        expect(minted).toHaveLength(1)
+        expect(minted[0]).toMatchObject({
+            id: mint.id,
+            operation: 'mint',
+            caller: 'api-key:lms',
+            course,
+            assetNames: ['1hcd11'],
+            before: { '1hcd11': null },
+            after: { '1hcd11': { name: 'hcd #009' } },
+            txHashes: [queue.get(mint.id)!.txHash],
+            status: 'confirmed',
+            error: null
+        })
+        expect(BigInt(minted[0].fee!)).toBeGreaterThan(0n)
+
+        const [updated] = audit.query({ caller: 'jwt:teacher' })
+        expect(updated).toMatchObject({
+            id: update.id,
+            before: { '1hcd11': { name: 'hcd #009' } },
+            after: { '1hcd11': { name: 'hcd #009', grade: 9 } },
+            status: 'confirmed'
+        })
+        expect(audit.query({ course, asset: '1hcd11' }).map((record) => record.id)).toEqual([update.id, mint.id])
+    })
+
+    test('Filters by course allow-list, asset and date range', async function () {
+        queue.enqueue('burn', course, [{ assetName: 'missing', quantity: '-1' }], 'api-key:lms')
+        await queue.idle()
+
+        const [failed] = audit.query({ asset: 'missing' })
+        expect(failed).toMatchObject({ operation: 'burn', status: 'failed', error: 'Store UTXO not found', fee: null })
+        expect(audit.query({ courses: ['other-course'] })).toEqual([])
+        expect(audit.query({ course: 'other-course' })).toEqual([])
+        expect(audit.query({ from: new Date(Date.now() + 60_000) })).toEqual([])
+        expect(audit.query({ to: new Date(Date.now() + 60_000) })).toHaveLength(1)
+    })
+
+    test('Takes a date-only upper bound as the end of that day', async function () {
+        const query = jest.spyOn(auditLog, 'query').mockReturnValue([])
+        const response = { locals: {}, status: () => response, json: () => response } as unknown as Response
+        const request = (to: string) => ({ query: { from: '2026-01-01', to } }) as unknown as Request
+
+        await auditHandler(request('2026-01-31'), response)
+        await auditHandler(request('2026-01-31T12:00:00Z'), response)
+
+        expect(query.mock.calls.map(([{ from, to }]) => [from!.toISOString(), to!.toISOString()])).toEqual([
+            ['2026-01-01T00:00:00.000Z', '2026-01-31T23:59:59.999Z'],
+            ['2026-01-01T00:00:00.000Z', '2026-01-31T12:00:00.000Z']
+        ])
+        query.mockRestore()
+    })
+
+    test('Counts the fee of the batch transactions that made it on chain only', function () {
+        const now = new Date().toISOString()
+        const transaction = { assetNames: [], txHash: '00'.repeat(32) }
+        const job: Job = {
+            id: 'batch',
+            type: 'batch-mint',
+            course,
+            params: [],
+            status: 'confirmed',
+            transactions: [
+                { ...transaction, index: 0, status: 'confirmed', fee: '200000' },
+                { ...transaction, index: 1, status: 'failed', fee: '180000', error: 'Transaction expired' },
+                { ...transaction, index: 2, status: 'confirmed', fee: '190000' }
+            ],
+            createdAt: now,
+            updatedAt: now
+        }
+
+        expect(audit.record(job).fee).toBe('390000')
+        expect(
+            audit.record({
+                ...job,
+                status: 'failed',
+                transactions: job.transactions!.map((transaction) => ({ ...transaction, status: 'failed' }))
+            }).fee
+        ).toBeNull()
+    })
+})
@@ -0,0 +1,135 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { createHmac } from 'crypto'
+import { describe, test, beforeEach, afterEach, expect } from '@jest/globals'
+import { NextFunction, Request, Response } from 'express'
+import { authorize, createAuthenticate } from '../src/middlewares/auth.middleware'
+import { ApiKeys } from '../src/services/auth.service'
+import { JsonStore } from '../src/stores/json.store'
+import { ApiKeyRecord, AuthScope } from '../src/types'
+
+type MockResponse = Response & { body?: unknown; headers: Record<string, string> }
+
+const mockRequest = function (headers: Record<string, string>, body: unknown = {}, query: Record<string, string> = {}) {
+    return {
+        body,
+        params: {},
+        query,
+        get: (name: string) => headers[name]
+    } as unknown as Request
+}
+
+const mockResponse = function () {
+    const response = {
+        statusCode: 200,
+        headers: {},
+        locals: {},
+        status(code: number) {
+            this.statusCode = code
+            return this
+        },
+        json(body: unknown) {
+            this.body = body
+            return this
+        },
+        set(name: string, value: string) {
+            this.headers[name] = value
+            return this
+        }
+    }
+    return response as unknown as MockResponse
+}
+
+const signJwt = function (claims: Record<string, unknown>, secret: string) {
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url')
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+    const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')
+    return `${header}.${payload}.${signature}`
+}
+
+describe('API authentication with scoped keys', function () {
+    let directory: string
+    let keys: ApiKeys
+    let authenticate: ReturnType<typeof createAuthenticate>
+
+    const call = function (
+        scope: AuthScope,
+        headers: Record<string, string>,
+        body: unknown = {},
+        query: Record<string, string> = {}
+    ) {
+        const request = mockRequest(headers, body, query)
+        const response = mockResponse()
+        let passed = false
+        const next: NextFunction = () => {
+            passed = true
+        }
+        authenticate(request, response, function () {
+            authorize(scope)(request, response, next)
+        })
+        return { response, passed }
+    }
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-'))
+        keys = new ApiKeys({
+            store: new JsonStore<ApiKeyRecord>('api-keys', directory),
+            adminKey: 'bootstrap-admin-key',
+            jwtSecret: 'jwt-secret'
+        })
+        authenticate = createAuthenticate(keys)
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Stores only a hash of the secret and enforces scopes and courses', function () {
+        const { record, key } = keys.create('lms', ['mint', 'read'], ['course-a'])
+        expect(JSON.stringify(new JsonStore<ApiKeyRecord>('api-keys', directory).get(record.id))).not.toContain(
+            key.split('_')[2]
+        )
+
+        expect(call('mint', { Authorization: `Bearer ${key}` }, { course: 'course-a' }).passed).toBe(true)
+        expect(call('mint', { 'X-API-Key': key }, { course: 'course-a' }).passed).toBe(true)
+        expect(call('burn', { Authorization: `Bearer ${key}` }, { course: 'course-a' }).response.statusCode).toBe(403)
+        expect(call('mint', { Authorization: `Bearer ${key}` }, { course: 'course-b' }).response.statusCode).toBe(403)
+        expect(call('mint', {}, { course: 'course-a' }).response.statusCode).toBe(401)
+        expect(call('mint', { Authorization: `Bearer ${key}x` }).response.statusCode).toBe(401)
+
+        expect(call('read', { Authorization: `Bearer ${key}` }, {}, { course: 'course-a' }).passed).toBe(true)
+        expect(call('read', { Authorization: `Bearer ${key}` }, {}, { course: 'course-b' }).response.statusCode).toBe(
+            403
+        )
+        expect(
+            call('read', { Authorization: `Bearer ${key}` }, { course: 'course-a' }, { course: 'course-b' }).response
+                .statusCode
+        ).toBe(403)
+    })
+
+    test('Rotates and revokes keys', function () {
+        const { record, key } = keys.create('lms', ['read'])
+        const rotated = keys.rotate(record.id)!
+
+        expect(call('read', { Authorization: `Bearer ${key}` }).response.statusCode).toBe(401)
+        expect(call('read', { Authorization: `Bearer ${rotated.key}` }).passed).toBe(true)
+
+        keys.revoke(record.id)
+        expect(call('read', { Authorization: `Bearer ${rotated.key}` }).response.statusCode).toBe(401)
+        expect(keys.rotate(record.id)).toBeUndefined()
+        expect(call('admin', { Authorization: 'Bearer bootstrap-admin-key' }).passed).toBe(true)
+    })
+
+    test('Accepts signed JWTs with scopes and rejects forged or expired ones', function () {
+        const exp = Math.floor(Date.now() / 1000) + 60
+        const token = signJwt({ sub: 'lms', scope: 'update read', courses: ['course-a'], exp }, 'jwt-secret')
+
+        expect(call('update', { Authorization: `Bearer ${token}` }, { course: 'course-a' }).passed).toBe(true)
+        expect(call('mint', { Authorization: `Bearer ${token}` }, { course: 'course-a' }).response.statusCode).toBe(403)
+        const forged = signJwt({ sub: 'lms', scope: 'mint', exp }, 'other-secret')
+        expect(call('mint', { Authorization: `Bearer ${forged}` }).response.statusCode).toBe(401)
+        const expired = signJwt({ sub: 'lms', scope: 'mint', exp: exp - 120 }, 'jwt-secret')
+        expect(call('mint', { Authorization: `Bearer ${expired}` }).response.statusCode).toBe(401)
+    })
+})
@@ -0,0 +1,59 @@
+import { describe, test, expect } from '@jest/globals'
+import cbor from 'cbor'
+import { decodeCip68Datum, encodeCip68Metadata } from '../src/utils/cip68.util'
+
+type PlutusJson = ReturnType<typeof encodeCip68Metadata>
+
+const toCborValue = function (data: PlutusJson): unknown {
+    if ('bytes' in data) return Buffer.from(data.bytes, 'hex')
+    if ('int' in data) return data.int
+    if ('list' in data) return data.list.map(toCborValue)
+    if ('map' in data) return new Map(data.map.map(({ k, v }) => [toCborValue(k), toCborValue(v)]))
+    return new cbor.Tagged(121 + data.constructor, data.fields.map(toCborValue))
+}
+
+const toCbor = function (datum: PlutusJson) {
+    return cbor.encode(toCborValue(datum)).toString('hex')
+}
+
+describe('CIP-68 metadata codec', function () {
+    test('Round-trips typed and nested metadata', async function () {
+        const metadata = {
+            name: 'hcd #009',
+            code: 'cafe',
+            score: 97,
+            passed: true,
+            revoked: false,
+            files: [{ src: 'ipfs://Qm', mediaType: 'application/pdf' }],
+            grades: { m1: 9, m2: 8 },
+            _pk: 'ab'.repeat(28)
+        }
+
+        const decoded = await decodeCip68Datum(toCbor(encodeCip68Metadata(metadata)))
+
+        expect(decoded).toEqual({ metadata, version: 1, extra: null })
+    })
+
+    test('Exposes the version and extra fields', async function () {
+        const datum = {
+            constructor: 0,
+            fields: [
+                { map: [{ k: { bytes: Buffer.from('name').toString('hex') }, v: { bytes: '6869' } }] },
+                { int: 2 },
+                { list: [{ int: 7 }, { bytes: 'ff00' }] }
+            ]
+        }
+
+        expect(await decodeCip68Datum(toCbor(datum))).toEqual({
+            metadata: { name: 'hi' },
+            version: 2,
+            extra: [7, 'ff00']
+        })
+    })
+
+    test('Rejects values Plutus data cannot hold, naming the field', function () {
+        expect(() => encodeCip68Metadata({ grades: { m1: 8.5 } })).toThrow(
+            'Metadata field grades.m1 must be an integer'
+        )
+    })
+})
@@ -0,0 +1,228 @@
+import { describe, test, expect } from '@jest/globals'
+import { NextFunction, Request, Response } from 'express'
+import { ContractApiError, ContractClient } from '../src/client'
+import { validateRequest } from '../src/middlewares/validate.middleware'
+import contractRouter from '../src/routers/contract.route'
+import { contractRoutes } from '../src/schemas/contract.schema'
+import { holderRoutes } from '../src/schemas/holder.schema'
+import { openApiDocument } from '../src/schemas/openapi.schema'
+
+type MockResponse = Response & { body?: unknown }
+
+const mockResponse = function () {
+    const response = {
+        statusCode: 200,
+        status(code: number) {
+            this.statusCode = code
+            return this
+        },
+        json(body: unknown) {
+            this.body = body
+            return this
+        }
+    }
+    return response as unknown as MockResponse
+}
+
+const job = {
+    id: 'job-1',
+    type: 'mint',
+    course: 'course-101',
+    status: 'queued',
+    asset_names: ['cert-0001'],
+    tx_hash: null,
+    policy_id: null,
+    signer: null,
+    error: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z'
+}
+
+describe('Contract API schemas and client', function () {
+    test('Describes every contract route, validates requests and documents them', function () {
+        const routes = (
+            contractRouter.stack as unknown as { route?: { path: string; methods: Record<string, boolean> } }[]
+        )
+            .filter((layer) => layer.route)
+            .map((layer) => `${Object.keys(layer.route!.methods)[0]} ${layer.route!.path}`)
+        expect(routes.sort()).toEqual(
+            Object.values(contractRoutes)
+                .map((route) => `${route.method} ${route.path}`)
+                .sort()
+        )
+
+        const check = function (body: unknown, query: Record<string, string> = {}) {
+            const response = mockResponse()
+            let passed = false
+            const next: NextFunction = () => {
+                passed = true
+            }
+            validateRequest(contractRoutes.batchMint)({ params: {}, query, body } as unknown as Request, response, next)
+            return { passed, response }
+        }
+
+        const valid = {
+            course: 'course-101',
+            items: [{ asset_name: 'a', metadata: { name: 'Alice' }, receiver: 'addr' }]
+        }
+        expect(check(valid).passed).toBe(true)
+        expect(check({ ...valid, items: [{ ...valid.items[0], quantity: 2 }] }).passed).toBe(true)
+
+        const invalid = check(
+            { course: '', items: [{ asset_name: 'a', metadata: 'Alice', quantity: 'two' }], signer: { utxos: [] } },
+            { dryRun: 'yes' }
+        )
+        expect(invalid.passed).toBe(false)
+        expect(invalid.response.statusCode).toBe(400)
+        expect(invalid.response.body).toEqual({
+            error: 'Invalid request',
+            details: [
+                { field: 'query.dryRun', message: 'must be one of true, false' },
+                { field: 'body.course', message: 'must not be empty' },
+                { field: 'body.items[0].receiver', message: 'is required' },
+                { field: 'body.items[0].metadata', message: 'must be an object' },
+                { field: 'body.items[0].quantity', message: 'must be a string or an integer' },
+                { field: 'body.signer.address', message: 'is required' },
+                { field: 'body.signer.utxos', message: 'must not be empty' }
+            ],
+            status: 400
+        })
+
+        const document = openApiDocument as {
+            paths: Record<string, Record<string, Record<string, unknown>>>
+            components: { schemas: Record<string, unknown> }
+        }
+        expect(Object.keys(document.paths).sort()).toEqual([
+            '/api/v1/contract',
+            '/api/v1/contract/batch-mint',
+            '/api/v1/contract/burn',
+            '/api/v1/contract/jobs/{id}',
+            '/api/v1/contract/mint',
+            '/api/v1/contract/submit',
+            '/api/v1/contract/update',
+            '/api/v1/contract/{course}/assets',
+            '/api/v1/contract/{course}/assets/{assetName}',
+            '/api/v1/contract/{course}/reference-scripts',
+            '/api/v1/contract/{course}/template',
+            '/api/v1/holders/{address}/certificates'
+        ])
+        const mint = document.paths['/api/v1/contract/mint'].post
+        expect(mint).toMatchObject({
+            operationId: 'mint',
+            parameters: [{ name: 'dryRun', in: 'query', required: false }],
+            requestBody: {
+                content: {
+                    'application/json': {
+                        schema: {
+                            required: ['course', 'asset_name', 'metadata', 'receiver'],
+                            properties: { signer: { $ref: '#/components/schemas/Signer' } }
+                        }
+                    }
+                }
+            },
+            responses: {
+                202: {
+                    content: {
+                        'application/json': { schema: { properties: { data: { $ref: '#/components/schemas/Job' } } } }
+                    }
+                }
+            }
+        })
+        expect(document.paths['/api/v1/contract'].get).not.toHaveProperty('requestBody')
+        const holdings = document.paths['/api/v1/holders/{address}/certificates'].get
+        expect(holdings).toMatchObject({ tags: ['holders'], security: [] })
+        expect(holdings.description).toContain('only the certificates of courses this service has issued for')
+        expect(holdings.responses).not.toHaveProperty('401')
+        expect(Object.keys(document.components.schemas)).toContain('Estimate')
+    })
+
+    test('Caps the courses a holder lookup searches', function () {
+        const check = function (course: string | string[]) {
+            const response = mockResponse()
+            let passed = false
+            const request = { params: { address: 'addr' }, query: { course } } as unknown as Request
+            validateRequest(holderRoutes.certificates)(request, response, () => {
+                passed = true
+            })
+            return { passed, response }
+        }
+
+        expect(check('course-101').passed).toBe(true)
+        expect(check(['a', 'b', 'c', 'd', 'e']).passed).toBe(true)
+        const tooMany = check(['a', 'b', 'c', 'd', 'e', 'f'])
+        expect(tooMany.passed).toBe(false)
+        expect(tooMany.response.body).toEqual({
+            error: 'Invalid request',
+            details: [{ field: 'query.course', message: 'must be a string or an array of at most 5 items' }],
+            status: 400
+        })
+    })
+
+    test('Sends typed requests and throws typed errors', async function () {
+        const calls: { url: string; init: RequestInit }[] = []
+        const answers: globalThis.Response[] = []
+        const client = new ContractClient({
+            baseUrl: 'https://contract.example.com/',
+            apiKey: 'sk_test',
+            fetch: async (url, init) => {
+                calls.push({ url: String(url), init: init! })
+                const answer = answers.shift()
+                if (!answer) throw new TypeError('fetch failed')
+                return answer
+            }
+        })
+        const reply = (status: number, body: unknown) =>
+            answers.push(new globalThis.Response(JSON.stringify(body), { status }))
+
+        reply(202, { message: 'Mint job queued', job_id: 'job-1', data: job, status: 202 })
+        const queued = await client.mint(
+            { course: 'course-101', asset_name: 'cert-0001', metadata: { name: 'Alice' }, receiver: 'addr_test1' },
+            { idempotencyKey: 'mint-cert-0001' }
+        )
+        expect(queued.data.status).toBe('queued')
+        expect(calls[0].url).toBe('https://contract.example.com/api/v1/contract/mint')
+        expect(calls[0].init.method).toBe('POST')
+        expect(calls[0].init.headers).toMatchObject({ 'X-API-Key': 'sk_test', 'Idempotency-Key': 'mint-cert-0001' })
+        expect(JSON.parse(String(calls[0].init.body))).toEqual({
+            course: 'course-101',
+            asset_name: 'cert-0001',
+            metadata: { name: 'Alice' },
+            receiver: 'addr_test1'
+        })
+
+        reply(200, { message: 'Assets found', data: { items: [] }, status: 200 })
+        await client.assets('course 101', { page: 2, sort: '-slot', metadata: { grade: 'A' } })
+        expect(calls[1].url).toBe(
+            'https://contract.example.com/api/v1/contract/course%20101/assets?page=2&sort=-slot&metadata.grade=A'
+        )
+
+        reply(409, {
+            error: 'Stale version',
+            details: 'Expected abc#0, the asset has been updated since',
+            data: { current_version: 'def#0' },
+            status: 409
+        })
+        const conflict = await client
+            .update({ course: 'course-101', asset_name: 'cert-0001', metadata: {}, expected_version: 'abc#0' })
+            .catch((error) => error)
+        expect(conflict).toBeInstanceOf(ContractApiError)
+        expect(conflict).toMatchObject({
+            route: 'update',
+            status: 409,
+            kind: 'conflict',
+            message: 'Stale version: Expected abc#0, the asset has been updated since',
+            data: { current_version: 'def#0' }
+        })
+
+        const invalid = await client
+            .burn({ course: 'course-101', asset_name: '', quantity: '-1' })
+            .catch((error: ContractApiError) => error)
+        expect(invalid).toMatchObject({ kind: 'invalid_request', status: 400 })
+        expect((invalid as ContractApiError).fieldErrors).toEqual([
+            { field: 'body.asset_name', message: 'must not be empty' }
+        ])
+        expect(calls).toHaveLength(3)
+
+        await expect(client.job('job-1')).rejects.toMatchObject({ kind: 'network', status: 0, message: 'fetch failed' })
+    })
+})
@@ -0,0 +1,34 @@
+import { describe, test, expect } from '@jest/globals'
+import { MeshWallet } from '@meshsdk/core'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { ContractRegistry } from '../src/services/contract.service'
+
+const issuer = new MeshWallet({
+    networkId: APP_NETWORK_ID,
+    key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+}).getChangeAddress()
+
+describe('Course contract registry', function () {
+    test('Derives a contract once per course and issuer', function () {
+        const registry = new ContractRegistry(10)
+        const contract = registry.get('course-a', issuer)
+
+        expect(registry.get('course-a', issuer)).toBe(contract)
+        expect(contract.policyId).toHaveLength(56)
+        expect(contract.storeAddress.startsWith(APP_NETWORK_ID === 1 ? 'addr1' : 'addr_test1')).toBe(true)
+        expect(registry.get('course-b', issuer).policyId).not.toBe(contract.policyId)
+        expect(new ContractRegistry(10).get('course-a', issuer)).toEqual(contract)
+    })
+
+    test('Evicts the least recently used contract', function () {
+        const registry = new ContractRegistry(2)
+        const a = registry.get('course-a', issuer)
+        registry.get('course-b', issuer)
+        registry.get('course-a', issuer)
+        registry.get('course-c', issuer)
+
+        expect(registry.size).toBe(2)
+        expect(registry.get('course-a', issuer)).toBe(a)
+        expect(registry.size).toBe(2)
+    })
+})
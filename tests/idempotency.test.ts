@@ -0,0 +1,105 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect } from '@jest/globals'
+import { NextFunction, Request, Response } from 'express'
+import { createIdempotency } from '../src/middlewares/idempotency.middleware'
+import { JsonStore } from '../src/stores/json.store'
+import { IdempotencyRecord } from '../src/types'
+
+type MockResponse = Response & { body?: unknown; headers: Record<string, string> }
+
+const mockRequest = function (body: unknown, key?: string) {
+    return {
+        method: 'POST',
+        baseUrl: '/api/v1/contract',
+        path: '/mint',
+        body,
+        get: (name: string) => (name === 'Idempotency-Key' ? key : undefined)
+    } as unknown as Request
+}
+
+const mockResponse = function () {
+    const response = {
+        statusCode: 200,
+        headers: {},
+        status(code: number) {
+            this.statusCode = code
+            return this
+        },
+        json(body: unknown) {
+            this.body = body
+            return this
+        },
+        set(name: string, value: string) {
+            this.headers[name] = value
+            return this
+        },
+        on() {
+            return this
+        }
+    }
+    return response as unknown as MockResponse
+}
+
+describe('Idempotency-Key middleware', function () {
+    let directory: string
+    let store: JsonStore<IdempotencyRecord>
+    let idempotency: ReturnType<typeof createIdempotency>
+    let handled: number
+
+    const handle = function (body: unknown, key?: string) {
+        const response = mockResponse()
+        const next: NextFunction = function () {
+            handled += 1
+            response.status(202).json({ message: 'Mint job queued', job_id: 'unknown-job', status: 202 })
+        }
+        idempotency(mockRequest(body, key), response, next)
+        return response
+    }
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'idempotency-'))
+        store = new JsonStore<IdempotencyRecord>('idempotency', directory)
+        idempotency = createIdempotency(store)
+        handled = 0
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Passes requests without a key through', function () {
+        handle({ course: 'c' })
+        handle({ course: 'c' })
+        expect(handled).toBe(2)
+    })
+
+    test('Replays the original response for a repeated key and payload', function () {
+        const first = handle({ course: 'c', asset_name: 'a' }, 'key-1')
+        const second = handle({ asset_name: 'a', course: 'c' }, 'key-1')
+
+        expect(handled).toBe(1)
+        expect(second.statusCode).toBe(202)
+        expect(second.body).toEqual(first.body)
+        expect(second.headers['Idempotent-Replayed']).toBe('true')
+    })
+
+    test('Rejects a key reused with a different payload', function () {
+        handle({ course: 'c', asset_name: 'a' }, 'key-1')
+        const second = handle({ course: 'c', asset_name: 'b' }, 'key-1')
+
+        expect(handled).toBe(1)
+        expect(second.statusCode).toBe(422)
+    })
+
+    test('Deletes expired keys', function () {
+        const createdAt = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString()
+        store.set('expired', { key: 'expired', requestHash: '', status: 'completed', statusCode: 202, createdAt })
+
+        handle({ course: 'c' }, 'key-1')
+
+        expect(store.has('expired')).toBe(false)
+        expect(store.has('key-1')).toBe(true)
+    })
+})
@@ -0,0 +1,302 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect, jest } from '@jest/globals'
+import { cst, DEFAULT_PROTOCOL_PARAMETERS, deserializeAddress, MeshWallet } from '@meshsdk/core'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { serializeJob } from '../src/controllers/job.controller'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { AuditLog } from '../src/services/audit.service'
+import { JobQueue } from '../src/services/job.service'
+import { WalletPool } from '../src/services/pool.service'
+import { UtxoManager } from '../src/services/wallet.service'
+import { JsonStore } from '../src/stores/json.store'
+import { AuditRecord, Cip68Metadata, Job } from '../src/types'
+
+const course = '[C2VN]: Hydra on Cardano – Complete Step-by-Step DApp Guide'
+
+describe('Job queue for contract operations', function () {
+    let directory: string
+    let emulator: EmulatorProvider
+    let meshWallet: MeshWallet
+    let metadata: Cip68Metadata
+
+    const newQueue = function () {
+        return new JobQueue({
+            store: new JsonStore<Job>('jobs', directory),
+            provider: () => emulator,
+            pool: new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager: new UtxoManager() }),
+            audit: new AuditLog(new JsonStore<AuditRecord>('audit', directory))
+        })
+    }
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'))
+        emulator = new EmulatorProvider()
+        meshWallet = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+        const walletAddress = meshWallet.getChangeAddress()
+        metadata = { name: 'hcd #009', _pk: deserializeAddress(walletAddress).pubKeyHash }
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '5000000' }])
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Processes a mint job until it is confirmed', async function () {
+        const queue = newQueue()
+        const job = queue.enqueue('mint', course, [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }])
+        expect(job.status).toBe('queued')
+
+        await queue.idle()
+
+        const done = queue.get(job.id)!
+        expect(done.status).toBe('confirmed')
+        expect(done.txHash).toHaveLength(64)
+        expect(done.policyId).toHaveLength(56)
+        expect(done.signedTx).toBeUndefined()
+    })
+
+    test('Records build errors on the failed job', async function () {
+        const queue = newQueue()
+        const job = queue.enqueue('burn', course, [{ assetName: 'missing', quantity: '-1' }])
+
+        await queue.idle()
+
+        expect(queue.get(job.id)).toMatchObject({
+            status: 'failed',
+            error: { message: 'Store UTXO not found', stage: 'queued' }
+        })
+    })
+
+    test('Splits a large batch mint into chained transactions and reports each item', async function () {
+        emulator = new EmulatorProvider({ protocolParameters: { ...DEFAULT_PROTOCOL_PARAMETERS, maxTxSize: 6000 } })
+        meshWallet = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+        const walletAddress = meshWallet.getChangeAddress()
+        metadata = { name: 'hcd #009', _pk: deserializeAddress(walletAddress).pubKeyHash }
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '5000000' }])
+
+        const queue = newQueue()
+        const items = Array.from({ length: 40 }, (_, index) => ({
+            assetName: `student${index}`,
+            metadata: index === 7 ? { ...metadata, grade: 8.5 } : metadata,
+            quantity: '1',
+            receiver: ''
+        }))
+        const job = queue.enqueue('batch-mint', course, items)
+
+        await queue.idle()
+
+        const done = queue.get(job.id)!
+        expect(done.status).toBe('confirmed')
+        expect(done.transactions!.length).toBeGreaterThan(1)
+        expect(done.transactions!.every((transaction) => transaction.status === 'confirmed')).toBe(true)
+        expect(done.transactions!.flatMap((transaction) => transaction.assetNames)).toHaveLength(39)
+        expect(done.failures).toEqual([
+            { assetName: 'student7', error: 'Metadata field grade must be an integer, got 8.5' }
+        ])
+
+        const report = serializeJob(done).items!
+        expect(report.find((item) => item.asset_name === 'student7')).toMatchObject({ status: 'failed', tx_hash: null })
+        expect(report.filter((item) => item.status === 'confirmed')).toHaveLength(39)
+    })
+
+    test('Splits a batch mint along the evaluated execution units', async function () {
+        emulator = new EmulatorProvider({
+            protocolParameters: { ...DEFAULT_PROTOCOL_PARAMETERS, maxTxExMem: '9500000' }
+        })
+        meshWallet = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+        emulator.addUtxo(meshWallet.getChangeAddress(), [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(meshWallet.getChangeAddress(), [{ unit: 'lovelace', quantity: '5000000' }])
+        // Each item (its reference and user tokens) costs 1,000,000 units of memory to mint.
+        const evaluating = new Proxy(emulator, {
+            get: (target, property, receiver) => {
+                if (property !== 'evaluateTx') return Reflect.get(target, property, receiver)
+                return async (tx: string) => {
+                    const tokens = cst.deserializeTx(tx).body().mint()?.size ?? 0
+                    return (await target.evaluateTx(tx)).map((action) => ({
+                        ...action,
+                        budget: { mem: tokens * 500_000, steps: 1_000_000 }
+                    }))
+                }
+            }
+        })
+        const queue = new JobQueue({
+            store: new JsonStore<Job>('jobs', directory),
+            provider: () => evaluating,
+            pool: new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager: new UtxoManager() }),
+            audit: new AuditLog(new JsonStore<AuditRecord>('audit', directory))
+        })
+        const items = Array.from({ length: 12 }, (_, index) => ({
+            assetName: `student${index}`,
+            metadata,
+            quantity: '1',
+            receiver: ''
+        }))
+        const job = queue.enqueue('batch-mint', course, items)
+
+        await queue.idle()
+
+        const done = queue.get(job.id)!
+        expect(done.status).toBe('confirmed')
+        // With Mesh's 10% margin on evaluated budgets, 8 items (8,800,000) fit under 9,500,000; 9 do not.
+        expect(done.transactions!.map((transaction) => transaction.assetNames.length)).toEqual([8, 4])
+    })
+
+    test('Builds an unsigned transaction and submits the witness set of an external wallet', async function () {
+        const queue = newQueue()
+        const address = meshWallet.getChangeAddress()
+        const signer = { address, utxos: await emulator.fetchAddressUTxOs(address) }
+        const job = await queue.prepare(
+            'mint',
+            course,
+            [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }],
+            signer
+        )
+        expect(job.status).toBe('unsigned')
+        expect(job.unsignedTx).toBeDefined()
+
+        const unsigned = await queue.submitSigned(job.id, { signedTx: job.unsignedTx })
+        expect(unsigned.problems[0]).toContain('Missing vkey witness')
+        expect(queue.get(job.id)!.status).toBe('unsigned')
+
+        const signedTx = await meshWallet.signTx(job.unsignedTx!, true)
+        const witnessSet = cst.deserializeTx(signedTx).witnessSet().toCbor()
+        const submissions = await Promise.all([
+            queue.submitSigned(job.id, { witnessSet }),
+            queue.submitSigned(job.id, { witnessSet })
+        ])
+        expect(submissions.map(({ problems, conflict }) => ({ problems, conflict }))).toEqual([
+            { problems: [], conflict: false },
+            { problems: [], conflict: true }
+        ])
+
+        await queue.idle()
+        expect(queue.get(job.id)).toMatchObject({ status: 'confirmed', txHash: job.txHash })
+    })
+
+    test('Rejects a signed transaction whose body differs from the built one', async function () {
+        const queue = newQueue()
+        const address = meshWallet.getChangeAddress()
+        const signer = { address, utxos: await emulator.fetchAddressUTxOs(address) }
+        const first = await queue.prepare(
+            'mint',
+            course,
+            [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }],
+            signer
+        )
+        const second = await queue.prepare(
+            'mint',
+            course,
+            [{ assetName: '1hcd12', metadata, quantity: '1', receiver: '' }],
+            signer
+        )
+
+        const { problems } = await queue.submitSigned(first.id, {
+            signedTx: await meshWallet.signTx(second.unsignedTx!, true)
+        })
+        expect(problems[0]).toContain('does not match the built transaction')
+    })
+
+    test('Estimates a mint without submitting it or holding its inputs', async function () {
+        const queue = newQueue()
+        const before = emulator.getUtxos()
+        const params = [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }]
+
+        const estimate = await queue.estimate('mint', course, params)
+
+        expect(estimate).toMatchObject({ valid: true, errors: [] })
+        const [transaction] = estimate.transactions
+        expect(BigInt(transaction.fee)).toBeGreaterThan(0n)
+        expect(estimate.fee).toBe(transaction.fee)
+        expect(transaction.exUnits.map((units) => units.tag)).toEqual(['mint'])
+        expect(BigInt(estimate.storeLovelace)).toBeGreaterThan(0n)
+        expect(transaction.outputs.find((output) => output.metadata !== null)!.metadata).toEqual(metadata)
+        expect(emulator.getUtxos()).toEqual(before)
+
+        const job = queue.enqueue('mint', course, params)
+        await queue.idle()
+        expect(queue.get(job.id)!.txHash).not.toBe(transaction.txHash)
+        expect(queue.get(job.id)!.status).toBe('confirmed')
+    })
+
+    test('Reports build errors of a dry run as validation results', async function () {
+        const queue = newQueue()
+
+        expect(await queue.estimate('burn', course, [{ assetName: 'missing', quantity: '-1' }])).toEqual({
+            valid: false,
+            transactions: [],
+            errors: [{ assetName: 'missing', code: 'asset_not_found', message: 'Store UTXO not found' }],
+            fee: '0',
+            storeLovelace: '0'
+        })
+
+        const signTx = jest.spyOn(meshWallet, 'signTx')
+        const batch = await queue.estimate('batch-mint', course, [
+            { assetName: 'student1', metadata, quantity: '1', receiver: '' },
+            { assetName: 'student2', metadata: { ...metadata, grade: 8.5 }, quantity: '1', receiver: '' }
+        ])
+        expect(batch.valid).toBe(false)
+        expect(batch.transactions.flatMap((transaction) => transaction.assetNames)).toEqual(['student1'])
+        expect(batch.errors).toEqual([
+            {
+                assetName: 'student2',
+                code: 'build_failed',
+                message: 'Metadata field grade must be an integer, got 8.5'
+            }
+        ])
+        expect(signTx).not.toHaveBeenCalled()
+    })
+
+    test('Deletes settled jobs once past their retention', function () {
+        const store = new JsonStore<Job>('jobs', directory)
+        const old = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString()
+        const now = new Date().toISOString()
+        const job = { type: 'mint', course, params: [], createdAt: old, updatedAt: old } as const
+        store.set('confirmed', { ...job, id: 'confirmed', status: 'confirmed' })
+        store.set('failed', { ...job, id: 'failed', status: 'failed' })
+        store.set('unsigned', { ...job, id: 'unsigned', status: 'unsigned' })
+        store.set('recent', { ...job, id: 'recent', status: 'confirmed', updatedAt: now })
+
+        expect(newQueue().prune()).toBe(2)
+        expect(new JsonStore<Job>('jobs', directory).values().map((job) => job.id)).toEqual(['unsigned', 'recent'])
+    })
+
+    test('Resumes persisted jobs after a restart', async function () {
+        const store = new JsonStore<Job>('jobs', directory)
+        const now = new Date().toISOString()
+        store.set('interrupted', {
+            id: 'interrupted',
+            type: 'mint',
+            course,
+            params: [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }],
+            status: 'queued',
+            createdAt: now,
+            updatedAt: now
+        })
+
+        const queue = newQueue()
+        queue.resume()
+        await queue.idle()
+
+        expect(queue.get('interrupted')!.status).toBe('confirmed')
+        expect(new JsonStore<Job>('jobs', directory).get('interrupted')!.status).toBe('confirmed')
+    })
+})
@@ -1,103 +1,288 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
-import { describe, test, beforeEach, jest } from '@jest/globals'
-import { BlockfrostProvider, MeshWallet } from '@meshsdk/core'
-import { APP_MNEMONIC, APP_NETWORK_ID, BLOCKFROST_API_KEY } from '../src/constants/enviroments.constant'
+import { describe, test, beforeEach, expect, jest } from '@jest/globals'
+import { CIP68_100, CIP68_222, deserializeAddress, MeshWallet, stringToHex } from '@meshsdk/core'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { UtxoManager } from '../src/services/wallet.service'
 import { MeshTxBuilder } from '../src/txbuilders/mesh.txbuilder'
 
+const course = '[C2VN]: Hydra on Cardano – Complete Step-by-Step DApp Guide'
+const certificate = {
+    name: 'hcd #009',
+    image: 'ipfs://QmQK3ZfKnwg772ZUhSodoyaqTMPazG2Ni3V4ydifYaYzdV',
+    mediaType: 'image/png',
+    rarity: 'Legendary'
+}
+
 describe('Mint, Burn, Update, Remove Course User (NFT/TOKEN) Using CIP68', function () {
     let meshWallet: MeshWallet
-    let blockfrostProvider: BlockfrostProvider = new BlockfrostProvider(BLOCKFROST_API_KEY)
+    let emulator: EmulatorProvider
+    let utxoManager: UtxoManager
+    let walletAddress: string
+    let metadata: Record<string, string>
+
+    const newTxBuilder = function () {
+        return new MeshTxBuilder({
+            meshWallet: meshWallet,
+            course: course,
+            issuer: walletAddress,
+            provider: emulator,
+            evaluator: emulator,
+            utxoManager
+        })
+    }
+
+    const submit = async function (unsignedTx: string) {
+        const signedTx = await meshWallet.signTx(unsignedTx, true)
+        const txHash = await meshWallet.submitTx(signedTx)
+        await new Promise<void>(function (resolve) {
+            emulator.onTxConfirmed(txHash, resolve)
+        })
+        return txHash
+    }
+
+    const balanceOf = async function (address: string, unit: string) {
+        const utxos = await emulator.fetchAddressUTxOs(address, unit)
+        return utxos
+            .flatMap((utxo) => utxo.output.amount)
+            .filter((amount) => amount.unit === unit)
+            .reduce((total, amount) => total + Number(amount.quantity), 0)
+    }
+
     beforeEach(async function () {
+        emulator = new EmulatorProvider()
+        utxoManager = new UtxoManager()
         meshWallet = new MeshWallet({
             networkId: APP_NETWORK_ID,
-            fetcher: blockfrostProvider,
-            submitter: blockfrostProvider,
+            fetcher: emulator,
+            submitter: emulator,
             key: {
                 type: 'mnemonic',
-                words: APP_MNEMONIC?.split(' ') || []
+                words: MeshWallet.brew() as string[]
             }
         })
+        walletAddress = meshWallet.getChangeAddress()
+        metadata = { ...certificate, _pk: deserializeAddress(walletAddress).pubKeyHash }
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '5000000' }])
     })
-    jest.setTimeout(600000000)
+    jest.setTimeout(60000)
 
     test('Mint', async function () {
-        return
-        const meshTxBuilder: MeshTxBuilder = new MeshTxBuilder({
-            meshWallet: meshWallet,
-            course: '[C2VN]: Hydra on Cardano – Complete Step-by-Step DApp Guide',
-            issuer: meshWallet.getChangeAddress()
-        })
-        const unsignedTx: string = await meshTxBuilder.mint([
-            {
-                assetName: '1hcd11',
-                quantity: '1',
-                receiver: '',
-                metadata: {
-                    name: 'hcd #009',
-                    image: 'ipfs://QmQK3ZfKnwg772ZUhSodoyaqTMPazG2Ni3V4ydifYaYzdV',
-                    mediaType: 'image/png',
-                    rarity: 'Legendary'
-                }
-            }
-        ])
-        const signedTx = await meshWallet.signTx(unsignedTx, true)
-        const txHash = await meshWallet.submitTx(signedTx)
-        await new Promise<void>(function (resolve, reject) {
-            blockfrostProvider.onTxConfirmed(txHash, () => {
-                console.log('https://preview.cexplorer.io/tx/' + txHash)
-                resolve()
-            })
+        const meshTxBuilder = newTxBuilder()
+        await submit(
+            await meshTxBuilder.mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata }])
+        )
+
+        const [storeUtxo] = await emulator.fetchAddressUTxOs(
+            meshTxBuilder.storeAddress,
+            meshTxBuilder.policyId + CIP68_100(stringToHex('1hcd11'))
+        )
+        expect(storeUtxo.output.plutusData).toBeDefined()
+        expect(await balanceOf(walletAddress, meshTxBuilder.policyId + CIP68_222(stringToHex('1hcd11')))).toBe(1)
+    })
+
+    test('Read back a minted asset', async function () {
+        const meshTxBuilder = newTxBuilder()
+        await submit(
+            await meshTxBuilder.mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata }])
+        )
+
+        const asset = await meshTxBuilder.getAsset('1hcd11')
+        expect(asset).toMatchObject({
+            policyId: meshTxBuilder.policyId,
+            referenceUnit: meshTxBuilder.policyId + CIP68_100(stringToHex('1hcd11')),
+            userUnit: meshTxBuilder.policyId + CIP68_222(stringToHex('1hcd11')),
+            issuer: deserializeAddress(walletAddress).pubKeyHash,
+            metadata: certificate
         })
+        expect(await meshTxBuilder.getAsset('missing')).toBeNull()
+    })
+
+    test('Read back typed and nested metadata, signed by the issuer whatever _pk says', async function () {
+        const meshTxBuilder = newTxBuilder()
+        const rich = {
+            ...certificate,
+            _pk: 'ab'.repeat(28),
+            score: 97,
+            passed: true,
+            files: [{ src: 'ipfs://QmQK3ZfKnwg772ZUhSodoyaqTMPazG2Ni3V4ydifYaYzdV', mediaType: 'application/pdf' }],
+            grades: { m1: 9, m2: 8 }
+        }
+        await submit(await meshTxBuilder.mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: rich }]))
+
+        const found = await meshTxBuilder.getAsset('1hcd11')
+        const { _pk, ...expected } = rich
+        expect(found!.metadata).toEqual(expected)
+        expect(_pk).not.toBe(meshTxBuilder.issuerPkHash)
+        expect(found!.issuer).toBe(meshTxBuilder.issuerPkHash)
+        expect(found!.version).toBe(1)
+    })
+
+    test('Verify a held certificate, and reject it once burned', async function () {
+        const meshTxBuilder = newTxBuilder()
+        await submit(
+            await meshTxBuilder.mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata }])
+        )
+
+        const verdict = await meshTxBuilder.verifyCertificate(walletAddress, '1hcd11')
+        expect(verdict.verified).toBe(true)
+        expect(verdict.checks).toEqual({ held: true, referenceExists: true, issuerMatches: true })
+        expect(verdict.reasons).toEqual([])
+
+        const stranger = MeshWallet.brew() as string[]
+        const strangerAddress = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            key: { type: 'mnemonic', words: stranger }
+        }).getChangeAddress()
+        expect((await meshTxBuilder.verifyCertificate(strangerAddress, '1hcd11')).checks.held).toBe(false)
+
+        await submit(await newTxBuilder().burn([{ assetName: '1hcd11', quantity: '-1' }]))
+        const burned = await meshTxBuilder.verifyCertificate(walletAddress, '1hcd11')
+        expect(burned.verified).toBe(false)
+        expect(burned.checks).toEqual({ held: false, referenceExists: false, issuerMatches: false })
+        expect(burned.reasons).toHaveLength(2)
+    })
+
+    test('List every asset issued under the course', async function () {
+        await submit(
+            await newTxBuilder().mint([
+                { assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata },
+                { assetName: '1hcd12', quantity: '1', receiver: '', metadata: { ...metadata, name: 'hcd #010' } }
+            ])
+        )
+        await submit(
+            await newTxBuilder().mint([{ assetName: '1hcd13', quantity: '1', receiver: '', metadata: metadata }])
+        )
+
+        const assets = await newTxBuilder().getAssets()
+        expect(assets.map((asset) => asset.assetName).sort()).toEqual(['1hcd11', '1hcd12', '1hcd13'])
+        expect(assets.find((asset) => asset.assetName === '1hcd12')!.metadata.name).toBe('hcd #010')
+        expect(assets.find((asset) => asset.assetName === '1hcd13')!.slot).toBeGreaterThan(
+            assets.find((asset) => asset.assetName === '1hcd11')!.slot!
+        )
+    })
+
+    test('Mint more of an existing asset', async function () {
+        await submit(
+            await newTxBuilder().mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata }])
+        )
+        const meshTxBuilder = newTxBuilder()
+        await submit(
+            await meshTxBuilder.mint([{ assetName: '1hcd11', quantity: '2', receiver: '', metadata: metadata }])
+        )
+
+        expect(await balanceOf(walletAddress, meshTxBuilder.policyId + CIP68_222(stringToHex('1hcd11')))).toBe(3)
+        expect(
+            await balanceOf(meshTxBuilder.storeAddress, meshTxBuilder.policyId + CIP68_100(stringToHex('1hcd11')))
+        ).toBe(1)
+    })
+
+    test('Mint mixes new and existing assets', async function () {
+        await submit(
+            await newTxBuilder().mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata }])
+        )
+        const meshTxBuilder = newTxBuilder()
+        await submit(
+            await meshTxBuilder.mint([
+                { assetName: '1hcd11', quantity: '1', receiver: '', metadata: { ...metadata, rarity: 'Rare' } },
+                { assetName: '1hcd12', quantity: '1', receiver: '', metadata: metadata }
+            ])
+        )
+
+        expect(await balanceOf(walletAddress, meshTxBuilder.policyId + CIP68_222(stringToHex('1hcd11')))).toBe(2)
+        expect(await balanceOf(walletAddress, meshTxBuilder.policyId + CIP68_222(stringToHex('1hcd12')))).toBe(1)
+        expect(
+            await balanceOf(meshTxBuilder.storeAddress, meshTxBuilder.policyId + CIP68_100(stringToHex('1hcd11')))
+        ).toBe(1)
+        expect((await meshTxBuilder.getAsset('1hcd11'))!.metadata.rarity).toBe('Legendary')
+        expect(await meshTxBuilder.getAsset('1hcd12')).not.toBeNull()
     })
 
     test('Update', async function () {
-        return
-        const meshTxBuilder: MeshTxBuilder = new MeshTxBuilder({
-            meshWallet: meshWallet,
-            course: '[C2VN]: Hydra on Cardano – Complete Step-by-Step DApp Guide',
-            issuer: meshWallet.getChangeAddress()
-        })
-        const unsignedTx: string = await meshTxBuilder.update([
-            {
-                assetName: '1hcd11',
-                metadata: {
-                    name: 'hcd #009',
-                    image: 'ipfs://QmQK3ZfKnwg772ZUhSodoyaqTMPazG2Ni3V4ydifYaYzdV',
-                    mediaType: 'image/png',
-                    rarity: 'Legendary'
-                }
-            }
-        ])
-        const signedTx = await meshWallet.signTx(unsignedTx, true)
-        const txHash = await meshWallet.submitTx(signedTx)
-        await new Promise<void>(function (resolve, reject) {
-            blockfrostProvider.onTxConfirmed(txHash, () => {
-                console.log('https://preview.cexplorer.io/tx/' + txHash)
-                resolve()
-            })
-        })
+        await submit(
+            await newTxBuilder().mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata }])
+        )
+        const meshTxBuilder = newTxBuilder()
+        const unit = meshTxBuilder.policyId + CIP68_100(stringToHex('1hcd11'))
+        const [before] = await emulator.fetchAddressUTxOs(meshTxBuilder.storeAddress, unit)
+
+        await submit(await meshTxBuilder.update([{ assetName: '1hcd11', metadata: { ...metadata, rarity: 'Rare' } }]))
+
+        const [after] = await emulator.fetchAddressUTxOs(meshTxBuilder.storeAddress, unit)
+        expect(after.input.txHash).not.toBe(before.input.txHash)
+        expect(after.output.plutusData).not.toBe(before.output.plutusData)
+        expect(Buffer.from(after.output.plutusData!, 'hex').toString('utf-8')).toContain('Rare')
     })
 
-    test('Burn', async function () {
-        return
-        const meshTxBuilder: MeshTxBuilder = new MeshTxBuilder({
-            meshWallet: meshWallet,
-            course: '[C2VN]: Hydra on Cardano – Complete Step-by-Step DApp Guide',
-            issuer: meshWallet.getChangeAddress()
-        })
-        const unsignedTx: string = await meshTxBuilder.burn([
-            {
-                assetName: '1hcd11',
-                quantity: '1'
-            }
-        ])
-        const signedTx = await meshWallet.signTx(unsignedTx, true)
-        const txHash = await meshWallet.submitTx(signedTx)
-        await new Promise<void>(function (resolve, reject) {
-            blockfrostProvider.onTxConfirmed(txHash, () => {
-                console.log('https://preview.cexplorer.io/tx/' + txHash)
-                resolve()
-            })
-        })
+    test('Update only from the expected version', async function () {
+        await submit(
+            await newTxBuilder().mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata }])
+        )
+        const meshTxBuilder = newTxBuilder()
+        const read = (await meshTxBuilder.getAsset('1hcd11'))!
+        const ref = `${read.utxo.input.txHash}#${read.utxo.input.outputIndex}`
+        expect(read.datumHash).toHaveLength(64)
+
+        await submit(
+            await meshTxBuilder.update([
+                { assetName: '1hcd11', metadata: { ...metadata, rarity: 'Rare' }, expectedVersion: ref }
+            ])
+        )
+        const current = (await meshTxBuilder.getAsset('1hcd11'))!
+        expect(meshTxBuilder.matchesVersion(current, ref)).toBe(false)
+        expect(meshTxBuilder.matchesVersion(current, read.datumHash)).toBe(false)
+
+        await expect(
+            meshTxBuilder.update([
+                { assetName: '1hcd11', metadata: { ...metadata, rarity: 'Epic' }, expectedVersion: read.datumHash }
+            ])
+        ).rejects.toThrow('Stale version')
+
+        await submit(
+            await meshTxBuilder.update([
+                { assetName: '1hcd11', metadata: { ...metadata, rarity: 'Epic' }, expectedVersion: current.datumHash }
+            ])
+        )
+        expect((await meshTxBuilder.getAsset('1hcd11'))!.metadata.rarity).toBe('Epic')
+    })
+
+    test('Reuses one builder for consecutive transactions', async function () {
+        const meshTxBuilder = newTxBuilder()
+        await submit(
+            await meshTxBuilder.mint([{ assetName: '1hcd11', quantity: '1', receiver: '', metadata: metadata }])
+        )
+        await submit(
+            await meshTxBuilder.mint([{ assetName: '1hcd12', quantity: '1', receiver: '', metadata: metadata }])
+        )
+        await submit(await meshTxBuilder.update([{ assetName: '1hcd11', metadata: { ...metadata, rarity: 'Rare' } }]))
+
+        expect((await meshTxBuilder.getAssets()).map((asset) => asset.assetName).sort()).toEqual(['1hcd11', '1hcd12'])
+        expect((await meshTxBuilder.getAsset('1hcd11'))!.metadata.rarity).toBe('Rare')
+    })
+
+    test('Burn part of the user tokens', async function () {
+        await submit(
+            await newTxBuilder().mint([{ assetName: '1hcd11', quantity: '2', receiver: '', metadata: metadata }])
+        )
+        const meshTxBuilder = newTxBuilder()
+        await submit(await meshTxBuilder.burn([{ assetName: '1hcd11', quantity: '-1' }]))
+
+        expect(await balanceOf(walletAddress, meshTxBuilder.policyId + CIP68_222(stringToHex('1hcd11')))).toBe(1)
+        expect(
+            await balanceOf(meshTxBuilder.storeAddress, meshTxBuilder.policyId + CIP68_100(stringToHex('1hcd11')))
+        ).toBe(1)
+    })
+
+    test('Burn all user tokens removes the reference token', async function () {
+        await submit(
+            await newTxBuilder().mint([{ assetName: '1hcd11', quantity: '2', receiver: '', metadata: metadata }])
+        )
+        const meshTxBuilder = newTxBuilder()
+        await submit(await meshTxBuilder.burn([{ assetName: '1hcd11', quantity: '-2' }]))
+
+        expect(await balanceOf(walletAddress, meshTxBuilder.policyId + CIP68_222(stringToHex('1hcd11')))).toBe(0)
+        expect(
+            await balanceOf(meshTxBuilder.storeAddress, meshTxBuilder.policyId + CIP68_100(stringToHex('1hcd11')))
+        ).toBe(0)
     })
 })
@@ -0,0 +1,180 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect } from '@jest/globals'
+import { deserializeAddress, MeshWallet } from '@meshsdk/core'
+import { Request, Response } from 'express'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { createRequestContext } from '../src/middlewares/request.middleware'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { AuditLog } from '../src/services/audit.service'
+import { checkHealth } from '../src/services/health.service'
+import { JobQueue } from '../src/services/job.service'
+import { Metrics } from '../src/services/metrics.service'
+import { WalletPool } from '../src/services/pool.service'
+import { UtxoManager } from '../src/services/wallet.service'
+import { JsonStore } from '../src/stores/json.store'
+import { AuditRecord, Job } from '../src/types'
+import { Logger } from '../src/utils/logger.util'
+
+const course = 'course-metrics'
+
+describe('Logs, metrics and health checks', function () {
+    let directory: string
+    let emulator: EmulatorProvider
+    let meshWallet: MeshWallet
+    let lines: Record<string, unknown>[]
+    let logger: Logger
+
+    const newWallet = function () {
+        return new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+    }
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'))
+        emulator = new EmulatorProvider()
+        meshWallet = newWallet()
+        emulator.addUtxo(meshWallet.getChangeAddress(), [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(meshWallet.getChangeAddress(), [{ unit: 'lovelace', quantity: '5000000' }])
+        lines = []
+        logger = new Logger({ level: 'debug', write: (level, line) => lines.push(JSON.parse(line)) })
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Logs each request as JSON with its id, redacting sensitive fields', function () {
+        const metrics = new Metrics()
+        let finish = () => {}
+        const response = {
+            statusCode: 202,
+            locals: {} as Record<string, unknown>,
+            headers: {} as Record<string, string>,
+            set(name: string, value: string) {
+                this.headers[name] = value
+                return this
+            },
+            on(event: string, listener: () => void) {
+                finish = listener
+                return this
+            }
+        }
+        const request = {
+            method: 'POST',
+            baseUrl: '/api/v1/contract',
+            originalUrl: '/api/v1/contract/mint?dryRun=false',
+            route: { path: '/mint' },
+            get: (name: string) => (name === 'X-Request-Id' ? 'req-42' : undefined)
+        }
+
+        createRequestContext(logger, metrics)(request as unknown as Request, response as unknown as Response, () => {})
+        ;(response.locals.logger as Logger).info('Mint job queued', {
+            job_id: 'job-1',
+            body: { metadata: { name: 'Alice' }, signer: { api_key: 'sk_live', address: 'addr_test1' } }
+        })
+        finish()
+
+        expect(response.headers['X-Request-Id']).toBe('req-42')
+        expect(lines).toEqual([
+            {
+                level: 'info',
+                time: expect.any(String),
+                message: 'Mint job queued',
+                request_id: 'req-42',
+                job_id: 'job-1',
+                body: { metadata: '[REDACTED]', signer: { api_key: '[REDACTED]', address: 'addr_test1' } }
+            },
+            {
+                level: 'info',
+                time: expect.any(String),
+                message: 'Request completed',
+                request_id: 'req-42',
+                method: 'POST',
+                path: '/api/v1/contract/mint',
+                route: '/api/v1/contract/mint',
+                status: 202,
+                duration_ms: expect.any(Number)
+            }
+        ])
+        expect(metrics.render()).toContain(
+            'http_requests_total{method="POST",route="/api/v1/contract/mint",status="202"} 1'
+        )
+    })
+
+    test('Counts operations by outcome, their stage durations, fees and provider errors', async function () {
+        const metrics = new Metrics()
+        const provider = metrics.instrument(emulator)
+        const queue = new JobQueue({
+            store: new JsonStore<Job>('jobs', directory),
+            provider: () => provider,
+            pool: new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager: new UtxoManager() }),
+            audit: new AuditLog(new JsonStore<AuditRecord>('audit', directory)),
+            metrics,
+            logger
+        })
+        const metadata = { name: 'hcd #009', _pk: deserializeAddress(meshWallet.getChangeAddress()).pubKeyHash }
+
+        const minted = queue.enqueue('mint', course, [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }])
+        queue.enqueue('burn', course, [{ assetName: 'missing', quantity: '-1' }])
+        await queue.idle()
+        await expect(provider.fetchTxInfo('00'.repeat(32))).rejects.toThrow('not found')
+
+        expect(metrics.operations.get({ operation: 'mint', course, status: 'confirmed' })).toBe(1)
+        expect(metrics.operations.get({ operation: 'burn', course, status: 'failed' })).toBe(1)
+        expect(
+            ['build', 'submit', 'confirm'].map((stage) => metrics.stages.count({ operation: 'mint', stage }))
+        ).toEqual([1, 1, 1])
+        const fee = new AuditLog(new JsonStore<AuditRecord>('audit', directory)).query({ course })
+        expect(metrics.fees.get({ operation: 'mint', course })).toBe(
+            Number(fee.find((record) => record.id === minted.id)!.fee)
+        )
+        expect(metrics.providerErrors.get({ method: 'fetchTxInfo' })).toBe(1)
+        expect(metrics.providerRequests.count({ method: 'submitTx' })).toBe(1)
+        expect(lines.map((line) => [line.message, line.job_id === minted.id])).toEqual([
+            ['Job failed', false],
+            ['Job confirmed', true]
+        ])
+
+        const text = metrics.render()
+        expect(text).toContain('# TYPE contract_operation_stage_seconds histogram')
+        expect(text).toContain('contract_operation_stage_seconds_bucket{operation="mint",stage="build",le="+Inf"} 1')
+        expect(text).toContain('provider_errors_total{method="fetchTxInfo"} 1')
+    })
+
+    test('Reports provider reachability and issuer wallet readiness', async function () {
+        const ready = await checkHealth({
+            provider: emulator,
+            pool: new WalletPool({ size: 0, wallet: () => meshWallet })
+        })
+        expect(ready).toEqual({
+            status: 'ok',
+            checks: {
+                provider: { status: 'ok', latencyMs: expect.any(Number) },
+                wallet: {
+                    status: 'ok',
+                    latencyMs: expect.any(Number),
+                    details: { address: meshWallet.getChangeAddress(), utxos: 2, lovelace: '1005000000' }
+                }
+            }
+        })
+
+        const empty = newWallet()
+        const degraded = await checkHealth({
+            provider: emulator,
+            pool: new WalletPool({ size: 0, wallet: () => empty })
+        })
+        expect(degraded).toMatchObject({
+            status: 'degraded',
+            checks: {
+                provider: { status: 'ok' },
+                wallet: { status: 'error', error: `Issuer wallet ${empty.getChangeAddress()} has no UTxOs` }
+            }
+        })
+    })
+})
@@ -0,0 +1,95 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect, jest } from '@jest/globals'
+import { CIP68_222, deserializeAddress, MeshWallet, stringToHex } from '@meshsdk/core'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { AuditLog } from '../src/services/audit.service'
+import { JobQueue } from '../src/services/job.service'
+import { WalletPool } from '../src/services/pool.service'
+import { UtxoManager } from '../src/services/wallet.service'
+import { JsonStore } from '../src/stores/json.store'
+import { AuditRecord, Job } from '../src/types'
+
+const course = '[C2VN]: Hydra on Cardano – Complete Step-by-Step DApp Guide'
+
+describe('Issuer wallet pool', function () {
+    let directory: string
+    let emulator: EmulatorProvider
+    let pool: WalletPool
+    let issuerAddress: string
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pool-'))
+        emulator = new EmulatorProvider()
+        const words = MeshWallet.brew() as string[]
+        pool = new WalletPool({
+            size: 2,
+            wallet: (accountIndex) =>
+                new MeshWallet({
+                    networkId: APP_NETWORK_ID,
+                    fetcher: emulator,
+                    submitter: emulator,
+                    accountIndex,
+                    key: { type: 'mnemonic', words }
+                }),
+            utxoManager: new UtxoManager(),
+            utxosPerAccount: 3,
+            lovelacePerUtxo: 20000000
+        })
+        issuerAddress = pool.issuer.getChangeAddress()
+        emulator.addUtxo(issuerAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(issuerAddress, [{ unit: 'lovelace', quantity: '5000000' }])
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+    jest.setTimeout(60000)
+
+    test('Funds pool accounts from the issuer by splitting its UTxOs', async function () {
+        expect(await pool.fund()).toHaveLength(64)
+        for (const accountIndex of [1, 2]) {
+            const utxos = await emulator.fetchAddressUTxOs(pool.account(accountIndex).getChangeAddress())
+            expect(utxos.map((utxo) => utxo.output.amount)).toEqual(
+                Array(3).fill([{ unit: 'lovelace', quantity: '20000000' }])
+            )
+        }
+        expect(await pool.fund()).toBeNull()
+    })
+
+    test('Mints in parallel from pool accounts under the issuer policy', async function () {
+        const queue = new JobQueue({
+            store: new JsonStore<Job>('jobs', directory),
+            provider: () => emulator,
+            pool,
+            audit: new AuditLog(new JsonStore<AuditRecord>('audit', directory))
+        })
+        const metadata = { name: 'hcd #009', _pk: deserializeAddress(issuerAddress).pubKeyHash }
+        const jobs = ['1hcd11', '1hcd12', '1hcd13'].map((assetName) =>
+            queue.enqueue('mint', course, [{ assetName, metadata, quantity: '1', receiver: '' }])
+        )
+
+        await queue.idle()
+
+        const done = jobs.map((job) => queue.get(job.id)!)
+        expect(done.map((job) => job.status)).toEqual(['confirmed', 'confirmed', 'confirmed'])
+        expect(new Set(done.map((job) => job.policyId)).size).toBe(1)
+        const issuerUnits = (await emulator.fetchAddressUTxOs(issuerAddress)).flatMap((utxo) =>
+            utxo.output.amount.map((amount) => amount.unit)
+        )
+        ;['1hcd11', '1hcd12', '1hcd13'].forEach((assetName) =>
+            expect(issuerUnits).toContain(done[0].policyId + CIP68_222(stringToHex(assetName)))
+        )
+        const pooled = await Promise.all(
+            [1, 2].map((accountIndex) => emulator.fetchAddressUTxOs(pool.account(accountIndex).getChangeAddress()))
+        )
+        const pooledLovelace = pooled
+            .flat()
+            .flatMap((utxo) => utxo.output.amount)
+            .filter((amount) => amount.unit === 'lovelace')
+            .reduce((total, amount) => total + Number(amount.quantity), 0)
+        expect(pooledLovelace).toBeLessThan(2 * 3 * 20000000)
+    })
+})
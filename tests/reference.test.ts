@@ -0,0 +1,124 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect, jest } from '@jest/globals'
+import { cst, deserializeAddress, MeshWallet, resolveNativeScriptHash, resolveTxHash } from '@meshsdk/core'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { deployReferenceScripts } from '../src/services/deploy.service'
+import { WalletPool } from '../src/services/pool.service'
+import { ReferenceScripts } from '../src/services/reference.service'
+import { UtxoManager } from '../src/services/wallet.service'
+import { JsonStore } from '../src/stores/json.store'
+import { MeshTxBuilder } from '../src/txbuilders/mesh.txbuilder'
+import { ReferenceScriptRecord } from '../src/types'
+
+describe('Reference scripts', function () {
+    const course = 'course-reference'
+    let directory: string
+    let emulator: EmulatorProvider
+    let meshWallet: MeshWallet
+    let utxoManager: UtxoManager
+    let references: ReferenceScripts
+    let metadata: Record<string, string>
+
+    const newTxBuilder = function (scripts: ReferenceScripts) {
+        return new MeshTxBuilder({
+            meshWallet,
+            course,
+            issuer: meshWallet.getChangeAddress(),
+            provider: emulator,
+            evaluator: emulator,
+            utxoManager,
+            referenceScripts: scripts
+        })
+    }
+
+    const submit = async function (unsignedTx: string) {
+        return meshWallet.submitTx(await meshWallet.signTx(unsignedTx, true))
+    }
+
+    const scriptsOf = function (tx: string) {
+        const transaction = cst.deserializeTx(tx)
+        return {
+            embedded: transaction.witnessSet().plutusV3Scripts()?.size() ?? 0,
+            references: (transaction.body().referenceInputs()?.values() ?? []).map(
+                (input) => `${input.transactionId()}#${input.index()}`
+            )
+        }
+    }
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'reference-'))
+        emulator = new EmulatorProvider()
+        utxoManager = new UtxoManager()
+        references = new ReferenceScripts(new JsonStore<ReferenceScriptRecord>('reference-scripts', directory))
+        meshWallet = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+        const walletAddress = meshWallet.getChangeAddress()
+        metadata = { name: 'hcd #009', _pk: deserializeAddress(walletAddress).pubKeyHash }
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '5000000' }])
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+    jest.setTimeout(60000)
+
+    test('Deploys the scripts once and records their outRefs', async function () {
+        const pool = new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager })
+        const { record, deployed } = await deployReferenceScripts(course, { pool, provider: emulator, references })
+        expect(deployed).toBe(true)
+
+        const meshTxBuilder = newTxBuilder(references)
+        expect(record).toMatchObject({
+            course,
+            address: meshTxBuilder.referenceAddress,
+            mint: { txHash: record.mint.txHash, outputIndex: 0, scriptHash: meshTxBuilder.policyId },
+            store: { txHash: record.mint.txHash, outputIndex: 1 }
+        })
+        const { pubKeyHash } = deserializeAddress(meshWallet.getChangeAddress())
+        expect(deserializeAddress(record.address).scriptHash).toBe(
+            resolveNativeScriptHash({ type: 'sig', keyHash: pubKeyHash })
+        )
+        const outputs = await emulator.fetchUTxOs(record.mint.txHash)
+        expect(outputs.slice(0, 2).every((utxo) => utxo.output.scriptRef !== undefined)).toBe(true)
+        expect(await meshTxBuilder.getReferenceScripts()).toEqual(record)
+
+        const again = await deployReferenceScripts(course, { pool, provider: emulator, references })
+        expect(again).toEqual({ record, deployed: false })
+    })
+
+    test('Mints, updates and burns through the reference scripts instead of embedding them', async function () {
+        const pool = new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager })
+        const { record } = await deployReferenceScripts(course, { pool, provider: emulator, references })
+        const refs = [`${record.mint.txHash}#0`, `${record.store.txHash}#1`]
+        const meshTxBuilder = newTxBuilder(references)
+        const params = [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }]
+
+        const inline = await newTxBuilder(
+            new ReferenceScripts(new JsonStore<ReferenceScriptRecord>('none', directory))
+        ).mint(params)
+        utxoManager.release(resolveTxHash(inline))
+        const minted = await meshTxBuilder.mint(params)
+        expect(scriptsOf(inline).embedded).toBe(1)
+        expect(scriptsOf(minted)).toEqual({ embedded: 0, references: [refs[0]] })
+        expect(minted.length).toBeLessThan(inline.length)
+        await submit(minted)
+
+        const updated = await meshTxBuilder.update([{ assetName: '1hcd11', metadata: { ...metadata, grade: '9' } }])
+        expect(scriptsOf(updated)).toEqual({ embedded: 0, references: [refs[1]] })
+        await submit(updated)
+
+        const burned = await meshTxBuilder.burn([{ assetName: '1hcd11', quantity: '-1' }])
+        expect(scriptsOf(burned).embedded).toBe(0)
+        expect(scriptsOf(burned).references.sort()).toEqual(refs)
+        await submit(burned)
+        expect(await meshTxBuilder.getAsset('1hcd11')).toBeNull()
+    })
+})
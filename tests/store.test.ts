@@ -0,0 +1,48 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect } from '@jest/globals'
+import { JsonStore } from '../src/stores/json.store'
+
+describe('JSON store', function () {
+    let directory: string
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'store-'))
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Reloads the writes appended to its journal', function () {
+        const store = new JsonStore<{ n: number }>('items', directory)
+        store.set('a', { n: 1 })
+        store.set('b', { n: 2 })
+        store.update('a', { n: 3 })
+        store.delete('b')
+
+        expect(fs.existsSync(path.join(directory, 'items.json'))).toBe(false)
+        expect(new JsonStore('items', directory).values()).toEqual([{ n: 3 }])
+    })
+
+    test('Compacts its journal into the snapshot', function () {
+        const store = new JsonStore<{ n: number }>('items', directory)
+        for (let n = 0; n <= 100; n++) store.set('a', { n })
+
+        expect(fs.readFileSync(path.join(directory, 'items.jsonl'), 'utf-8')).toBe('')
+        expect(JSON.parse(fs.readFileSync(path.join(directory, 'items.json'), 'utf-8'))).toEqual({ a: { n: 100 } })
+        store.set('b', { n: 0 })
+        expect(new JsonStore('items', directory).values()).toEqual([{ n: 100 }, { n: 0 }])
+    })
+
+    test('Ignores a journal line cut short by a crash', function () {
+        new JsonStore<{ n: number }>('items', directory).set('a', { n: 1 })
+        fs.appendFileSync(path.join(directory, 'items.jsonl'), '["b",{"n"')
+
+        const store = new JsonStore<{ n: number }>('items', directory)
+        expect(store.values()).toEqual([{ n: 1 }])
+        store.set('c', { n: 2 })
+        expect(new JsonStore('items', directory).values()).toEqual([{ n: 1 }, { n: 2 }])
+    })
+})
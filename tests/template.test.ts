@@ -0,0 +1,84 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect } from '@jest/globals'
+import { CertificateTemplates } from '../src/services/template.service'
+import { JsonStore } from '../src/stores/json.store'
+import { CertificateTemplate } from '../src/types'
+
+const course = '[C2VN]: Hydra on Cardano – Complete Step-by-Step DApp Guide'
+
+describe('Certificate templates', function () {
+    let directory: string
+    let templates: CertificateTemplates
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'))
+        templates = new CertificateTemplates(new JsonStore<CertificateTemplate>('templates', directory))
+        templates.set(course, {
+            name: { type: 'string', required: true, maxLength: 16 },
+            image: { type: 'string', required: true, default: 'ipfs://QmQK3ZfKnwg772ZUhSodoyaqTMPazG2Ni3V4ydifYaYzdV' },
+            mediaType: { type: 'string', default: 'image/png' },
+            score: { type: 'integer' },
+            files: { type: 'list', maxLength: 2 }
+        })
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Passes metadata through for courses without a template', function () {
+        expect(templates.apply('other course', { anything: 'goes' })).toEqual({
+            metadata: { anything: 'goes' },
+            errors: []
+        })
+    })
+
+    test('Merges defaults into valid metadata', function () {
+        expect(templates.apply(course, { name: 'hcd #009', score: 97 })).toEqual({
+            metadata: {
+                name: 'hcd #009',
+                image: 'ipfs://QmQK3ZfKnwg772ZUhSodoyaqTMPazG2Ni3V4ydifYaYzdV',
+                mediaType: 'image/png',
+                score: 97
+            },
+            errors: []
+        })
+    })
+
+    test('Rejects the reserved _pk field, with or without a template', function () {
+        expect(templates.apply(course, { name: 'hcd #009', _pk: 'ab' }).errors).toEqual([
+            { field: '_pk', message: 'is set by the service' }
+        ])
+        expect(templates.apply('other course', { _pk: 'ab' }).errors).toEqual([
+            { field: '_pk', message: 'is set by the service' }
+        ])
+    })
+
+    test('Reports every field error', function () {
+        const { errors } = templates.apply(course, { nmae: 'typo', score: '97', files: [1, 2, 3] })
+
+        expect(errors).toEqual([
+            { field: 'nmae', message: 'is not defined in the course template' },
+            { field: 'name', message: 'is required' },
+            { field: 'score', message: 'must be an integer' },
+            { field: 'files', message: 'must have at most 2 items, got 3' }
+        ])
+        expect(templates.apply(course, { name: 'Nguyễn Văn An #1' }).errors).toEqual([
+            { field: 'name', message: 'must be at most 16 bytes (UTF-8), got 19' }
+        ])
+    })
+
+    test('Rejects invalid field definitions', function () {
+        const { template, errors } = templates.set(course, {
+            grade: { type: 'float' as 'integer' },
+            score: { type: 'integer', maxLength: 3 },
+            mediaType: { type: 'string', maxLength: 4, default: 'image/png' }
+        })
+
+        expect(template).toBeUndefined()
+        expect(errors.map((error) => error.field)).toEqual(['grade', 'score', 'mediaType'])
+        expect(templates.get(course)!.fields.name.required).toBe(true)
+    })
+})
@@ -0,0 +1,300 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { setTimeout as sleep } from 'timers/promises'
+import { describe, test, beforeEach, afterEach, expect } from '@jest/globals'
+import { cst, deserializeAddress, MeshTxBuilder, MeshWallet, resolveTxHash } from '@meshsdk/core'
+import { APP_NETWORK, APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { AuditLog } from '../src/services/audit.service'
+import { JobQueue } from '../src/services/job.service'
+import { WalletPool } from '../src/services/pool.service'
+import { TxTracker } from '../src/services/tracker.service'
+import { UtxoManager } from '../src/services/wallet.service'
+import { Webhooks } from '../src/services/webhook.service'
+import { JsonStore } from '../src/stores/json.store'
+import { AuditRecord, Cip68Metadata, Job, WebhookDelivery, WebhookRecord } from '../src/types'
+
+const course = 'course-tracker'
+
+const until = async function (predicate: () => boolean) {
+    for (let attempt = 0; !predicate(); attempt++) {
+        if (attempt > 500) throw new Error('Condition not met in time')
+        await sleep(10)
+    }
+}
+
+describe('Transaction tracking', function () {
+    let directory: string
+    let emulator: EmulatorProvider
+    let meshWallet: MeshWallet
+    let metadata: Cip68Metadata
+
+    const newQueue = function (tracker: TxTracker, hooks?: Webhooks) {
+        return new JobQueue({
+            store: new JsonStore<Job>('jobs', directory),
+            provider: () => emulator,
+            pool: new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager: new UtxoManager() }),
+            audit: new AuditLog(new JsonStore<AuditRecord>('audit', directory)),
+            webhooks: hooks,
+            tracker
+        })
+    }
+
+    /**
+     * A payment from the wallet to itself spending its first UTxO, optionally valid until `ttl`.
+     */
+    const payment = async function (ttl?: number) {
+        const address = meshWallet.getChangeAddress()
+        const [utxo] = await emulator.fetchAddressUTxOs(address)
+        const txBuilder = new MeshTxBuilder({ fetcher: emulator })
+            .txIn(utxo.input.txHash, utxo.input.outputIndex, utxo.output.amount, address)
+            .txOut(address, [{ unit: 'lovelace', quantity: '2000000' }])
+        if (ttl !== undefined) txBuilder.invalidHereafter(ttl)
+        return meshWallet.signTx(await txBuilder.changeAddress(address).setNetwork(APP_NETWORK).complete())
+    }
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-'))
+        emulator = new EmulatorProvider()
+        meshWallet = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+        const walletAddress = meshWallet.getChangeAddress()
+        metadata = { name: 'hcd #009', _pk: deserializeAddress(walletAddress).pubKeyHash }
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '5000000' }])
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Tells expired, dropped and unconfirmed transactions apart', async function () {
+        const tracker = new TxTracker({ interval: 0.01, timeout: 0.2, resubmitAfter: 0 })
+
+        const expiring = await payment(emulator.slot + 5)
+        emulator.drop()
+        await emulator.submitTx(expiring)
+        emulator.awaitSlot(10)
+        expect(await tracker.track(emulator, resolveTxHash(expiring), { signedTx: expiring })).toMatchObject({
+            status: 'expired',
+            replaceable: true,
+            error: expect.stringContaining('OutsideValidityIntervalUTxO')
+        })
+
+        const dropped = await payment()
+        emulator.drop()
+        await emulator.submitTx(dropped)
+        // Same input, different body: it takes the place of the dropped one.
+        await emulator.submitTx(await payment(emulator.slot + 100))
+        expect(await tracker.track(emulator, resolveTxHash(dropped), { signedTx: dropped })).toMatchObject({
+            status: 'dropped',
+            replaceable: true,
+            error: expect.stringContaining('BadInputsUTxO')
+        })
+
+        const pending = await payment()
+        emulator.drop()
+        await emulator.submitTx(pending)
+        expect(await tracker.track(emulator, resolveTxHash(pending))).toEqual({
+            txHash: resolveTxHash(pending),
+            status: 'timeout',
+            confirmations: 0,
+            resubmissions: 0,
+            replaceable: false,
+            error: `Transaction ${resolveTxHash(pending)} was not confirmed within 0.2 seconds (0/1 confirmations)`
+        })
+
+        const resubmitted = await payment()
+        emulator.drop()
+        await emulator.submitTx(resubmitted)
+        expect(await tracker.track(emulator, resolveTxHash(resubmitted), { signedTx: resubmitted })).toMatchObject({
+            status: 'confirmed',
+            resubmissions: 1
+        })
+    })
+
+    test('Keeps waiting for a transaction whose resubmission is rejected because it is still in the mempool', async function () {
+        const held = await payment()
+        emulator.hold()
+        await emulator.submitTx(held)
+        const tracker = new TxTracker({ interval: 0.01, timeout: 0.2, resubmitAfter: 0 })
+        expect(await tracker.track(emulator, resolveTxHash(held), { signedTx: held })).toMatchObject({
+            status: 'timeout',
+            replaceable: false
+        })
+        emulator.awaitBlocks()
+
+        const queue = newQueue(new TxTracker({ interval: 0.01, resubmitAfter: 0.02 }))
+        emulator.hold()
+        const job = queue.enqueue('mint', course, [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }])
+        await until(() => queue.get(job.id)!.status === 'submitted')
+        const submitted = queue.get(job.id)!.txHash
+        await sleep(200)
+        expect(queue.get(job.id)).toMatchObject({ status: 'submitted', txHash: submitted })
+
+        emulator.awaitBlocks()
+        await queue.idle()
+        expect(queue.get(job.id)).toMatchObject({ status: 'confirmed', txHash: submitted })
+        expect(queue.get(job.id)!.rebuilds).toBeUndefined()
+    })
+
+    test('Does not take a provider failure for a rollback', async function () {
+        const signedTx = await payment()
+        const txHash = await emulator.submitTx(signedTx)
+        let failures = 0
+        const flaky = new Proxy(emulator, {
+            get: (target, property, receiver) => {
+                if (property !== 'fetchTxInfo') return Reflect.get(target, property, receiver)
+                return async (hash: string) => {
+                    if (failures > 0) {
+                        failures -= 1
+                        if (failures === 0) emulator.awaitBlocks()
+                        throw new Error('Provider request /txs failed with status 503: upstream timeout')
+                    }
+                    return target.fetchTxInfo(hash)
+                }
+            }
+        })
+        const rollbacks: string[] = []
+        const tracking = new TxTracker({ interval: 0.01, depth: 2, resubmitAfter: 0 }).track(flaky, txHash, {
+            signedTx,
+            onRollback: () => rollbacks.push(txHash)
+        })
+        await sleep(30)
+        failures = 5
+
+        expect(await tracking).toMatchObject({ status: 'confirmed', confirmations: 2, resubmissions: 0 })
+        expect(rollbacks).toEqual([])
+        expect(failures).toBe(0)
+    })
+
+    test('Does not take a failed block lookup for confirmations', async function () {
+        let failures = 1
+        const flaky = new Proxy(emulator, {
+            get: (target, property, receiver) => {
+                if (property !== 'fetchBlockInfo') return Reflect.get(target, property, receiver)
+                return async (hash: string) => {
+                    if (failures > 0) {
+                        failures -= 1
+                        throw new Error('Provider request /blocks failed with status 429: rate limited')
+                    }
+                    return target.fetchBlockInfo(hash)
+                }
+            }
+        })
+        const queue = new JobQueue({
+            store: new JsonStore<Job>('jobs', directory),
+            provider: () => flaky,
+            pool: new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager: new UtxoManager() }),
+            audit: new AuditLog(new JsonStore<AuditRecord>('audit', directory)),
+            tracker: new TxTracker({ interval: 0.01, depth: 3 })
+        })
+
+        const job = queue.enqueue('mint', course, [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }])
+        await until(() => failures === 0)
+        await sleep(50)
+        expect(queue.get(job.id)!.status).toBe('submitted')
+
+        emulator.awaitBlocks(2)
+        await queue.idle()
+        expect(queue.get(job.id)!.status).toBe('confirmed')
+    })
+
+    test('Recognises the empty answer of Koios as an unknown transaction', async function () {
+        // KoiosProvider.fetchTxInfo throws `parseHttpError(parseHttpError([]))` for an unknown transaction.
+        const koios = new Proxy(emulator, {
+            get: (target, property, receiver) => {
+                if (property !== 'fetchTxInfo') return Reflect.get(target, property, receiver)
+                return async (hash: string) =>
+                    target.fetchTxInfo(hash).catch(() => {
+                        throw JSON.stringify(JSON.stringify([]))
+                    })
+            }
+        })
+        const dropped = await payment()
+        emulator.drop()
+        await emulator.submitTx(dropped)
+        await emulator.submitTx(await payment(emulator.slot + 100))
+
+        const tracker = new TxTracker({ interval: 0.01, timeout: 0.2, resubmitAfter: 0 })
+        expect(await tracker.track(koios, resolveTxHash(dropped), { signedTx: dropped })).toMatchObject({
+            status: 'dropped',
+            replaceable: true
+        })
+    })
+
+    test('Resubmits a rolled back transaction and waits for the confirmation depth', async function () {
+        const events: string[] = []
+        const hooks = new Webhooks({
+            store: new JsonStore<WebhookRecord>('webhooks', directory),
+            deliveries: new JsonStore<WebhookDelivery>('webhook-deliveries', directory),
+            fetch: async function (url, init) {
+                events.push(JSON.parse(String(init!.body)).type)
+                return new Response(null, { status: 200 })
+            }
+        })
+        hooks.register('https://lms.example/course', 'api-key:admin', { course })
+        const queue = newQueue(new TxTracker({ interval: 0.01, depth: 2 }), hooks)
+
+        const job = queue.enqueue('mint', course, [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }])
+        await until(() => queue.get(job.id)!.status === 'submitted')
+        await sleep(50)
+        expect(queue.get(job.id)!.status).toBe('submitted')
+
+        emulator.rollback()
+        await until(() => events.includes('tx.rolled_back'))
+        emulator.awaitBlocks()
+        await queue.idle()
+        await hooks.idle()
+
+        expect(queue.get(job.id)!.status).toBe('confirmed')
+        expect(await emulator.fetchTxInfo(queue.get(job.id)!.txHash!)).toBeDefined()
+        expect(events).toEqual(['tx.submitted', 'tx.rolled_back', 'tx.confirmed'])
+    })
+
+    test('Submits the next job while the previous one awaits its confirmations', async function () {
+        const queue = newQueue(new TxTracker({ interval: 0.01, depth: 3 }))
+
+        const first = queue.enqueue('mint', course, [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }])
+        await until(() => queue.get(first.id)!.status === 'submitted')
+        const second = queue.enqueue('mint', course, [{ assetName: '1hcd12', metadata, quantity: '1', receiver: '' }])
+        await until(() => queue.get(second.id)!.status === 'submitted')
+        expect(queue.get(first.id)!.status).toBe('submitted')
+
+        emulator.awaitBlocks(2)
+        await queue.idle()
+
+        expect(queue.get(first.id)!.status).toBe('confirmed')
+        expect(queue.get(second.id)!.status).toBe('confirmed')
+    })
+
+    test('Rebuilds a server-signed job whose transaction was dropped', async function () {
+        const queue = newQueue(new TxTracker({ interval: 0.01, resubmitAfter: 0.05 }))
+
+        emulator.drop()
+        const job = queue.enqueue('mint', course, [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }])
+        await until(() => queue.get(job.id)!.status === 'submitted')
+        const dropped = queue.get(job.id)!.txHash!
+
+        // Another transaction spends the inputs of the dropped one, so it cannot be resubmitted.
+        const address = meshWallet.getChangeAddress()
+        const [input] = cst.deserializeTx(queue.get(job.id)!.signedTx!).body().inputs().values()
+        const [utxo] = await emulator.fetchUTxOs(input.transactionId(), Number(input.index()))
+        const conflict = await new MeshTxBuilder({ fetcher: emulator })
+            .txIn(utxo.input.txHash, utxo.input.outputIndex, utxo.output.amount, address)
+            .changeAddress(address)
+            .setNetwork(APP_NETWORK)
+            .complete()
+        await emulator.submitTx(await meshWallet.signTx(conflict))
+        await queue.idle()
+
+        const done = queue.get(job.id)!
+        expect(done).toMatchObject({ status: 'confirmed', rebuilds: 1 })
+        expect(done.txHash).not.toBe(dropped)
+    })
+})
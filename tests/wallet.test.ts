@@ -0,0 +1,79 @@
+import { describe, test, beforeEach, expect, jest } from '@jest/globals'
+import { deserializeAddress, MeshWallet, resolveTxHash } from '@meshsdk/core'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { UtxoManager } from '../src/services/wallet.service'
+import { MeshTxBuilder } from '../src/txbuilders/mesh.txbuilder'
+
+const course = '[C2VN]: Hydra on Cardano – Complete Step-by-Step DApp Guide'
+
+describe('Pending UTxO tracking for the issuer wallet', function () {
+    let meshWallet: MeshWallet
+    let emulator: EmulatorProvider
+    let walletAddress: string
+    let metadata: Record<string, string>
+
+    const newTxBuilder = function (utxoManager: UtxoManager) {
+        return new MeshTxBuilder({
+            meshWallet: meshWallet,
+            course: course,
+            issuer: walletAddress,
+            provider: emulator,
+            evaluator: emulator,
+            utxoManager
+        })
+    }
+
+    const mint = function (utxoManager: UtxoManager, assetName: string) {
+        return newTxBuilder(utxoManager).mint([{ assetName, quantity: '1', receiver: '', metadata: metadata }])
+    }
+
+    beforeEach(function () {
+        emulator = new EmulatorProvider()
+        meshWallet = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+        walletAddress = meshWallet.getChangeAddress()
+        metadata = { name: 'hcd #009', _pk: deserializeAddress(walletAddress).pubKeyHash }
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '5000000' }])
+    })
+    jest.setTimeout(60000)
+
+    test('Chains transactions built before the previous one is confirmed', async function () {
+        const utxoManager = new UtxoManager()
+        const first = await mint(utxoManager, '1hcd11')
+        const second = await mint(utxoManager, '1hcd12')
+        expect(utxoManager.size).toBe(2)
+
+        await emulator.submitTx(await meshWallet.signTx(first, true))
+        await emulator.submitTx(await meshWallet.signTx(second, true))
+
+        expect(await newTxBuilder(utxoManager).getAsset('1hcd12')).not.toBeNull()
+        const utxos = await meshWallet.getUtxos()
+        expect(utxoManager.available(walletAddress, utxos)).toEqual(utxos)
+        expect(utxoManager.size).toBe(0)
+    })
+
+    test('Releases the inputs of failed and expired transactions', async function () {
+        const utxoManager = new UtxoManager()
+        const first = await mint(utxoManager, '1hcd11')
+        const chained = await mint(utxoManager, '1hcd12')
+
+        expect(utxoManager.release(resolveTxHash(first))).toBe(true)
+        expect(utxoManager.size).toBe(0)
+        expect(utxoManager.release(resolveTxHash(chained))).toBe(false)
+
+        const retry = await mint(utxoManager, '1hcd11')
+        await emulator.submitTx(await meshWallet.signTx(retry, true))
+
+        const expiring = new UtxoManager(0)
+        await mint(expiring, '1hcd12')
+        expect(expiring.size).toBe(0)
+        const utxos = await meshWallet.getUtxos()
+        expect(expiring.available(walletAddress, utxos)).toEqual(utxos)
+    })
+})
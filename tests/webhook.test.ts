@@ -0,0 +1,143 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, test, beforeEach, afterEach, expect } from '@jest/globals'
+import { deserializeAddress, MeshWallet } from '@meshsdk/core'
+import { APP_NETWORK_ID } from '../src/constants/enviroments.constant'
+import { EmulatorProvider } from '../src/providers/emulator.provider'
+import { AuditLog } from '../src/services/audit.service'
+import { JobQueue } from '../src/services/job.service'
+import { WalletPool } from '../src/services/pool.service'
+import { UtxoManager } from '../src/services/wallet.service'
+import { signPayload, Webhooks } from '../src/services/webhook.service'
+import { JsonStore } from '../src/stores/json.store'
+import { AuditRecord, Job, WebhookDelivery, WebhookRecord } from '../src/types'
+
+type Request = { url: string; headers: Record<string, string>; body: string }
+
+describe('Webhook notifications', function () {
+    const course = 'course-hooks'
+    let directory: string
+    let requests: Request[]
+    let answer: number
+
+    const newWebhooks = function (options: { maxAttempts?: number } = {}) {
+        return new Webhooks({
+            store: new JsonStore<WebhookRecord>('webhooks', directory),
+            deliveries: new JsonStore<WebhookDelivery>('webhook-deliveries', directory),
+            fetch: async function (url, init) {
+                requests.push({
+                    url: String(url),
+                    headers: init!.headers as Record<string, string>,
+                    body: String(init!.body)
+                })
+                return new Response(null, { status: answer })
+            },
+            retryDelay: 0,
+            ...options
+        })
+    }
+
+    beforeEach(function () {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'))
+        requests = []
+        answer = 200
+    })
+
+    afterEach(function () {
+        fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    test('Posts signed lifecycle events of a job to the webhooks of its course and caller', async function () {
+        const emulator = new EmulatorProvider()
+        const meshWallet = new MeshWallet({
+            networkId: APP_NETWORK_ID,
+            fetcher: emulator,
+            submitter: emulator,
+            key: { type: 'mnemonic', words: MeshWallet.brew() as string[] }
+        })
+        const walletAddress = meshWallet.getChangeAddress()
+        const metadata = { name: 'hcd #009', _pk: deserializeAddress(walletAddress).pubKeyHash }
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '1000000000' }])
+        emulator.addUtxo(walletAddress, [{ unit: 'lovelace', quantity: '5000000' }])
+
+        const hooks = newWebhooks()
+        const byCourse = hooks.register('https://lms.example/course', 'api-key:admin', { course })
+        hooks.register('https://lms.example/client', 'api-key:lms', { events: ['tx.confirmed'] })
+        hooks.register('https://other.example/client', 'api-key:other')
+        const queue = new JobQueue({
+            store: new JsonStore<Job>('jobs', directory),
+            provider: () => emulator,
+            pool: new WalletPool({ size: 0, wallet: () => meshWallet, utxoManager: new UtxoManager() }),
+            audit: new AuditLog(new JsonStore<AuditRecord>('audit', directory)),
+            webhooks: hooks
+        })
+
+        const job = queue.enqueue(
+            'mint',
+            course,
+            [{ assetName: '1hcd11', metadata, quantity: '1', receiver: '' }],
+            'api-key:lms'
+        )
+        await queue.idle()
+        await hooks.idle()
+
+        expect(requests.map((request) => `${request.url} ${request.headers['X-Webhook-Event']}`).sort()).toEqual([
+            'https://lms.example/client tx.confirmed',
+            'https://lms.example/course tx.confirmed',
+            'https://lms.example/course tx.submitted'
+        ])
+        const confirmed = requests.find(
+            (request) => request.url === 'https://lms.example/course' && request.body.includes('tx.confirmed')
+        )!
+        const timestamp = Number(/t=(\d+)/.exec(confirmed.headers['X-Webhook-Signature'])![1])
+        expect(confirmed.headers['X-Webhook-Signature']).toBe(signPayload(byCourse.secret, timestamp, confirmed.body))
+        expect(JSON.parse(confirmed.body)).toMatchObject({
+            type: 'tx.confirmed',
+            data: {
+                job_id: job.id,
+                operation: 'mint',
+                course,
+                tx_hashes: [queue.get(job.id)!.txHash],
+                assets: [{ asset_name: '1hcd11', metadata: { name: 'hcd #009' } }]
+            }
+        })
+        expect(hooks.history({ status: 'delivered' })).toHaveLength(3)
+    })
+
+    test('Retries failed deliveries, then keeps them as dead letters until replayed', async function () {
+        const hooks = newWebhooks({ maxAttempts: 3 })
+        hooks.register('https://lms.example/hook', 'api-key:lms')
+        const now = new Date().toISOString()
+        const job: Job = {
+            id: 'job-1',
+            type: 'burn',
+            course,
+            params: [{ assetName: '1hcd11', quantity: '-1' }],
+            status: 'failed',
+            caller: 'api-key:lms',
+            error: { message: 'Store UTXO not found', stage: 'queued' },
+            createdAt: now,
+            updatedAt: now
+        }
+
+        answer = 503
+        const [delivery] = hooks.emit('tx.failed', job)
+        await hooks.idle()
+
+        expect(requests).toHaveLength(3)
+        expect(hooks.history({ status: 'dead' })).toMatchObject([
+            { id: delivery.id, attempts: 3, lastError: 'Endpoint answered 503', responseStatus: 503 }
+        ])
+        expect(new Set(requests.map((request) => request.headers['X-Webhook-Delivery']))).toEqual(
+            new Set([delivery.id])
+        )
+
+        answer = 204
+        expect(hooks.replay(delivery.id)).toMatchObject({ status: 'pending', attempts: 0 })
+        await hooks.idle()
+
+        expect(hooks.delivery(delivery.id)).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 204 })
+        expect(JSON.parse(requests[3].body)).toEqual(JSON.parse(requests[0].body))
+    })
+})